@@ -4,14 +4,32 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import dotenv from 'dotenv';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
-import { createAppRouter } from '@quiz-battle/trpc';
+import {
+  createAppRouter,
+  createSessionContext,
+  createSessionTokenServiceFromEnv,
+  createMediaStorageFromEnv
+} from '@quiz-battle/trpc';
+import { Advanced } from '@quiz-battle/shared';
 import {
   DatabaseGameRepository,
   DatabaseQuestionRepository,
   DatabaseAnswerRepository,
-  DatabaseThemeRepository
+  DatabaseThemeRepository,
+  DatabasePlayerStatsRepository,
+  DatabaseLeaderboardRepository,
+  DatabaseRatingRepository,
+  DatabaseGameInviteRepository,
+  DatabaseAccountRepository,
+  DatabaseQuestionBankRepository,
+  DatabaseQuestionTemplateRepository,
+  DatabaseAuditLogRepository,
+  DatabaseEventStore,
+  DatabaseSnapshotStore
 } from '@quiz-battle/database';
+import { createClusterBackendFromEnv } from '@quiz-battle/game-engine';
 import { setupSocketHandlers } from './socket/handlers';
+import { GameArchivalJob } from './jobs/game-archival';
 import { configureSecurityMiddleware } from './middleware/security';
 import { 
   createErrorMiddleware, 
@@ -49,6 +67,16 @@ app.use(security.requestSizeLimit);
 // IP filtering
 app.use(security.ipFilter);
 
+// Question images and audio clips. Served ahead of the rate limits, since every
+// player loads one per media question. The web app is on another origin, so
+// they are opted out of helmet's same-origin resource policy.
+const mediaStorage = createMediaStorageFromEnv();
+app.use('/media', express.static(mediaStorage.directory, {
+  immutable: true,
+  maxAge: '30d', // Every upload gets a new file name
+  setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+}));
+
 // Security logging
 app.use(security.securityLogger);
 
@@ -73,13 +101,43 @@ const gameRepository = new DatabaseGameRepository();
 const questionRepository = new DatabaseQuestionRepository();
 const answerRepository = new DatabaseAnswerRepository();
 const themeRepository = new DatabaseThemeRepository();
+const playerStatsRepository = new DatabasePlayerStatsRepository();
+const leaderboardRepository = new DatabaseLeaderboardRepository();
+const ratingRepository = new DatabaseRatingRepository();
+const gameInviteRepository = new DatabaseGameInviteRepository();
+const accountRepository = new DatabaseAccountRepository();
+const questionBankRepository = new DatabaseQuestionBankRepository();
+const questionTemplateRepository = new DatabaseQuestionTemplateRepository();
+const auditLogRepository = new DatabaseAuditLogRepository();
+
+// Every game played is also kept as the event stream of its domain aggregate
+const gameEventRepository = new Advanced.EventSourcing.EventSourcedGameRepository(
+  new DatabaseEventStore(Advanced.EventSourcing.gameEventSerializer),
+  new DatabaseSnapshotStore()
+);
+
+// Signs the session tokens that identify players over tRPC and Socket.IO
+const sessionTokens = createSessionTokenServiceFromEnv();
+
+// Running games and player connections, shared with the other API nodes when REDIS_URL is set
+const clusterBackend = createClusterBackendFromEnv();
 
 // Create tRPC router with repositories
 const appRouter = createAppRouter(
   gameRepository,
   questionRepository,
   answerRepository,
-  themeRepository
+  themeRepository,
+  playerStatsRepository,
+  leaderboardRepository,
+  ratingRepository,
+  gameInviteRepository,
+  accountRepository,
+  questionBankRepository,
+  questionTemplateRepository,
+  auditLogRepository,
+  sessionTokens,
+  mediaStorage
 );
 
 // Health check endpoint
@@ -93,7 +151,7 @@ app.use('/trpc', security.apiRateLimit);
 // tRPC middleware
 app.use('/trpc', createExpressMiddleware({
   router: appRouter,
-  createContext: () => ({}),
+  createContext: ({ req }) => createSessionContext(sessionTokens, req.headers.authorization),
 }));
 
 // Socket.io setup with enhanced security
@@ -109,7 +167,11 @@ const io = new Server(server, {
 });
 
 // Setup socket handlers with repositories
-setupSocketHandlers(io, gameRepository, questionRepository, answerRepository);
+setupSocketHandlers(io, gameRepository, questionRepository, answerRepository, playerStatsRepository, leaderboardRepository, ratingRepository, gameEventRepository, sessionTokens, clusterBackend);
+
+// Move old finished games into the archive tables on a schedule
+const gameArchivalJob = new GameArchivalJob(gameRepository);
+gameArchivalJob.start();
 
 // Error handling middleware (must be last)
 app.use(createErrorMiddleware());
@@ -125,6 +187,7 @@ console.log('  - CORS protection');
 console.log('  - Request compression');
 console.log('  - Socket.IO security');
 console.log('  - Centralized error handling');
+console.log('🗄️ Game history archival job scheduled');
 
 const PORT = process.env.PORT || 3001;
 
@@ -0,0 +1,81 @@
+import { GameRepository, RETENTION_CONFIG } from '@quiz-battle/shared';
+
+export interface GameArchivalPolicy {
+  archiveAfterDays: number;
+  batchSize: number;
+  intervalMinutes: number;
+}
+
+// Retention policy from environment, falling back to the shared defaults
+export const createArchivalPolicyFromEnv = (): GameArchivalPolicy => {
+  const readNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    archiveAfterDays: readNumber('GAME_RETENTION_DAYS', RETENTION_CONFIG.ARCHIVE_AFTER_DAYS),
+    batchSize: readNumber('GAME_ARCHIVE_BATCH_SIZE', RETENTION_CONFIG.ARCHIVE_BATCH_SIZE),
+    intervalMinutes: readNumber('GAME_ARCHIVE_INTERVAL_MINUTES', RETENTION_CONFIG.ARCHIVE_INTERVAL_MINUTES),
+  };
+};
+
+// Periodically moves completed and cancelled games past the retention window
+// (and their answers) into the archive tables
+export class GameArchivalJob {
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    private readonly gameRepository: GameRepository,
+    private readonly policy: GameArchivalPolicy = createArchivalPolicyFromEnv()
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.policy.intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for archival
+    this.timer.unref();
+
+    void this.runOnce();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async runOnce(): Promise<number> {
+    // Skip if the previous run is still going
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    const cutoff = new Date(Date.now() - this.policy.archiveAfterDays * 24 * 60 * 60 * 1000);
+    let archived = 0;
+
+    try {
+      // Drain in batches so a large backlog doesn't hold one huge transaction
+      let batch: number;
+      do {
+        batch = await this.gameRepository.archiveFinishedGames(cutoff, this.policy.batchSize);
+        archived += batch;
+      } while (batch === this.policy.batchSize);
+
+      if (archived > 0) {
+        console.log(`🗄️ Archived ${archived} games finished before ${cutoff.toISOString()}`);
+      }
+    } catch (error) {
+      console.error('Error archiving games:', error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return archived;
+  }
+}
@@ -1,4 +1,5 @@
 import { Socket } from 'socket.io';
+import { SessionTokenService } from '@quiz-battle/trpc';
 
 // Rate limiting for Socket.IO events
 class SocketRateLimiter {
@@ -71,7 +72,7 @@ export const generalEventLimiter = new SocketRateLimiter(120, 60 * 1000); // 120
 export const connectionLimiter = new SocketRateLimiter(10, 60 * 1000); // 10 connection events per minute
 
 // Socket security middleware
-export const createSocketSecurityMiddleware = () => {
+export const createSocketSecurityMiddleware = (sessionTokens: SessionTokenService) => {
   return (socket: Socket, next: (err?: Error) => void) => {
     const clientIP = socket.handshake.address;
     const userAgent = socket.handshake.headers['user-agent'] || '';
@@ -95,6 +96,37 @@ export const createSocketSecurityMiddleware = () => {
       return next(new Error('Connection rate limit exceeded'));
     }
 
+    // The session token is the player's identity for the lifetime of the socket
+    const session = sessionTokens.verify(socket.handshake.auth?.token);
+    if (!session) {
+      console.warn('🚨 Socket connection rejected: Invalid session token', { ip: clientIP });
+      return next(new Error('Invalid session token'));
+    }
+    socket.data.playerId = session.playerId;
+
+    next();
+  };
+};
+
+// Per-socket packet middleware: drops events that claim to come from a player
+// other than the one the socket authenticated as
+export const createPlayerIdentityMiddleware = (socket: Socket) => {
+  return ([event, data]: any[], next: (err?: Error) => void) => {
+    const claimedPlayerId = data && typeof data === 'object' ? data.playerId : undefined;
+
+    if (claimedPlayerId !== undefined && claimedPlayerId !== socket.data.playerId) {
+      console.warn('🚨 Socket event rejected: Player mismatch', {
+        socketId: socket.id,
+        eventType: event,
+        sessionPlayerId: socket.data.playerId
+      });
+      socket.emit('error', {
+        message: 'Player does not match session',
+        code: 'PLAYER_MISMATCH'
+      });
+      return;
+    }
+
     next();
   };
 };
@@ -2,15 +2,27 @@ import { Server, Socket } from 'socket.io';
 import {
   ClientToServerEvents,
   ServerToClientEvents,
-  generateGameId,
   GameStatus,
   GameRepository,
   QuestionRepository,
-  AnswerRepository
+  AnswerRepository,
+  PlayerStatsRepository,
+  LeaderboardRepository,
+  RatingRepository,
+  RATING_CONFIG,
+  GLOBAL_RATING_SCOPE,
+  CLOCK_SYNC_CONFIG,
+  checkAnswer,
+  generateGameId,
+  selectBotProfile,
+  Domain,
+  Advanced
 } from '@quiz-battle/shared';
-import { GameManager } from '@quiz-battle/game-engine';
+import { ClusterBackend, GameManager, MatchmakingQueue, MatchmakingTicket } from '@quiz-battle/game-engine';
+import { SessionTokenService } from '@quiz-battle/trpc';
 import {
   createSocketSecurityMiddleware,
+  createPlayerIdentityMiddleware,
   createEventRateLimitMiddleware,
   gameActionLimiter,
   generalEventLimiter,
@@ -22,38 +34,195 @@ import {
 type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
 type TypedServer = Server<ClientToServerEvents, ServerToClientEvents>;
 
-const gameRooms = new Map<string, Set<string>>(); // gameId -> Set of socket IDs
-const playerSockets = new Map<string, string>(); // playerId -> socket ID
+// Game events published by one node for the sockets connected to the others
+interface RoomEvent {
+  origin: string;
+  room: string;
+  event: keyof ServerToClientEvents;
+  data: any;
+  exceptSocketId?: string;
+}
+
+// Asks the node holding a socket to put it in a room
+interface RoomJoin {
+  socketId: string;
+  room: string;
+}
+
+const ROOM_EVENT_CHANNEL = 'socket-events';
+const ROOM_JOIN_CHANNEL = 'socket-joins';
 
 export function setupSocketHandlers(
   io: TypedServer,
   gameRepository: GameRepository,
   questionRepository: QuestionRepository,
-  answerRepository: AnswerRepository
+  answerRepository: AnswerRepository,
+  playerStatsRepository: PlayerStatsRepository,
+  leaderboardRepository: LeaderboardRepository,
+  ratingRepository: RatingRepository,
+  gameEventRepository: Advanced.EventSourcing.EventSourcedRepository<Domain.Game>,
+  sessionTokens: SessionTokenService,
+  clusterBackend: ClusterBackend
 ): void {
   // Apply socket security middleware
-  io.use(createSocketSecurityMiddleware());
+  io.use(createSocketSecurityMiddleware(sessionTokens));
 
   // Create game manager with socket emitter and repositories
   const gameManager = new GameManager(
     (gameId: string, event: keyof ServerToClientEvents, data: any) => {
-      io.to(gameId).emit(event as any, data);
+      emitToRoom(gameId, event, data);
     },
     gameRepository,
     questionRepository,
-    answerRepository
+    answerRepository,
+    playerStatsRepository,
+    leaderboardRepository,
+    ratingRepository,
+    gameEventRepository,
+    clusterBackend
+  );
+
+  // The players of a game may be connected to different nodes, so room events
+  // are emitted here and relayed to the sockets on every other node
+  function emitToRoom(room: string, event: keyof ServerToClientEvents, data: any, exceptSocketId?: string) {
+    emitLocally({ origin: gameManager.nodeId, room, event, data, exceptSocketId });
+    clusterBackend.publish(ROOM_EVENT_CHANNEL, { origin: gameManager.nodeId, room, event, data, exceptSocketId })
+      .catch(error => console.error('Error relaying room event:', error));
+  }
+
+  function emitLocally({ room, event, data, exceptSocketId }: RoomEvent) {
+    const target = exceptSocketId ? io.to(room).except(exceptSocketId) : io.to(room);
+    target.emit(event as any, data);
+  }
+
+  clusterBackend.subscribe(ROOM_EVENT_CHANNEL, (message: RoomEvent) => {
+    if (message.origin !== gameManager.nodeId) {
+      emitLocally(message);
+    }
+  }).catch(error => console.error('Error subscribing to room events:', error));
+
+  clusterBackend.subscribe(ROOM_JOIN_CHANNEL, ({ socketId, room }: RoomJoin) => {
+    io.sockets.sockets.get(socketId)?.join(room);
+  }).catch(error => console.error('Error subscribing to room joins:', error));
+
+  gameManager.start().catch(error => console.error('Error joining the game cluster:', error));
+
+  // The socket may be connected to another node, which is asked to join it
+  async function joinSocketToRoom(socketId: string, gameId: string) {
+    const socket = io.sockets.sockets.get(socketId);
+    if (socket) {
+      socket.join(gameId);
+    } else {
+      await clusterBackend.publish(ROOM_JOIN_CHANNEL, { socketId, room: gameId });
+    }
+    await clusterBackend.addRoomMember(gameId, socketId);
+  }
+
+  const startingGames = new Set<string>();
+
+  function scheduleGameStart(gameId: string) {
+    if (startingGames.has(gameId) || gameManager.getSession(gameId)) return;
+    startingGames.add(gameId);
+
+    setTimeout(async () => {
+      const success = await gameManager.startGame(gameId);
+      startingGames.delete(gameId);
+      if (!success) {
+        emitToRoom(gameId, 'error', {
+          message: 'Failed to start game',
+          code: 'GAME_START_ERROR'
+        });
+      }
+    }, 1000); // 1 second delay before starting
+  }
+
+  // Create the game for a matched pair, put both players in its room and start it
+  async function createMatchedGame(host: MatchmakingTicket, challenger: MatchmakingTicket) {
+    const gameId = host.gameId;
+
+    try {
+      await gameRepository.createGame({ id: gameId, player1Id: host.playerId, themeId: host.themeId });
+      const game = await gameRepository.joinWaitingGame(gameId, challenger.playerId);
+      if (!game) return;
+
+      const players = [
+        { ticket: host, opponent: challenger },
+        { ticket: challenger, opponent: host },
+      ];
+
+      // The queue is shared, so either player may be connected to another node.
+      // Emitting to the socket's own room reaches it wherever it is.
+      for (const { ticket, opponent } of players) {
+        const socketId = await clusterBackend.getPlayerSocket(ticket.playerId);
+        if (!socketId) continue;
+
+        await joinSocketToRoom(socketId, gameId);
+        emitToRoom(socketId, 'player-join-game', { gameId, game });
+        emitToRoom(socketId, 'opponent-join-game', {
+          game,
+          opponent: {
+            id: opponent.playerId,
+            sessionId: await clusterBackend.getPlayerSocket(opponent.playerId) ?? undefined,
+            isReady: true,
+            isConnected: true
+          }
+        });
+      }
+
+      console.log(`🤝 Matched ${host.playerId} (${Math.round(host.skillLevel)}) with ${challenger.playerId} (${Math.round(challenger.skillLevel)})`);
+
+      scheduleGameStart(gameId);
+    } catch (error) {
+      console.error('Error creating matched game:', error);
+      for (const ticket of [host, challenger]) {
+        const socketId = await clusterBackend.getPlayerSocket(ticket.playerId).catch(() => null);
+        if (socketId) {
+          emitToRoom(socketId, 'error', {
+            message: 'Failed to join matchmaking',
+            code: 'MATCHMAKING_ERROR'
+          });
+        }
+      }
+    }
+  }
+
+  const matchmakingQueue = new MatchmakingQueue(
+    clusterBackend,
+    (host, challenger) => {
+      void createMatchedGame(host, challenger);
+    },
+    async (ticket) => {
+      const socketId = await clusterBackend.getPlayerSocket(ticket.playerId).catch(() => null);
+      if (socketId) {
+        emitToRoom(socketId, 'matchmaking-failed', {
+          reason: 'No opponent found',
+          themeId: ticket.themeId
+        });
+      }
+    }
   );
+  matchmakingQueue.start();
+
+  // Theme rating if the player has one, otherwise their overall rating
+  async function getSkillLevel(playerId: string, themeId: string): Promise<number> {
+    try {
+      const rating = await ratingRepository.getRating(playerId, themeId)
+        ?? await ratingRepository.getRating(playerId, GLOBAL_RATING_SCOPE);
+      return rating?.rating ?? RATING_CONFIG.DEFAULT_RATING;
+    } catch (error) {
+      console.error('Error loading player rating:', error);
+      return RATING_CONFIG.DEFAULT_RATING;
+    }
+  }
 
   io.on('connection', (socket: TypedSocket) => {
     console.log(`🔌 Player connected: ${socket.id}`);
     
     // Add connection to monitor
     connectionMonitor.addConnection(socket);
-    function joinRoom(gameId: string) {
-        socket.join(gameId);
-        if (!gameRooms.has(gameId)) gameRooms.set(gameId, new Set());
-        gameRooms.get(gameId)!.add(socket.id);
-    }
+
+    // Every event must be sent as the player the session token belongs to
+    socket.use(createPlayerIdentityMiddleware(socket));
 
     socket.on('player-join-matchmaking', async (data) => {
       // Rate limiting check
@@ -91,74 +260,219 @@ export function setupSocketHandlers(
         }
 
         // Store player socket mapping
-        playerSockets.set(playerId, socket.id);
+        await clusterBackend.setPlayerSocket(playerId, socket.id);
+
+        // Queue the player; the match callback creates the game once an
+        // opponent within the skill window is found. The player hears they
+        // are waiting first, since the match may be made straight away.
+        const skillLevel = await getSkillLevel(playerId, themeId);
+        socket.emit('waiting-for-opponent', { message: 'Looking for an opponent...' });
+        await matchmakingQueue.enqueue(playerId, themeId, skillLevel);
+      } catch (error) {
+        console.error('Error in player-join-matchmaking:', error);
+        socket.emit('error', {
+          message: 'Failed to join matchmaking',
+          code: 'MATCHMAKING_ERROR'
+        });
+      }
+    });
 
-        // Look for existing waiting game
-        const waitingGame = await gameRepository.findWaitingGameByTheme(themeId);
+    socket.on('player-leave-matchmaking', async (data) => {
+      // Rate limiting check
+      if (!generalEventLimiter.isAllowed(socket.id, 'player-leave-matchmaking')) {
+        socket.emit('rate-limit-exceeded', {
+          eventType: 'player-leave-matchmaking',
+          message: 'Too many matchmaking requests'
+        });
+        return;
+      }
 
-        if (waitingGame && waitingGame.player1Id !== playerId) {
-          // Join existing game
-          const gameId = waitingGame.id;
+      // Update activity monitor
+      connectionMonitor.updateActivity(socket.id);
 
-          // Update game with second player
-          await gameRepository.updateGame(gameId, {
-            player2Id: playerId,
-            status: GameStatus.ACTIVE,
+      // Input validation and sanitization
+      if (!validateSocketInput(data)) {
+        socket.emit('error', {
+          message: 'Invalid input detected',
+          code: 'INVALID_INPUT'
+        });
+        return;
+      }
+
+      try {
+        const { playerId } = sanitizeSocketInput(data);
+
+        // Only the socket that queued the player can cancel
+        if (typeof playerId === 'string' && await clusterBackend.getPlayerSocket(playerId) === socket.id) {
+          await matchmakingQueue.cancel(playerId);
+        }
+      } catch (error) {
+        console.error('Error in player-leave-matchmaking:', error);
+        socket.emit('error', {
+          message: 'Failed to leave matchmaking',
+          code: 'MATCHMAKING_ERROR'
+        });
+      }
+    });
+
+    // Offered when matchmaking times out: play the same theme against a bot
+    socket.on('player-play-bot', async (data) => {
+      // Rate limiting check
+      if (!generalEventLimiter.isAllowed(socket.id, 'player-play-bot')) {
+        socket.emit('rate-limit-exceeded', {
+          eventType: 'player-play-bot',
+          message: 'Too many bot game requests'
+        });
+        return;
+      }
+
+      // Update activity monitor
+      connectionMonitor.updateActivity(socket.id);
+
+      // Input validation and sanitization
+      if (!validateSocketInput(data)) {
+        socket.emit('error', {
+          message: 'Invalid input detected',
+          code: 'INVALID_INPUT'
+        });
+        return;
+      }
+
+      try {
+        const sanitizedData = sanitizeSocketInput(data);
+        const { themeId, playerId } = sanitizedData;
+
+        // Additional validation
+        if (!themeId || !playerId || typeof themeId !== 'string' || typeof playerId !== 'string') {
+          socket.emit('error', {
+            message: 'Missing or invalid required fields',
+            code: 'VALIDATION_ERROR'
           });
+          return;
+        }
 
-          // Join socket room
-          joinRoom(gameId);
-
-          // Get updated game
-          const game = await gameRepository.getGameById(gameId);
-          if (game) {
-            // Notify current player they joined
-            socket.emit('player-join-game', {
-              gameId,
-              game,
-            });
-
-            // Notify opponent that player joined
-            socket.to(gameId).emit('opponent-join-game', {
-              game,
-              opponent: { id: playerId, sessionId: socket.id, isReady: true, isConnected: true }
-            });
-
-            // Start the game
-            setTimeout(async () => {
-              const success = await gameManager.startGame(gameId);
-              if (!success) {
-                io.to(gameId).emit('error', {
-                  message: 'Failed to start game',
-                  code: 'GAME_START_ERROR'
-                });
-              }
-            }, 1000); // 1 second delay before starting
-          }
+        // Store player socket mapping and leave the queue if still in it
+        await clusterBackend.setPlayerSocket(playerId, socket.id);
+        await matchmakingQueue.cancel(playerId);
+
+        const profile = selectBotProfile(await getSkillLevel(playerId, themeId));
+        const created = await gameRepository.createGame({ id: generateGameId(), player1Id: playerId, themeId });
+        const game = await gameManager.seatBot(created.id, profile);
+        if (!game) {
+          throw new Error(`Could not seat ${profile.name} in game ${created.id}`);
         }
-        else {
-          // Create new game
-          const gameId = generateGameId();
-          await gameRepository.createGame({ id: gameId, player1Id: playerId, themeId });
 
-          // Join socket room
-          joinRoom(gameId);
+        await joinSocketToRoom(socket.id, game.id);
+        socket.emit('player-join-game', { gameId: game.id, game });
+        socket.emit('opponent-join-game', {
+          game,
+          opponent: { id: profile.id, isReady: true, isConnected: true }
+        });
+
+        console.log(`🤖 ${profile.name} seated against ${playerId}`);
+
+        scheduleGameStart(game.id);
+      } catch (error) {
+        console.error('Error in player-play-bot:', error);
+        socket.emit('error', {
+          message: 'Failed to start bot game',
+          code: 'BOT_GAME_ERROR'
+        });
+      }
+    });
+
+    socket.on('player-join-private-game', async (data) => {
+      // Rate limiting check
+      if (!generalEventLimiter.isAllowed(socket.id, 'player-join-private-game')) {
+        socket.emit('rate-limit-exceeded', {
+          eventType: 'player-join-private-game',
+          message: 'Too many join requests'
+        });
+        return;
+      }
+
+      // Update activity monitor
+      connectionMonitor.updateActivity(socket.id);
+
+      // Input validation and sanitization
+      if (!validateSocketInput(data)) {
+        socket.emit('error', {
+          message: 'Invalid input detected',
+          code: 'INVALID_INPUT'
+        });
+        return;
+      }
+
+      try {
+        const sanitizedData = sanitizeSocketInput(data);
+        const { gameId, playerId } = sanitizedData;
+
+        // Additional validation
+        if (!gameId || !playerId || typeof gameId !== 'string' || typeof playerId !== 'string') {
+          socket.emit('error', {
+            message: 'Missing or invalid required fields',
+            code: 'VALIDATION_ERROR'
+          });
+          return;
+        }
+
+        // Seats are assigned by games.createPrivate / games.joinByCode
+        const game = await gameRepository.getGameById(gameId);
+        if (!game || !game.isPrivate || (game.player1Id !== playerId && game.player2Id !== playerId)) {
+          socket.emit('error', {
+            message: 'You are not part of this game',
+            code: 'PLAYER_NOT_IN_GAME'
+          });
+          return;
+        }
+
+        // Store player socket mapping
+        await clusterBackend.setPlayerSocket(playerId, socket.id);
+        await joinSocketToRoom(socket.id, gameId);
+
+        if (!game.player2Id) {
+          // Host waiting for the invite to be used
+          socket.emit('player-create-game', { gameId, game });
+          return;
+        }
+
+        socket.emit('player-join-game', { gameId, game });
+
+        // Reopening the invite link after the match only shows the game again
+        if (game.status !== GameStatus.WAITING) {
+          return;
+        }
+
+        // Start once both players are in the room, whichever arrives last,
+        // possibly connected to different nodes
+        const room = await clusterBackend.getRoomMembers(gameId);
+        const playerSocketIds = await Promise.all(
+          [game.player1Id, game.player2Id].map(id => clusterBackend.getPlayerSocket(id))
+        );
+        const bothPresent = playerSocketIds.every(socketId => socketId !== null && room.includes(socketId));
+
+        if (bothPresent) {
+          emitToRoom(gameId, 'opponent-join-game', {
+            game,
+            opponent: { id: playerId, sessionId: socket.id, isReady: true, isConnected: true }
+          }, socket.id);
+          scheduleGameStart(gameId);
         }
       } catch (error) {
-        console.error('Error in player-join-matchmaking:', error);
+        console.error('Error in player-join-private-game:', error);
         socket.emit('error', {
-          message: 'Failed to join matchmaking',
-          code: 'MATCHMAKING_ERROR'
+          message: 'Failed to join private game',
+          code: 'PRIVATE_GAME_ERROR'
         });
       }
     });
 
-    socket.on('player-submit-answer', async (data) => {
-      // Game action rate limiting (stricter)
-      if (!gameActionLimiter.isAllowed(socket.id, 'player-submit-answer')) {
+    socket.on('player-start-practice', async (data) => {
+      // Rate limiting check
+      if (!generalEventLimiter.isAllowed(socket.id, 'player-start-practice')) {
         socket.emit('rate-limit-exceeded', {
-          eventType: 'player-submit-answer',
-          message: 'Too many answer submissions'
+          eventType: 'player-start-practice',
+          message: 'Too many practice requests'
         });
         return;
       }
@@ -177,12 +491,10 @@ export function setupSocketHandlers(
 
       try {
         const sanitizedData = sanitizeSocketInput(data);
-        const { gameId, playerId, selectedAnswer, responseTime } = sanitizedData;
+        const { gameId, playerId } = sanitizedData;
 
         // Additional validation
-        if (!gameId || !playerId || selectedAnswer === undefined || !responseTime || 
-            typeof gameId !== 'string' || typeof playerId !== 'string' ||
-            typeof selectedAnswer !== 'number' || typeof responseTime !== 'number') {
+        if (!gameId || !playerId || typeof gameId !== 'string' || typeof playerId !== 'string') {
           socket.emit('error', {
             message: 'Missing or invalid required fields',
             code: 'VALIDATION_ERROR'
@@ -190,25 +502,93 @@ export function setupSocketHandlers(
           return;
         }
 
-        // Validate answer index range
-        if (selectedAnswer < 0 || selectedAnswer > 3) {
+        // Practice games are created by games.createPractice
+        const game = await gameRepository.getGameById(gameId);
+        if (!game || game.mode !== 'practice' || game.player1Id !== playerId) {
+          socket.emit('error', {
+            message: 'You are not part of this game',
+            code: 'PLAYER_NOT_IN_GAME'
+          });
+          return;
+        }
+
+        // Store player socket mapping
+        await clusterBackend.setPlayerSocket(playerId, socket.id);
+        await joinSocketToRoom(socket.id, gameId);
+
+        socket.emit('player-join-game', { gameId, game });
+
+        // A finished run is not restarted; create a new practice game instead
+        if (game.status === GameStatus.WAITING) {
+          scheduleGameStart(gameId);
+        }
+      } catch (error) {
+        console.error('Error in player-start-practice:', error);
+        socket.emit('error', {
+          message: 'Failed to start practice game',
+          code: 'PRACTICE_GAME_ERROR'
+        });
+      }
+    });
+
+    socket.on('player-submit-answer', async (data) => {
+      // Game action rate limiting (stricter)
+      if (!gameActionLimiter.isAllowed(socket.id, 'player-submit-answer')) {
+        socket.emit('rate-limit-exceeded', {
+          eventType: 'player-submit-answer',
+          message: 'Too many answer submissions'
+        });
+        return;
+      }
+
+      // Update activity monitor
+      connectionMonitor.updateActivity(socket.id);
+
+      // Input validation and sanitization
+      if (!validateSocketInput(data)) {
+        socket.emit('error', {
+          message: 'Invalid input detected',
+          code: 'INVALID_INPUT'
+        });
+        return;
+      }
+
+      try {
+        const sanitizedData = sanitizeSocketInput(data);
+        const { gameId, playerId, selectedAnswer, answerText } = sanitizedData;
+
+        // Additional validation: choice questions send an option index, the others typed text
+        if (!gameId || !playerId || typeof gameId !== 'string' || typeof playerId !== 'string' ||
+            (selectedAnswer === undefined) === (answerText === undefined) ||
+            (selectedAnswer !== undefined && typeof selectedAnswer !== 'number') ||
+            (answerText !== undefined && typeof answerText !== 'string')) {
           socket.emit('error', {
-            message: 'Invalid answer index',
+            message: 'Missing or invalid required fields',
             code: 'VALIDATION_ERROR'
           });
           return;
         }
 
-        // Validate response time (prevent negative or impossibly fast times)
-        if (responseTime < 100 || responseTime > 15000) {
+        // Validate the answer against the current question (option range, numeric, length).
+        // Games run by another node are validated there.
+        const session = gameManager.getSession(gameId);
+        const currentQuestion = session?.questions[session.game.currentQuestionIndex];
+        if (currentQuestion && !checkAnswer(currentQuestion, { selectedAnswer, answerText })) {
           socket.emit('error', {
-            message: 'Invalid response time',
+            message: 'Invalid answer for this question',
             code: 'VALIDATION_ERROR'
           });
           return;
         }
 
-        const success = await gameManager.submitAnswer(gameId, playerId, selectedAnswer);
+        // Timed by the server, less this socket's measured round trip (see CLOCK_SYNC_CONFIG)
+        const success = await gameManager.dispatch({
+          type: 'submit-answer',
+          gameId,
+          playerId,
+          answer: { selectedAnswer, answerText },
+          latencyMs: socket.data.rttMs,
+        });
 
         if (!success) {
           socket.emit('error', {
@@ -225,6 +605,99 @@ export function setupSocketHandlers(
       }
     });
 
+    // Clock sync: answered immediately so the round trip is as short as possible
+    socket.on('clock-sync-ping', (data) => {
+      if (!generalEventLimiter.isAllowed(socket.id, 'clock-sync-ping')) {
+        return;
+      }
+
+      if (!validateSocketInput(data) || typeof data.clientSentAt !== 'number') {
+        socket.emit('error', {
+          message: 'Missing or invalid required fields',
+          code: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      socket.emit('clock-sync-pong', { clientSentAt: data.clientSentAt, serverTime: Date.now() });
+    });
+
+    // Round trip measured by the server, used to compensate answer times. Only
+    // the outstanding probe can be echoed, so a client cannot make its round trip
+    // look shorter; it can only hold echoes back, which is why the compensation
+    // is capped. The shortest of the samples is kept.
+    let pendingProbe: { probeId: number; sentAt: number } | undefined;
+    let probesSent = 0;
+
+    const sendLatencyProbe = () => {
+      probesSent += 1;
+      pendingProbe = { probeId: probesSent, sentAt: Date.now() };
+      socket.emit('latency-probe', { probeId: probesSent });
+    };
+
+    socket.on('latency-probe-echo', (data) => {
+      const receivedAt = Date.now();
+      if (!generalEventLimiter.isAllowed(socket.id, 'latency-probe-echo')) {
+        return;
+      }
+
+      if (!validateSocketInput(data) || !pendingProbe || data.probeId !== pendingProbe.probeId) {
+        return;
+      }
+
+      const rttMs = receivedAt - pendingProbe.sentAt;
+      pendingProbe = undefined;
+      socket.data.rttMs = Math.min(socket.data.rttMs ?? Infinity, rttMs);
+
+      if (probesSent < CLOCK_SYNC_CONFIG.SAMPLES) {
+        sendLatencyProbe();
+      }
+    });
+
+    sendLatencyProbe();
+
+    socket.on('player-media-ready', async (data) => {
+      if (!generalEventLimiter.isAllowed(socket.id, 'player-media-ready')) {
+        socket.emit('rate-limit-exceeded', {
+          eventType: 'player-media-ready',
+          message: 'Too many media ready reports'
+        });
+        return;
+      }
+
+      // Update activity monitor
+      connectionMonitor.updateActivity(socket.id);
+
+      if (!validateSocketInput(data)) {
+        socket.emit('error', {
+          message: 'Invalid input detected',
+          code: 'INVALID_INPUT'
+        });
+        return;
+      }
+
+      const { gameId, playerId, questionIndex } = sanitizeSocketInput(data);
+      if (!gameId || !playerId || typeof gameId !== 'string' || typeof playerId !== 'string' ||
+          !Number.isInteger(questionIndex)) {
+        socket.emit('error', {
+          message: 'Missing or invalid required fields',
+          code: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      try {
+        // Forwarded to the owning node when this one does not run the game
+        await gameManager.dispatch({ type: 'media-ready', gameId, playerId, questionIndex });
+      } catch (error) {
+        console.error('Error in player-media-ready:', error);
+        socket.emit('error', {
+          message: 'Failed to report media ready',
+          code: 'MEDIA_READY_ERROR'
+        });
+      }
+    });
+
     socket.on('request-game-state', async (data) => {
       // Rate limiting check
       if (!generalEventLimiter.isAllowed(socket.id, 'request-game-state')) {
@@ -260,7 +733,24 @@ export function setupSocketHandlers(
           return;
         }
 
-        await gameManager.syncGameState(gameId, playerId);
+        const session = gameManager.getSession(gameId);
+        const game = session?.game ?? await gameRepository.getGameById(gameId);
+        if (!game) {
+          socket.emit('error', {
+            message: 'Game not found',
+            code: 'GAME_NOT_FOUND'
+          });
+          return;
+        }
+
+        // A player coming back on a new socket takes over their seat again
+        if (game.player1Id === playerId || game.player2Id === playerId) {
+          await clusterBackend.setPlayerSocket(playerId, socket.id);
+          await joinSocketToRoom(socket.id, gameId);
+          await gameManager.dispatch({ type: 'player-reconnected', gameId, playerId });
+        }
+
+        socket.emit('game-state-sync', await gameManager.getGameStateSync(gameId, playerId) ?? { game });
       } catch (error) {
         console.error('Error in request-game-state:', error);
         socket.emit('error', {
@@ -270,37 +760,34 @@ export function setupSocketHandlers(
       }
     });
 
-    socket.on('disconnect', () => {
+    // Rooms are still listed while disconnecting, and gone on disconnect
+    socket.on('disconnecting', async () => {
       console.log(`🔌 Player disconnected: ${socket.id}`);
       
       // Clean up connection monitor
       connectionMonitor.removeConnection(socket.id);
 
-      // Clean up player socket mapping
-      for (const [playerId, socketId] of playerSockets.entries()) {
-        if (socketId === socket.id) {
-          playerSockets.delete(playerId);
-          break;
+      const gameIds = Array.from(socket.rooms).filter(room => room !== socket.id);
+      const playerId: string | undefined = socket.data.playerId;
+
+      try {
+        // Clean up player socket mapping and any pending matchmaking ticket. A
+        // player who already reconnected on another socket is left alone.
+        const wasCurrentSocket = playerId !== undefined && await clusterBackend.removePlayerSocket(playerId, socket.id);
+        if (wasCurrentSocket) {
+          await matchmakingQueue.cancel(playerId);
         }
-      }
 
-      // Clean up game rooms
-      for (const [gameId, socketIds] of gameRooms.entries()) {
-        if (socketIds.has(socket.id)) {
-          socketIds.delete(socket.id);
-
-          // If room is empty, clean it up
-          if (socketIds.size === 0) {
-            gameRooms.delete(gameId);
-          } else {
-            // Notify remaining players about disconnection
-            socket.to(gameId).emit('error', {
-              message: 'Opponent disconnected',
-              code: 'PLAYER_DISCONNECTED'
-            });
+        for (const gameId of gameIds) {
+          await clusterBackend.removeRoomMember(gameId, socket.id);
+
+          // Running games wait for the player to come back before forfeiting them
+          if (wasCurrentSocket) {
+            await gameManager.dispatch({ type: 'player-disconnected', gameId, playerId });
           }
-          break;
         }
+      } catch (error) {
+        console.error('Error cleaning up disconnected socket:', error);
       }
     });
   });
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { PlayerSession } from '@quiz-battle/shared';
+import { ACCOUNT_CONFIG } from '@quiz-battle/shared';
+import { useGameStore } from '@/stores/game-store';
+import { socketManager } from '@/lib/socket';
+import { trpc } from '@/components/providers';
+
+type Mode = 'register' | 'login';
+
+export default function AccountPage() {
+  const router = useRouter();
+  const utils = trpc.useContext();
+  const { playerId, setSession, clearSession } = useGameStore();
+  const [mode, setMode] = useState<Mode>('register');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState('');
+
+  const { data: profile, isLoading } = trpc.auth.me.useQuery(undefined, { enabled: !!playerId });
+
+  // The socket is bound to a player at connect time, so switching players needs a new one
+  const switchSession = (session: PlayerSession) => {
+    if (session.playerId !== playerId) {
+      socketManager.disconnect();
+    }
+    setSession(session);
+    utils.auth.me.invalidate();
+  };
+
+  const register = trpc.auth.register.useMutation({
+    onSuccess: (data) => switchSession(data.session),
+  });
+
+  const login = trpc.auth.login.useMutation({
+    onSuccess: (data) => switchSession(data.session),
+  });
+
+  const createSession = trpc.auth.createSession.useMutation({
+    onSuccess: (session) => switchSession(session),
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (mode === 'register') {
+      register.mutate({ email, password, displayName, avatarUrl: avatarUrl.trim() || undefined });
+    } else {
+      login.mutate({ email, password });
+    }
+  };
+
+  // Logging out starts a fresh guest
+  const handleLogout = () => {
+    socketManager.disconnect();
+    clearSession();
+    createSession.mutate({});
+  };
+
+  const error = mode === 'register' ? register.error : login.error;
+  const isSubmitting = register.isLoading || login.isLoading;
+
+  if (!playerId || isLoading) {
+    return (
+      <div className="container mx-auto p-8">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-2">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-8">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Account</h1>
+          <p className="text-gray-600">
+            {profile ? 'Your progress is saved to your account' : 'You are playing as a guest'}
+          </p>
+        </div>
+
+        {profile ? (
+          <div className="bg-white rounded-lg border shadow-sm p-6 mb-6 text-center">
+            {profile.avatarUrl ? (
+              <img src={profile.avatarUrl} alt="" className="w-16 h-16 rounded-full mx-auto mb-3 object-cover" />
+            ) : (
+              <div className="w-16 h-16 bg-blue-500 rounded-full flex items-center justify-center text-white font-bold text-2xl mx-auto mb-3">
+                {profile.displayName.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <p className="text-lg font-semibold text-gray-900 mb-4">{profile.displayName}</p>
+            <button
+              onClick={handleLogout}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Log Out
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg border shadow-sm p-6 mb-6 space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(['register', 'login'] as Mode[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMode(option)}
+                  className={`px-3 py-2 rounded-md text-sm border transition-colors ${
+                    mode === option
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option === 'register' ? 'Create Account' : 'Log In'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'register' && (
+              <p className="text-xs text-gray-500">
+                Your games, stats and ratings so far as a guest stay with the new account.
+              </p>
+            )}
+
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="Email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+            <input
+              type="password"
+              required
+              minLength={mode === 'register' ? ACCOUNT_CONFIG.PASSWORD_MIN_LENGTH : undefined}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              placeholder="Password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+
+            {mode === 'register' && (
+              <>
+                <input
+                  type="text"
+                  required
+                  maxLength={ACCOUNT_CONFIG.DISPLAY_NAME_MAX_LENGTH}
+                  value={displayName}
+                  onChange={(event) => setDisplayName(event.target.value)}
+                  placeholder="Display name"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <input
+                  type="url"
+                  value={avatarUrl}
+                  onChange={(event) => setAvatarUrl(event.target.value)}
+                  placeholder="Avatar URL (optional)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-700">{error.message}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Please wait...' : mode === 'register' ? 'Create Account' : 'Log In'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,13 +19,17 @@ export default function GamePage() {
     currentQuestion,
     currentQuestionIndex,
     timeRemaining,
+    questionTimeLimit,
     isWaitingForOpponent,
     hasAnswered,
     opponentHasAnswered,
+    opponentDisconnected,
+    isPaused,
     playerScore,
     opponentScore,
     gameCompleted,
     winner,
+    opponent,
     selectedAnswer,
     handleAnswerSelect,
     handlePlayAgain,
@@ -42,6 +46,9 @@ export default function GamePage() {
     return <GameLoading message="Loading game..." />;
   }
 
+  const totalQuestions = currentGame.totalQuestions ?? GAME_CONFIG.QUESTIONS_PER_GAME;
+  const isPractice = currentGame.mode === 'practice';
+
   // Game completed state
   if (gameCompleted || currentGame.status === GameStatus.COMPLETED) {
     return (
@@ -50,9 +57,12 @@ export default function GamePage() {
         opponentScore={opponentScore}
         playerId={playerId}
         winner={winner}
-        totalQuestions={GAME_CONFIG.QUESTIONS_PER_GAME}
+        totalQuestions={totalQuestions}
+        isPractice={isPractice}
+        opponent={opponent}
         onPlayAgain={handlePlayAgain}
         onBackToHome={() => router.push('/')}
+        onWatchReplay={() => router.push(`/replay/${gameId}`)}
       />
     );
   }
@@ -67,11 +77,17 @@ export default function GamePage() {
     <ActiveQuiz
       currentQuestion={currentQuestion}
       currentQuestionIndex={currentQuestionIndex}
+      totalQuestions={totalQuestions}
       timeRemaining={timeRemaining}
+      questionTimeLimit={questionTimeLimit}
       playerScore={playerScore}
       opponentScore={opponentScore}
+      isPractice={isPractice}
+      opponent={opponent}
       hasAnswered={hasAnswered}
       opponentHasAnswered={opponentHasAnswered}
+      opponentDisconnected={opponentDisconnected}
+      isPaused={isPaused}
       selectedAnswer={selectedAnswer}
       onAnswerSelect={handleAnswerSelect}
     />
@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useGameStore } from '@/stores/game-store';
+import { useSocket } from '@/hooks/useSocket';
+import { trpc } from '@/components/providers';
+import { DEFAULT_GAME_RULES, GameRules } from '@quiz-battle/shared';
+
+const DIFFICULTIES: GameRules['difficulties'] = ['easy', 'medium', 'hard'];
+
+function InviteContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const themeId = searchParams.get('themeId') ?? '';
+  const themeName = searchParams.get('themeName') ?? '';
+
+  const { playerId, currentGame, resetGame } = useGameStore();
+  const { joinPrivateGame } = useSocket();
+  const [copied, setCopied] = useState(false);
+  const [rules, setRules] = useState<GameRules>(DEFAULT_GAME_RULES);
+  const requestedRef = useRef(false);
+
+  const { data: themes } = trpc.themes.getAll.useQuery();
+  const createPrivate = trpc.games.createPrivate.useMutation({
+    onSuccess: (data) => {
+      joinPrivateGame(data.game.id);
+    },
+  });
+
+  const handleCreate = () => {
+    // Create the private game once per visit
+    if (!themeId || !playerId || requestedRef.current) return;
+    requestedRef.current = true;
+    resetGame();
+    createPrivate.mutate({ playerId, themeId, rules });
+  };
+
+  const toggleDifficulty = (difficulty: GameRules['difficulties'][number]) => {
+    setRules(current => {
+      const difficulties = current.difficulties.includes(difficulty)
+        ? current.difficulties.filter(d => d !== difficulty)
+        : [...current.difficulties, difficulty];
+      return difficulties.length > 0 ? { ...current, difficulties } : current;
+    });
+  };
+
+  const toggleTheme = (id: string) => {
+    setRules(current => ({
+      ...current,
+      themeIds: current.themeIds.includes(id)
+        ? current.themeIds.filter(t => t !== id)
+        : [...current.themeIds, id],
+    }));
+  };
+
+  useEffect(() => {
+    // Navigate to game once the friend has joined
+    const gameId = createPrivate.data?.game.id;
+    if (gameId && currentGame?.id === gameId && currentGame.player2Id) {
+      router.push(`/game/${gameId}`);
+    }
+  }, [createPrivate.data, currentGame, router]);
+
+  const inviteLink = createPrivate.data && typeof window !== 'undefined'
+    ? `${window.location.origin}${createPrivate.data.invitePath}`
+    : '';
+
+  const handleCopy = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!themeId || !playerId) {
+    return (
+      <div className="container mx-auto p-8">
+        <div className="text-center">
+          <p>Redirecting...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-8">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Invite a Friend</h1>
+          <p className="text-gray-600">{themeName || 'Private match'}</p>
+        </div>
+
+        {createPrivate.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6 text-center">
+            <h3 className="text-lg font-semibold text-red-800 mb-2">Could not create the game</h3>
+            <p className="text-red-700">{createPrivate.error.message}</p>
+          </div>
+        ) : createPrivate.isIdle ? (
+          <div className="bg-white rounded-lg border shadow-sm p-6 mb-6 space-y-5">
+            {/* Game Rules */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Questions: {rules.totalQuestions}
+              </label>
+              <input
+                type="range"
+                min={3}
+                max={30}
+                value={rules.totalQuestions}
+                onChange={(e) => setRules({ ...rules, totalQuestions: Number(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Time per question: {rules.questionTimeLimitSeconds}s
+              </label>
+              <input
+                type="range"
+                min={5}
+                max={60}
+                step={5}
+                value={rules.questionTimeLimitSeconds}
+                onChange={(e) => setRules({ ...rules, questionTimeLimitSeconds: Number(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Difficulty</p>
+              <div className="flex gap-2">
+                {DIFFICULTIES.map(difficulty => (
+                  <button
+                    key={difficulty}
+                    onClick={() => toggleDifficulty(difficulty)}
+                    className={`px-3 py-1 rounded-full text-sm capitalize border transition-colors ${
+                      rules.difficulties.includes(difficulty)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {difficulty}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {themes && themes.length > 1 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Mix in other themes</p>
+                <div className="flex flex-wrap gap-2">
+                  {themes.filter(theme => theme.id !== themeId).map(theme => (
+                    <button
+                      key={theme.id}
+                      onClick={() => toggleTheme(theme.id)}
+                      className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                        rules.themeIds.includes(theme.id)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {theme.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={handleCreate}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Create Invite
+            </button>
+          </div>
+        ) : !createPrivate.data ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2">Creating private game...</span>
+          </div>
+        ) : (
+          <>
+            {/* Invite Code */}
+            <div className="bg-white rounded-lg border shadow-sm p-6 mb-6 text-center">
+              <p className="text-sm text-gray-600 mb-2">Share this code</p>
+              <div className="text-4xl font-mono font-bold tracking-widest text-gray-900 mb-4">
+                {createPrivate.data.code}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={inviteLink}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-gray-50"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Expires at {new Date(createPrivate.data.expiresAt).toLocaleTimeString()}
+              </p>
+            </div>
+
+            {/* Waiting Status */}
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6 text-center">
+              <div className="flex justify-center mb-4">
+                <div className="relative">
+                  <div className="w-12 h-12 border-4 border-blue-200 rounded-full"></div>
+                  <div className="absolute top-0 left-0 w-12 h-12 border-4 border-blue-600 rounded-full animate-spin border-t-transparent"></div>
+                </div>
+              </div>
+              <p className="text-blue-700">Waiting for your friend to join...</p>
+            </div>
+          </>
+        )}
+
+        {/* Cancel Button */}
+        <div className="text-center">
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function InvitePage() {
+  return (
+    <Suspense fallback={
+      <div className="container mx-auto p-8">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-2">Loading...</span>
+        </div>
+      </div>
+    }>
+      <InviteContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useGameStore } from '@/stores/game-store';
+import { useSocket } from '@/hooks/useSocket';
+import { trpc } from '@/components/providers';
+
+export default function JoinPage() {
+  const router = useRouter();
+  const params = useParams();
+  const code = decodeURIComponent(params.code as string);
+
+  const { playerId, currentGame, resetGame } = useGameStore();
+  const { joinPrivateGame } = useSocket();
+  const requestedRef = useRef(false);
+
+  const joinByCode = trpc.games.joinByCode.useMutation({
+    onSuccess: (data) => {
+      joinPrivateGame(data.game.id);
+    },
+  });
+
+  useEffect(() => {
+    // Redeem the code once per visit
+    if (!code || !playerId || requestedRef.current) return;
+    requestedRef.current = true;
+    resetGame();
+    joinByCode.mutate({ playerId, code });
+  }, [code, playerId, joinByCode, resetGame]);
+
+  useEffect(() => {
+    // Navigate to game once both players are in
+    const gameId = joinByCode.data?.game.id;
+    if (gameId && currentGame?.id === gameId && currentGame.player2Id) {
+      router.push(`/game/${gameId}`);
+    }
+  }, [joinByCode.data, currentGame, router]);
+
+  if (!playerId) {
+    return (
+      <div className="container mx-auto p-8">
+        <div className="text-center">
+          <p>Redirecting...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-8">
+      <div className="max-w-md mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Join Private Game</h1>
+          <p className="text-gray-600">
+            Code <span className="font-mono font-semibold">{code.toUpperCase()}</span>
+          </p>
+        </div>
+
+        {joinByCode.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6 text-center">
+            <h3 className="text-lg font-semibold text-red-800 mb-2">Unable to Join</h3>
+            <p className="text-red-700">{joinByCode.error.message}</p>
+          </div>
+        ) : (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6 text-center">
+            <div className="flex justify-center mb-4">
+              <div className="relative">
+                <div className="w-12 h-12 border-4 border-blue-200 rounded-full"></div>
+                <div className="absolute top-0 left-0 w-12 h-12 border-4 border-blue-600 rounded-full animate-spin border-t-transparent"></div>
+              </div>
+            </div>
+            <p className="text-blue-700">
+              {joinByCode.data?.isHost && !joinByCode.data.game.player2Id
+                ? 'This is your invite. Waiting for your friend to join...'
+                : 'Joining game...'}
+            </p>
+          </div>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
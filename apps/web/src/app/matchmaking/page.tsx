@@ -16,12 +16,14 @@ function MatchmakingContent() {
     playerId,
     isInMatchmaking,
     isWaitingForOpponent,
+    matchmakingError,
     currentGame,
     setMatchmaking,
-    setWaitingForOpponent
+    setWaitingForOpponent,
+    setMatchmakingError
   } = useGameStore();
 
-  const { joinMatchmaking } = useSocket();
+  const { joinMatchmaking, leaveMatchmaking, playBot } = useSocket();
   const [secondsWaiting, setSecondsWaiting] = useState(0);
 
   // Get theme details
@@ -32,9 +34,10 @@ function MatchmakingContent() {
 
   useEffect(() => {
     // Start matchmaking when component mounts
+    setMatchmakingError(null);
     setMatchmaking(true);
     joinMatchmaking(themeId);
-  }, [themeId, playerId, joinMatchmaking, setMatchmaking, router]);
+  }, [themeId, playerId, joinMatchmaking, setMatchmaking, setMatchmakingError, router]);
 
   useEffect(() => {
     // Timer for waiting duration
@@ -55,11 +58,25 @@ function MatchmakingContent() {
   }, [currentGame, router]);
 
   const handleCancel = () => {
+    leaveMatchmaking();
     setMatchmaking(false);
+    setMatchmakingError(null);
     setWaitingForOpponent(false);
     router.push('/');
   };
 
+  const handleRetry = () => {
+    setMatchmakingError(null);
+    setSecondsWaiting(0);
+    setMatchmaking(true);
+    joinMatchmaking(themeId);
+  };
+
+  const handlePlayBot = () => {
+    setMatchmakingError(null);
+    playBot(themeId);
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -98,32 +115,57 @@ function MatchmakingContent() {
         </div>
 
         {/* Matchmaking Status */}
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6">
-          <div className="text-center">
-            {/* Animated loading spinner */}
-            <div className="flex justify-center mb-4">
-              <div className="relative">
-                <div className="w-16 h-16 border-4 border-blue-200 rounded-full"></div>
-                <div className="absolute top-0 left-0 w-16 h-16 border-4 border-blue-600 rounded-full animate-spin border-t-transparent"></div>
+        {matchmakingError ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6">
+            <div className="text-center">
+              <h3 className="text-lg font-semibold text-red-800 mb-2">No Opponent Found</h3>
+              <p className="text-red-700 mb-4">
+                Nobody close to your skill level joined in time. Play a bot instead or try again.
+              </p>
+              <div className="flex justify-center gap-2">
+                <button
+                  onClick={handlePlayBot}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Play vs Bot
+                </button>
+                <button
+                  onClick={handleRetry}
+                  className="px-6 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors"
+                >
+                  Try Again
+                </button>
               </div>
             </div>
+          </div>
+        ) : (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6">
+            <div className="text-center">
+              {/* Animated loading spinner */}
+              <div className="flex justify-center mb-4">
+                <div className="relative">
+                  <div className="w-16 h-16 border-4 border-blue-200 rounded-full"></div>
+                  <div className="absolute top-0 left-0 w-16 h-16 border-4 border-blue-600 rounded-full animate-spin border-t-transparent"></div>
+                </div>
+              </div>
 
-            <h3 className="text-lg font-semibold text-blue-800 mb-2">
-              {isWaitingForOpponent ? 'Waiting for Opponent' : 'Searching for Players'}
-            </h3>
+              <h3 className="text-lg font-semibold text-blue-800 mb-2">
+                {isWaitingForOpponent ? 'Waiting for Opponent' : 'Searching for Players'}
+              </h3>
 
-            <p className="text-blue-700 mb-4">
-              {isWaitingForOpponent
-                ? 'Found a game! Waiting for another player to join...'
-                : 'Looking for an opponent with the same theme preference...'
-              }
-            </p>
+              <p className="text-blue-700 mb-4">
+                {isWaitingForOpponent
+                  ? 'Found a game! Waiting for another player to join...'
+                  : 'Looking for an opponent near your skill level...'
+                }
+              </p>
 
-            <div className="text-2xl font-mono font-bold text-blue-800">
-              {formatTime(secondsWaiting)}
+              <div className="text-2xl font-mono font-bold text-blue-800">
+                {formatTime(secondsWaiting)}
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Player Info */}
         <div className="bg-gray-50 rounded-lg p-4 mb-6">
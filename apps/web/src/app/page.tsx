@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { trpc } from '@/components/providers';
 import { useGameStore } from '@/stores/game-store';
@@ -8,6 +9,8 @@ export default function HomePage() {
   const router = useRouter();
   const { data: themes, isLoading, error } = trpc.themes.getAll.useQuery();
   const { playerId } = useGameStore();
+  const { data: profile } = trpc.auth.me.useQuery(undefined, { enabled: !!playerId });
+  const [inviteCode, setInviteCode] = useState('');
 
   const handleThemeSelect = (themeId: string, themeName: string) => {
     if (!playerId) {
@@ -19,6 +22,22 @@ export default function HomePage() {
     router.push(`/matchmaking?themeId=${themeId}&themeName=${encodeURIComponent(themeName)}`);
   };
 
+  const handleInvite = (themeId: string, themeName: string) => {
+    router.push(`/invite?themeId=${themeId}&themeName=${encodeURIComponent(themeName)}`);
+  };
+
+  const handlePractice = (themeId: string, themeName: string) => {
+    router.push(`/practice?themeId=${themeId}&themeName=${encodeURIComponent(themeName)}`);
+  };
+
+  const handleJoinByCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    const code = inviteCode.trim();
+    if (code) {
+      router.push(`/join/${encodeURIComponent(code)}`);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="container mx-auto p-8">
@@ -53,6 +72,12 @@ export default function HomePage() {
         <p className="text-xl text-gray-600">
           Challenge opponents in real-time multiplayer trivia battles
         </p>
+        <button
+          onClick={() => router.push('/account')}
+          className="mt-4 text-sm text-blue-600 hover:underline"
+        >
+          {profile ? `Signed in as ${profile.displayName}` : 'Playing as guest · Create an account to keep your progress'}
+        </button>
       </div>
 
       <div className="max-w-4xl mx-auto">
@@ -72,6 +97,20 @@ export default function HomePage() {
               >
                 {!playerId ? 'Loading...' : 'Start Battle'}
               </button>
+              <button
+                className="w-full mt-2 border border-blue-600 text-blue-600 py-2 px-4 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => handleInvite(theme.id, theme.name)}
+                disabled={!playerId}
+              >
+                Invite a Friend
+              </button>
+              <button
+                className="w-full mt-2 text-gray-600 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => handlePractice(theme.id, theme.name)}
+                disabled={!playerId}
+              >
+                Practice
+              </button>
             </div>
           ))}
         </div>
@@ -88,6 +127,23 @@ export default function HomePage() {
           </div>
         )}
 
+        <form onSubmit={handleJoinByCode} className="max-w-sm mx-auto mt-10 flex gap-2">
+          <input
+            value={inviteCode}
+            onChange={(event) => setInviteCode(event.target.value)}
+            placeholder="Have an invite code?"
+            maxLength={32}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono uppercase"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 transition-colors disabled:opacity-50"
+            disabled={!playerId || !inviteCode.trim()}
+          >
+            Join
+          </button>
+        </form>
+
         {playerId && (
           <div className="text-center mt-8">
             <p className="text-sm text-gray-500">
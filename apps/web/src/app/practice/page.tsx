@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useGameStore } from '@/stores/game-store';
+import { useSocket } from '@/hooks/useSocket';
+import { trpc } from '@/components/providers';
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+const DIFFICULTY_OPTIONS: { value: Difficulty | undefined; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+  { value: undefined, label: 'Mixed' },
+];
+
+function PracticeContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const themeId = searchParams.get('themeId') ?? '';
+  const themeName = searchParams.get('themeName') ?? '';
+
+  const { playerId, currentGame, resetGame } = useGameStore();
+  const { startPractice } = useSocket();
+  const [difficulty, setDifficulty] = useState<Difficulty | undefined>('medium');
+  const requestedRef = useRef(false);
+
+  const createPractice = trpc.games.createPractice.useMutation({
+    onSuccess: (game) => {
+      startPractice(game.id);
+    },
+  });
+
+  const handleStart = () => {
+    // Create the practice game once per visit
+    if (!themeId || !playerId || requestedRef.current) return;
+    requestedRef.current = true;
+    resetGame();
+    createPractice.mutate({ playerId, themeId, difficulty });
+  };
+
+  useEffect(() => {
+    // Navigate to game once the server has seated the player
+    const gameId = createPractice.data?.id;
+    if (gameId && currentGame?.id === gameId) {
+      router.push(`/game/${gameId}`);
+    }
+  }, [createPractice.data, currentGame, router]);
+
+  if (!themeId || !playerId) {
+    return (
+      <div className="container mx-auto p-8">
+        <div className="text-center">
+          <p>Redirecting...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-8">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Practice</h1>
+          <p className="text-gray-600">{themeName || 'Solo practice'}</p>
+        </div>
+
+        {createPractice.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6 text-center">
+            <h3 className="text-lg font-semibold text-red-800 mb-2">Could not start practice</h3>
+            <p className="text-red-700">{createPractice.error.message}</p>
+          </div>
+        ) : createPractice.isIdle ? (
+          <div className="bg-white rounded-lg border shadow-sm p-6 mb-6 space-y-5">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Difficulty</p>
+              <div className="grid grid-cols-4 gap-2">
+                {DIFFICULTY_OPTIONS.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => setDifficulty(option.value)}
+                    className={`px-3 py-2 rounded-md text-sm border transition-colors ${
+                      difficulty === option.value
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Practice runs are timed and scored like a battle but never affect your rating or leaderboard position.
+            </p>
+
+            <button
+              onClick={handleStart}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Start Practice
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2">Starting practice...</span>
+          </div>
+        )}
+
+        {/* Cancel Button */}
+        <div className="text-center">
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function PracticePage() {
+  return (
+    <Suspense fallback={
+      <div className="container mx-auto p-8">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-2">Loading...</span>
+        </div>
+      </div>
+    }>
+      <PracticeContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useGameStore } from '@/stores/game-store';
+import { trpc } from '@/components/providers';
+import { GameLoading } from '@/components/game/game-loading';
+import { ReplayQuestionView, ReplayPlayer } from '@/components/replay/replay-question';
+
+export default function ReplayPage() {
+  const router = useRouter();
+  const params = useParams();
+  const gameId = params.gameId as string;
+  const playerId = useGameStore(state => state.playerId);
+
+  const { data: replay, error, isLoading } = trpc.games.getReplay.useQuery({ gameId }, { enabled: !!gameId });
+  const playerIds = replay ? [replay.game.player1Id, replay.game.player2Id].filter((id): id is string => !!id) : [];
+  const { data: profiles } = trpc.players.getProfiles.useQuery({ playerIds }, { enabled: playerIds.length > 0 });
+
+  const [step, setStep] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const timeLimitMs = replay?.timeLimitMs ?? 0;
+
+  // Plays the current question back in real time, so lock-ins appear as they happened
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const startedAt = performance.now();
+    let frame = requestAnimationFrame(function tick() {
+      const elapsed = Math.min(performance.now() - startedAt, timeLimitMs);
+      setElapsedMs(elapsed);
+      if (elapsed < timeLimitMs) {
+        frame = requestAnimationFrame(tick);
+      } else {
+        setIsPlaying(false);
+      }
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, timeLimitMs]);
+
+  const goTo = (index: number) => {
+    setIsPlaying(false);
+    setElapsedMs(null);
+    setStep(index);
+  };
+
+  if (isLoading) {
+    return <GameLoading message="Loading replay..." />;
+  }
+
+  if (error || !replay) {
+    return (
+      <div className="container mx-auto p-8">
+        <div className="max-w-md mx-auto bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h3 className="text-lg font-semibold text-red-800 mb-2">Replay Unavailable</h3>
+          <p className="text-red-700 mb-4">{error?.message ?? 'Game not found'}</p>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors bg-white"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const players: ReplayPlayer[] = playerIds.map((id, index) => ({
+    id,
+    name: id === playerId ? 'You' : profiles?.find(profile => profile.playerId === id)?.displayName ?? `Player ${index + 1}`,
+    color: index === 0 ? 'blue' : 'red',
+  }));
+  const [player1, player2] = players;
+  const current = replay.questions[step];
+  const winner = players.find(player => player.id === replay.game.winnerId);
+
+  return (
+    <div className="container mx-auto p-4 min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="max-w-4xl mx-auto">
+        {/* Match header */}
+        <div className="bg-white rounded-xl border shadow-lg p-6 mb-6 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">🎬 Match Replay</h1>
+          <div className="text-xl font-semibold text-gray-700">
+            <span className="text-blue-600">{player1?.name}</span> {replay.game.player1Score}
+            {player2 && (
+              <>
+                <span className="mx-3 text-gray-400">vs</span>
+                {replay.game.player2Score} <span className="text-red-600">{player2.name}</span>
+              </>
+            )}
+          </div>
+          <p className="text-sm text-gray-500 mt-2">
+            {replay.game.status === 'cancelled' ? 'Cancelled' : winner ? `${winner.name} won` : player2 ? 'Draw' : 'Practice run'}
+            {' • '}{replay.questions.length} questions • {timeLimitMs / 1000}s per question
+          </p>
+        </div>
+
+        {/* Score timeline: the running score after each question; click to jump */}
+        {replay.questions.length > 0 && (
+          <div className="bg-white rounded-xl border shadow-lg p-6 mb-6">
+            <h3 className="text-sm font-semibold text-gray-600 mb-3">Score Timeline</h3>
+            <div className="flex gap-2 overflow-x-auto">
+              {replay.questions.map((replayQuestion, index) => (
+                <button
+                  key={replayQuestion.index}
+                  onClick={() => goTo(index)}
+                  className={`flex-1 min-w-[4rem] p-2 rounded-lg border-2 text-xs transition-colors ${
+                    index === step ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:border-indigo-300'
+                  }`}
+                >
+                  <div className="font-semibold text-gray-700 mb-1">Q{replayQuestion.index + 1}</div>
+                  <div className="text-blue-600">{replayQuestion.scores.player1}</div>
+                  {player2 && <div className="text-red-600">{replayQuestion.scores.player2}</div>}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {current ? (
+          <>
+            {/* Scrubber */}
+            <div className="flex items-center gap-4 mb-6">
+              <button
+                onClick={() => goTo(step - 1)}
+                disabled={step === 0}
+                className="px-4 py-2 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                ◀
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={replay.questions.length - 1}
+                value={step}
+                onChange={(event) => goTo(Number(event.target.value))}
+                className="flex-1"
+              />
+              <button
+                onClick={() => goTo(step + 1)}
+                disabled={step === replay.questions.length - 1}
+                className="px-4 py-2 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                ▶
+              </button>
+              <button
+                onClick={() => {
+                  setElapsedMs(0);
+                  setIsPlaying(true);
+                }}
+                disabled={isPlaying}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isPlaying ? 'Playing...' : '⏵ Play question'}
+              </button>
+            </div>
+
+            <div className="text-sm text-gray-600 font-medium mb-3">
+              Question {current.index + 1} of {replay.game.totalQuestions ?? replay.questions.length}
+            </div>
+            <ReplayQuestionView
+              key={current.index}
+              replayQuestion={current}
+              timeLimitMs={timeLimitMs}
+              players={players}
+              elapsedMs={elapsedMs}
+            />
+          </>
+        ) : (
+          <div className="bg-white rounded-xl border shadow-lg p-6 mb-6 text-center text-gray-600">
+            No questions were played in this game.
+          </div>
+        )}
+
+        <div className="text-center">
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors bg-white"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import type { PlayerProfile } from '@quiz-battle/shared';
 import { Confetti } from './confetti';
 
 interface GameResultsProps {
@@ -9,8 +10,11 @@ interface GameResultsProps {
   playerId: string;
   winner: string | null;
   totalQuestions: number;
+  isPractice?: boolean;
+  opponent?: PlayerProfile | null;
   onPlayAgain: () => void;
   onBackToHome: () => void;
+  onWatchReplay?: () => void;
 }
 
 interface AnimatedNumberProps {
@@ -55,15 +59,18 @@ export function GameResults({
   playerId,
   winner,
   totalQuestions,
+  isPractice = false,
+  opponent = null,
   onPlayAgain,
   onBackToHome,
+  onWatchReplay,
 }: GameResultsProps) {
   const [showContent, setShowContent] = useState(false);
   const [showScores, setShowScores] = useState(false);
   const [showActions, setShowActions] = useState(false);
 
-  const isWinner = winner === playerId;
-  const isDraw = !winner;
+  const isWinner = !isPractice && winner === playerId;
+  const isDraw = !isPractice && !winner;
   const playerAccuracy = Math.round((playerScore / (totalQuestions * 1000)) * 100);
   const opponentAccuracy = Math.round((opponentScore / (totalQuestions * 1000)) * 100);
 
@@ -93,27 +100,29 @@ export function GameResults({
           }`}
         >
           <div className={`text-8xl mb-6 ${isWinner ? 'animate-bounce' : ''}`}>
-            {isWinner ? '🏆' : isDraw ? '🤝' : '😔'}
+            {isPractice ? '🎯' : isWinner ? '🏆' : isDraw ? '🤝' : '😔'}
           </div>
           <h1 className={`text-5xl font-bold mb-4 transition-colors duration-500 ${
+            isPractice ? 'text-blue-600' :
             isWinner ? 'text-green-600 animate-pulse' : 
             isDraw ? 'text-yellow-600' : 'text-red-600'
           }`}>
-            {isWinner ? 'VICTORY!' : isDraw ? "IT'S A DRAW!" : 'GAME OVER'}
+            {isPractice ? 'PRACTICE COMPLETE' : isWinner ? 'VICTORY!' : isDraw ? "IT'S A DRAW!" : 'GAME OVER'}
           </h1>
           <p className="text-2xl text-gray-600 mb-2">
-            {isWinner ? 'Outstanding performance! You dominated the quiz battle!' : 
+            {isPractice ? 'Nice run! Practice games never affect your rating.' :
+             isWinner ? 'Outstanding performance! You dominated the quiz battle!' : 
              isDraw ? 'What an incredible match! Perfect balance of skill!' : 
              'Great effort! Every game makes you stronger!'}
           </p>
           <div className="text-lg text-gray-500">
-            Quiz Battle Complete • {totalQuestions} Questions
+            {isPractice ? 'Practice' : 'Quiz Battle'} Complete • {totalQuestions} Questions
           </div>
         </div>
 
         {/* Score Comparison with Animations */}
         <div 
-          className={`grid grid-cols-1 md:grid-cols-2 gap-6 mb-8 transition-all duration-1000 transform ${
+          className={`grid grid-cols-1 ${isPractice ? '' : 'md:grid-cols-2'} gap-6 mb-8 transition-all duration-1000 transform ${
             showScores ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'
           }`}
         >
@@ -148,34 +157,43 @@ export function GameResults({
           </div>
 
           {/* Opponent Score */}
-          <div className={`bg-white rounded-xl border-2 shadow-lg p-6 transition-all duration-500 ${
-            opponentScore > playerScore ? 
-              'border-green-300 bg-gradient-to-br from-green-50 to-green-100 transform scale-105' : 
-              'border-gray-200 hover:border-red-300'
-          }`}>
-            <div className="text-center">
-              <div className="flex items-center justify-center mb-3">
-                <div className="w-12 h-12 bg-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm mr-3">
-                  OPP
+          {!isPractice && (
+            <div className={`bg-white rounded-xl border-2 shadow-lg p-6 transition-all duration-500 ${
+              opponentScore > playerScore ? 
+                'border-green-300 bg-gradient-to-br from-green-50 to-green-100 transform scale-105' : 
+                'border-gray-200 hover:border-red-300'
+            }`}>
+              <div className="text-center">
+                <div className="flex items-center justify-center mb-3">
+                  {opponent?.avatarUrl ? (
+                    <img src={opponent.avatarUrl} alt="" className="w-12 h-12 rounded-full object-cover mr-3" />
+                  ) : (
+                    <div className="w-12 h-12 bg-red-500 rounded-full flex items-center justify-center text-white font-bold text-sm mr-3">
+                      {opponent ? opponent.displayName.slice(0, 3).toUpperCase() : 'OPP'}
+                    </div>
+                  )}
+                  {opponentScore > playerScore && (
+                    <div className="text-green-500 text-2xl animate-bounce">👑</div>
+                  )}
                 </div>
-                {opponentScore > playerScore && (
-                  <div className="text-green-500 text-2xl animate-bounce">👑</div>
+                {opponent && (
+                  <div className="text-sm font-medium text-gray-700 mb-1">{opponent.displayName}</div>
                 )}
-              </div>
-              <div className="text-4xl font-bold text-gray-800 mb-2">
-                <AnimatedNumber value={opponentScore} duration={1500} />
-              </div>
-              <div className="text-sm text-gray-600 mb-3">
-                Accuracy: {opponentAccuracy}%
-              </div>
-              <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
-                <div 
-                  className="bg-red-500 h-3 rounded-full transition-all duration-2000 ease-out"
-                  style={{ width: `${opponentAccuracy}%` }}
-                ></div>
+                <div className="text-4xl font-bold text-gray-800 mb-2">
+                  <AnimatedNumber value={opponentScore} duration={1500} />
+                </div>
+                <div className="text-sm text-gray-600 mb-3">
+                  Accuracy: {opponentAccuracy}%
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
+                  <div 
+                    className="bg-red-500 h-3 rounded-full transition-all duration-2000 ease-out"
+                    style={{ width: `${opponentAccuracy}%` }}
+                  ></div>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Performance Statistics */}
@@ -226,6 +244,16 @@ export function GameResults({
             >
               🎮 Play Again
             </button>
+            {onWatchReplay && (
+              <div>
+                <button
+                  onClick={onWatchReplay}
+                  className="px-8 py-3 border-2 border-indigo-300 rounded-xl text-indigo-700 hover:border-indigo-500 hover:bg-indigo-50 transition-all duration-300 font-medium bg-white"
+                >
+                  🎬 Watch Replay
+                </button>
+              </div>
+            )}
             <div>
               <button
                 onClick={onBackToHome}
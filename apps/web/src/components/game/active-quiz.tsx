@@ -1,43 +1,69 @@
 'use client';
 
-import { Question } from '@quiz-battle/shared';
+import { useState } from 'react';
+import { Question, QuestionMedia, PlayerProfile, SubmittedAnswer, QUESTION_TYPE_CONFIG } from '@quiz-battle/shared';
 
 interface ActiveQuizProps {
   currentQuestion: Question;
   currentQuestionIndex: number;
+  totalQuestions: number;
   timeRemaining: number;
+  questionTimeLimit: number;
   playerScore: number;
   opponentScore: number;
+  isPractice?: boolean;
+  opponent?: PlayerProfile | null;
   hasAnswered: boolean;
   opponentHasAnswered: boolean;
-  selectedAnswer: number | null;
-  onAnswerSelect: (answerIndex: number) => void;
+  opponentDisconnected?: boolean;
+  isPaused?: boolean;
+  selectedAnswer: SubmittedAnswer | null;
+  onAnswerSelect: (answer: SubmittedAnswer) => void;
 }
 
 export function ActiveQuiz({
   currentQuestion,
   currentQuestionIndex,
+  totalQuestions,
   timeRemaining,
+  questionTimeLimit,
   playerScore,
   opponentScore,
+  isPractice = false,
+  opponent = null,
   hasAnswered,
   opponentHasAnswered,
+  opponentDisconnected = false,
+  isPaused = false,
   selectedAnswer,
   onAnswerSelect,
 }: ActiveQuizProps) {
+  const opponentName = opponent?.displayName ?? 'Opponent';
+  const isLocked = hasAnswered || isPaused || timeRemaining <= 0;
+  const isTyped = currentQuestion.type === 'numeric' || currentQuestion.type === 'short_answer';
+
   return (
     <div className="container mx-auto p-4 min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
       <div className="max-w-4xl mx-auto">
+        {/* Connection Status */}
+        {(opponentDisconnected || isPaused) && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-center text-yellow-800">
+            {opponentDisconnected
+              ? `${opponentName} disconnected. ${isPaused ? 'The game is paused while' : 'The game continues while'} they reconnect.`
+              : 'Game paused while reconnecting...'}
+          </div>
+        )}
+
         {/* Enhanced Game Header */}
         <div className="bg-white rounded-xl border shadow-lg p-6 mb-8 transition-all duration-500 hover:shadow-xl">
           <div className="flex justify-between items-center">
             {/* Question Progress with animation */}
             <div className="flex items-center space-x-3">
               <div className="text-sm text-gray-600 font-medium">
-                Question {currentQuestionIndex + 1} of 5
+                Question {currentQuestionIndex + 1} of {totalQuestions}
               </div>
               <div className="flex space-x-1">
-                {Array.from({ length: 5 }, (_, i) => (
+                {Array.from({ length: totalQuestions }, (_, i) => (
                   <div
                     key={i}
                     className={`w-2 h-2 rounded-full transition-all duration-300 ${
@@ -59,15 +85,21 @@ export function ActiveQuiz({
             
             {/* Enhanced Scores */}
             <div className="text-right">
-              <div className="text-sm text-gray-600 font-medium">
-                <span className={`${playerScore > opponentScore ? 'text-green-600 font-bold' : ''}`}>
-                  You: {playerScore}
-                </span>
-                <span className="mx-2">|</span>
-                <span className={`${opponentScore > playerScore ? 'text-green-600 font-bold' : ''}`}>
-                  Opponent: {opponentScore}
-                </span>
-              </div>
+              {isPractice ? (
+                <div className="text-sm text-gray-600 font-medium">
+                  Score: {playerScore}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-600 font-medium">
+                  <span className={`${playerScore > opponentScore ? 'text-green-600 font-bold' : ''}`}>
+                    You: {playerScore}
+                  </span>
+                  <span className="mx-2">|</span>
+                  <span className={`${opponentScore > playerScore ? 'text-green-600 font-bold' : ''}`}>
+                    {opponentName}: {opponentScore}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
           
@@ -79,7 +111,7 @@ export function ActiveQuiz({
                 timeRemaining <= 5 ? 'bg-gradient-to-r from-yellow-500 to-yellow-600' : 
                 'bg-gradient-to-r from-green-500 to-green-600'
               }`}
-              style={{ width: `${(timeRemaining / 10) * 100}%` }}
+              style={{ width: `${(timeRemaining / questionTimeLimit) * 100}%` }}
             ></div>
           </div>
         </div>
@@ -92,35 +124,46 @@ export function ActiveQuiz({
           <h2 className="text-2xl font-semibold text-gray-800 mb-8 text-center leading-relaxed">
             {currentQuestion.questionText}
           </h2>
+
+          {currentQuestion.media && <QuestionMediaView media={currentQuestion.media} />}
           
-          {/* Enhanced Answer Options */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {currentQuestion.options.map((option, index) => (
-              <button
-                key={index}
-                onClick={() => onAnswerSelect(index)}
-                disabled={hasAnswered || timeRemaining <= 0}
-                className={`p-5 rounded-xl border-2 transition-all duration-300 text-left transform ${
-                  selectedAnswer === index
-                    ? 'bg-gradient-to-r from-blue-50 to-blue-100 border-blue-500 text-blue-800 scale-105 shadow-lg'
-                    : hasAnswered || timeRemaining <= 0
-                    ? 'bg-gray-100 border-gray-300 text-gray-500 cursor-not-allowed opacity-75'
-                    : 'bg-white border-gray-300 hover:border-blue-400 hover:bg-blue-50 hover:scale-102 hover:shadow-md'
-                }`}
-              >
-                <div className="flex items-center">
-                  <span className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold mr-4 transition-colors ${
-                    selectedAnswer === index
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-gray-200 text-gray-700'
-                  }`}>
-                    {String.fromCharCode(65 + index)}
-                  </span>
-                  <span className="font-medium text-lg">{option}</span>
-                </div>
-              </button>
-            ))}
-          </div>
+          {isTyped ? (
+            <TypedAnswerForm
+              question={currentQuestion}
+              submittedText={selectedAnswer?.answerText}
+              disabled={isLocked}
+              onSubmit={(answerText) => onAnswerSelect({ answerText })}
+            />
+          ) : (
+            /* Enhanced Answer Options */
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {currentQuestion.options.map((option, index) => (
+                <button
+                  key={index}
+                  onClick={() => onAnswerSelect({ selectedAnswer: index })}
+                  disabled={isLocked}
+                  className={`p-5 rounded-xl border-2 transition-all duration-300 text-left transform ${
+                    selectedAnswer?.selectedAnswer === index
+                      ? 'bg-gradient-to-r from-blue-50 to-blue-100 border-blue-500 text-blue-800 scale-105 shadow-lg'
+                      : hasAnswered || timeRemaining <= 0
+                      ? 'bg-gray-100 border-gray-300 text-gray-500 cursor-not-allowed opacity-75'
+                      : 'bg-white border-gray-300 hover:border-blue-400 hover:bg-blue-50 hover:scale-102 hover:shadow-md'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <span className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold mr-4 transition-colors ${
+                      selectedAnswer?.selectedAnswer === index
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-200 text-gray-700'
+                    }`}>
+                      {currentQuestion.type === 'true_false' ? option.charAt(0) : String.fromCharCode(65 + index)}
+                    </span>
+                    <span className="font-medium text-lg">{option}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Enhanced Player Status */}
@@ -135,20 +178,24 @@ export function ActiveQuiz({
               </span>
             </div>
             
-            <div className="flex items-center space-x-3">
-              <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
-                opponentHasAnswered ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'
-              }`}></div>
-              <span className="text-gray-700 font-medium">
-                Opponent: {opponentHasAnswered ? '✅ Answered' : '⏳ Answering...'}
-              </span>
-            </div>
+            {!isPractice && (
+              <div className="flex items-center space-x-3">
+                <div className={`w-4 h-4 rounded-full transition-all duration-300 ${
+                  opponentHasAnswered ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'
+                }`}></div>
+                <span className="text-gray-700 font-medium">
+                  {opponentName}: {opponentHasAnswered ? '✅ Answered' : '⏳ Answering...'}
+                </span>
+              </div>
+            )}
           </div>
           
           {/* Battle indicator */}
           <div className="mt-4 text-center">
             <div className="inline-flex items-center space-x-2 bg-gradient-to-r from-purple-100 to-pink-100 px-4 py-2 rounded-full">
-              <span className="text-sm font-medium text-purple-800">⚡ Live Quiz Battle</span>
+              <span className="text-sm font-medium text-purple-800">
+                {isPractice ? '🎯 Practice Run' : '⚡ Live Quiz Battle'}
+              </span>
               <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
             </div>
           </div>
@@ -156,4 +203,79 @@ export function ActiveQuiz({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface TypedAnswerFormProps {
+  question: Question;
+  submittedText?: string;
+  disabled: boolean;
+  onSubmit: (answerText: string) => void;
+}
+
+// Numeric and short answer questions are typed; the closest number or an
+// answer close enough to the accepted spelling scores
+function TypedAnswerForm({ question, submittedText, disabled, onSubmit }: TypedAnswerFormProps) {
+  const [text, setText] = useState('');
+  const isNumeric = question.type === 'numeric';
+  const isValid = isNumeric ? text.trim() !== '' && Number.isFinite(Number(text.replace(/,/g, ''))) : text.trim() !== '';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!disabled && isValid) {
+      onSubmit(text.trim());
+    }
+  };
+
+  if (submittedText !== undefined) {
+    return (
+      <div className="text-center p-5 rounded-xl border-2 bg-gradient-to-r from-blue-50 to-blue-100 border-blue-500 text-blue-800">
+        <span className="text-sm text-blue-600 block mb-1">Your answer</span>
+        <span className="font-medium text-lg">{submittedText || '—'}</span>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-4">
+      <input
+        type="text"
+        inputMode={isNumeric ? 'decimal' : 'text'}
+        autoFocus
+        autoComplete="off"
+        maxLength={QUESTION_TYPE_CONFIG.SHORT_ANSWER_MAX_LENGTH}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        disabled={disabled}
+        placeholder={isNumeric ? 'Your best guess (closest wins)' : 'Type your answer'}
+        className="flex-1 p-5 rounded-xl border-2 border-gray-300 text-lg focus:border-blue-500 focus:outline-none disabled:bg-gray-100"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !isValid}
+        className="px-8 py-4 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        Submit
+      </button>
+    </form>
+  );
+}
+
+// Preloaded before the question started, so this shows from the browser cache
+function QuestionMediaView({ media }: { media: QuestionMedia }) {
+  if (media.kind === 'image') {
+    return (
+      <img
+        src={media.url}
+        alt={media.altText ?? ''}
+        className="max-h-72 mx-auto mb-8 rounded-lg object-contain"
+      />
+    );
+  }
+
+  return (
+    <div className="mb-8 text-center">
+      <audio key={media.url} src={media.url} controls autoPlay className="mx-auto" />
+      {media.altText && <p className="text-sm text-gray-500 mt-2">{media.altText}</p>}
+    </div>
+  );
+}
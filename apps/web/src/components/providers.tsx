@@ -3,11 +3,26 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { httpBatchLink } from '@trpc/client';
 import { createTRPCReact } from '@trpc/react-query';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { AppRouter } from '@quiz-battle/trpc';
+import { useGameStore } from '@/stores/game-store';
 
 export const trpc = createTRPCReact<AppRouter>();
 
+// Obtains a session on first visit and refreshes the stored one on every load
+function SessionBootstrap() {
+  const setSession = useGameStore(state => state.setSession);
+  const createSession = trpc.auth.createSession.useMutation({
+    onSuccess: (session) => setSession(session),
+  });
+
+  useEffect(() => {
+    createSession.mutate({ token: useGameStore.getState().sessionToken ?? undefined });
+  }, []);
+
+  return null;
+}
+
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient());
   const [trpcClient] = useState(() =>
@@ -15,6 +30,10 @@ export function Providers({ children }: { children: React.ReactNode }) {
       links: [
         httpBatchLink({
           url: `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/trpc`,
+          headers: () => {
+            const token = useGameStore.getState().sessionToken;
+            return token ? { Authorization: `Bearer ${token}` } : {};
+          },
         }),
       ],
     })
@@ -23,6 +42,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <trpc.Provider client={trpcClient} queryClient={queryClient}>
       <QueryClientProvider client={queryClient}>
+        <SessionBootstrap />
         {children}
       </QueryClientProvider>
     </trpc.Provider>
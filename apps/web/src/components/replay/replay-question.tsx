@@ -0,0 +1,176 @@
+'use client';
+
+import type { ReplayQuestion, ReplayAnswer } from '@quiz-battle/shared';
+
+export interface ReplayPlayer {
+  id: string;
+  name: string;
+  color: 'blue' | 'red';
+}
+
+interface ReplayQuestionViewProps {
+  replayQuestion: ReplayQuestion;
+  timeLimitMs: number;
+  players: ReplayPlayer[];
+  elapsedMs: number | null; // Position of the playback cursor; null shows the whole question
+}
+
+const PLAYER_STYLES = {
+  blue: { marker: 'bg-blue-500', badge: 'bg-blue-100 text-blue-800 border-blue-300' },
+  red: { marker: 'bg-red-500', badge: 'bg-red-100 text-red-800 border-red-300' },
+} as const;
+
+export function ReplayQuestionView({ replayQuestion, timeLimitMs, players, elapsedMs }: ReplayQuestionViewProps) {
+  const { question } = replayQuestion;
+  const isTyped = question.type === 'numeric' || question.type === 'short_answer';
+
+  // During playback an answer shows once the cursor reaches its lock-in time
+  const lockedIn = replayQuestion.answers.filter(answer => elapsedMs === null || answer.responseTimeMs <= elapsedMs);
+  const answerOf = (player: ReplayPlayer) => lockedIn.find(answer => answer.playerId === player.id);
+  const isRevealed = revealed(elapsedMs, timeLimitMs);
+
+  return (
+    <div className="bg-white rounded-xl border shadow-lg p-8 mb-8">
+      <h2 className="text-2xl font-semibold text-gray-800 mb-6 text-center leading-relaxed">
+        {question.questionText}
+      </h2>
+
+      {question.media?.kind === 'image' && (
+        <img src={question.media.url} alt={question.media.altText ?? ''} className="max-h-72 mx-auto mb-6 rounded-lg object-contain" />
+      )}
+      {question.media?.kind === 'audio' && (
+        <div className="mb-6 text-center">
+          <audio key={question.media.url} src={question.media.url} controls className="mx-auto" />
+        </div>
+      )}
+
+      <CountdownTrack answers={replayQuestion.answers} timeLimitMs={timeLimitMs} players={players} elapsedMs={elapsedMs} />
+
+      {isTyped ? (
+        <div className="space-y-3">
+          {isRevealed && (
+            <div className="p-4 rounded-xl border-2 border-green-400 bg-green-50 text-green-800 text-center">
+              <span className="text-sm block mb-1">Correct answer</span>
+              <span className="font-medium text-lg">
+                {question.type === 'numeric' ? question.correctAnswer : question.acceptedAnswers?.[0]}
+              </span>
+            </div>
+          )}
+          {players.map(player => {
+            const answer = answerOf(player);
+            return (
+              <div key={player.id} className={`p-4 rounded-xl border-2 ${PLAYER_STYLES[player.color].badge}`}>
+                <span className="font-medium">{player.name}:</span>{' '}
+                {answer ? `${answer.answerText || '—'} ${isRevealed ? resultLabel(answer) : ''}` : isRevealed ? 'No answer' : 'Thinking...'}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {question.options.map((option, index) => {
+            const isCorrect = isRevealed && index === question.correctAnswer;
+            const pickedBy = players.flatMap(player => {
+              const answer = answerOf(player);
+              return answer?.selectedAnswer === index ? [{ player, answer }] : [];
+            });
+            return (
+              <div
+                key={index}
+                className={`p-5 rounded-xl border-2 ${isCorrect ? 'border-green-500 bg-green-50' : 'border-gray-300 bg-white'}`}
+              >
+                <div className="flex items-center">
+                  <span className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold mr-4 ${
+                    isCorrect ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-700'
+                  }`}>
+                    {question.type === 'true_false' ? option.charAt(0) : String.fromCharCode(65 + index)}
+                  </span>
+                  <span className="font-medium text-lg flex-1">{option}</span>
+                </div>
+                {pickedBy.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {pickedBy.map(({ player, answer }) => (
+                      <span key={player.id} className={`text-xs font-medium px-2 py-1 rounded-full border ${PLAYER_STYLES[player.color].badge}`}>
+                        {player.name}{isRevealed && answer.pointsEarned > 0 ? ` +${answer.pointsEarned}` : ''}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CountdownTrackProps {
+  answers: ReplayAnswer[];
+  timeLimitMs: number;
+  players: ReplayPlayer[];
+  elapsedMs: number | null;
+}
+
+// The question's countdown as a bar, with a marker where each player locked in
+function CountdownTrack({ answers, timeLimitMs, players, elapsedMs }: CountdownTrackProps) {
+  const position = (ms: number) => `${Math.min(100, (ms / timeLimitMs) * 100)}%`;
+
+  return (
+    <div className="mb-8">
+      <div className="relative w-full bg-gray-200 rounded-full h-3">
+        {elapsedMs !== null && (
+          <div className="absolute inset-y-0 left-0 bg-gray-400 rounded-full" style={{ width: position(elapsedMs) }} />
+        )}
+        {players.map(player => {
+          const answer = answers.find(candidate => candidate.playerId === player.id);
+          if (!answer || (elapsedMs !== null && answer.responseTimeMs > elapsedMs)) return null;
+          return (
+            <div
+              key={player.id}
+              className={`absolute -top-1 w-2 h-5 rounded ${PLAYER_STYLES[player.color].marker}`}
+              style={{ left: `calc(${position(answer.responseTimeMs)} - 4px)` }}
+              title={`${player.name} locked in at ${formatSeconds(answer.responseTimeMs)}`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-2">
+        <span>0s</span>
+        <span>{formatSeconds(timeLimitMs)}</span>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-6 mt-3 text-sm text-gray-700">
+        {players.map(player => {
+          const answer = answers.find(candidate => candidate.playerId === player.id);
+          const shown = answer && (elapsedMs === null || answer.responseTimeMs <= elapsedMs);
+          return (
+            <div key={player.id} className="flex items-center space-x-2">
+              <div className={`w-3 h-3 rounded-full ${PLAYER_STYLES[player.color].marker}`} />
+              <span>
+                {player.name}:{' '}
+                {shown
+                  ? `locked in at ${formatSeconds(answer.responseTimeMs)} with ${formatSeconds(Math.max(0, timeLimitMs - answer.responseTimeMs))} left`
+                  : revealed(elapsedMs, timeLimitMs) ? 'no answer' : 'thinking...'}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// The correct answer and results show once the countdown has run out
+function revealed(elapsedMs: number | null, timeLimitMs: number): boolean {
+  return elapsedMs === null || elapsedMs >= timeLimitMs;
+}
+
+function resultLabel(answer: ReplayAnswer): string {
+  if (answer.isCorrect === null) return '(not scored)';
+  return answer.isCorrect ? `✅ +${answer.pointsEarned}` : '❌';
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
@@ -1,14 +1,14 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import type { SubmittedAnswer } from '@quiz-battle/shared';
 import { useGameStore } from '@/stores/game-store';
 import { useSocket } from '@/hooks/useSocket';
+import { trpc } from '@/components/providers';
 
 export function useGameLogic(gameId: string) {
   const router = useRouter();
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [questionStartTime, setQuestionStartTime] = useState<number>(Date.now());
 
   const { 
     playerId,
@@ -16,19 +16,34 @@ export function useGameLogic(gameId: string) {
     currentQuestion,
     currentQuestionIndex,
     timeRemaining,
+    questionTimeLimit,
+    questionDeadline,
     isWaitingForOpponent,
     hasAnswered,
+    selectedAnswer,
     opponentHasAnswered,
+    opponentDisconnected,
+    isPaused,
     playerScore,
     opponentScore,
     gameCompleted,
     winner,
     setHasAnswered,
+    setSelectedAnswer,
+    setTimeRemaining,
     resetGame
   } = useGameStore();
   
   const { submitAnswer, requestGameState } = useSocket();
 
+  // Registered opponents and bots have a display name and avatar; guests stay "Opponent"
+  const opponentId = currentGame?.player1Id === playerId ? currentGame?.player2Id : currentGame?.player1Id;
+  const { data: opponentProfiles } = trpc.players.getProfiles.useQuery(
+    { playerIds: opponentId ? [opponentId] : [] },
+    { enabled: !!opponentId }
+  );
+  const opponent = opponentProfiles?.find(profile => profile.playerId === opponentId) ?? null;
+
   // Initial setup and validation
   useEffect(() => {
     if (!gameId || !playerId) {
@@ -40,23 +55,23 @@ export function useGameLogic(gameId: string) {
     requestGameState(gameId);
   }, [gameId, playerId, requestGameState, router]);
 
-  // Reset question state when new question starts
+  // Count down locally to the server's deadline instead of waiting for ticks
   useEffect(() => {
-    if (currentQuestion) {
-      setSelectedAnswer(null);
-      setQuestionStartTime(Date.now());
-    }
-  }, [currentQuestion, currentQuestionIndex]);
+    if (questionDeadline === null) return;
+
+    const tick = () => setTimeRemaining(Math.max(0, questionDeadline - Date.now()) / 1000);
+    tick();
+    const interval = setInterval(tick, 100);
+    return () => clearInterval(interval);
+  }, [questionDeadline, setTimeRemaining]);
 
-  // Handle answer selection
-  const handleAnswerSelect = (answerIndex: number) => {
-    if (hasAnswered || timeRemaining <= 0) return;
+  // Handle answer selection (an option index, or typed text for numeric and short answers)
+  const handleAnswerSelect = (answer: SubmittedAnswer) => {
+    if (hasAnswered || isPaused || timeRemaining <= 0) return;
     
-    setSelectedAnswer(answerIndex);
+    setSelectedAnswer(answer);
     setHasAnswered(true);
-    
-    const responseTime = Date.now() - questionStartTime;
-    submitAnswer(gameId, answerIndex, responseTime);
+    submitAnswer(gameId, answer);
   };
 
   // Handle play again
@@ -72,16 +87,18 @@ export function useGameLogic(gameId: string) {
     currentQuestion,
     currentQuestionIndex,
     timeRemaining,
+    questionTimeLimit,
     isWaitingForOpponent,
     hasAnswered,
+    selectedAnswer,
     opponentHasAnswered,
+    opponentDisconnected,
+    isPaused,
     playerScore,
     opponentScore,
     gameCompleted,
     winner,
-    
-    // Local state
-    selectedAnswer,
+    opponent,
     
     // Actions
     handleAnswerSelect,
@@ -1,6 +1,10 @@
 import {useCallback, useEffect, useRef} from 'react';
 import { socketManager, TypedSocket } from '@/lib/socket';
+import { preloadMedia } from '@/lib/media';
+import { serverClock } from '@/lib/clock-sync';
 import { useGameStore } from '@/stores/game-store';
+import { GameStatus } from '@quiz-battle/shared';
+import type { SubmittedAnswer } from '@quiz-battle/shared';
 
 export function useSocket() {
   const socketRef = useRef<TypedSocket | null>(null);
@@ -8,15 +12,28 @@ export function useSocket() {
     setCurrentGame,
     setCurrentQuestion,
     setTimeRemaining,
+    setQuestionTimeLimit,
+    setQuestionDeadline,
     setWaitingForOpponent,
+    setMatchmakingError,
+    setMatchmaking,
     setOpponentAnswered,
+    setHasAnswered,
+    setSelectedAnswer,
+    setOpponentDisconnected,
+    setPaused,
     updateScores,
     setGameCompleted,
     playerId,
+    sessionToken,
   } = useGameStore();
+  const hasSession = sessionToken !== null;
 
   useEffect(() => {
-    socketRef.current = socketManager.connect();
+    // The server only accepts sockets that present a session token
+    if (!hasSession) return;
+
+    socketRef.current = socketManager.connect(() => useGameStore.getState().sessionToken);
     const socket = socketRef.current;
 
     // Game creation/joining events
@@ -35,6 +52,11 @@ export function useSocket() {
       setWaitingForOpponent(false);
     });
 
+    socket.on('matchmaking-failed', (data) => {
+      setMatchmaking(false);
+      setMatchmakingError(data.reason);
+    });
+
     // Game flow events
     socket.on('game-started', (data) => {
       setCurrentGame(data.game);
@@ -42,13 +64,25 @@ export function useSocket() {
       setWaitingForOpponent(false);
     });
 
+    // The countdown runs locally towards the server's deadline (see useGameLogic)
     socket.on('question-started', (data) => {
+      setQuestionTimeLimit(data.timeLimit / 1000);
       setCurrentQuestion(data.question, data.questionIndex);
-      setTimeRemaining(data.timeLimit / 1000); // Convert to seconds
+      setQuestionDeadline(serverClock.toLocalTime(data.deadline));
     });
 
-    socket.on('countdown-tick', (data) => {
-      setTimeRemaining(data.timeRemaining / 1000); // Convert to seconds
+    socket.on('question-resumed', (data) => {
+      setQuestionDeadline(serverClock.toLocalTime(data.deadline));
+    });
+
+    // The server starts the question's timer once every player reports its media loaded
+    socket.on('question-media-preload', (data) => {
+      void preloadMedia(data.media).then(() => {
+        const { playerId } = useGameStore.getState();
+        if (playerId) {
+          socket.emit('player-media-ready', { gameId: data.gameId, playerId, questionIndex: data.questionIndex });
+        }
+      });
     });
 
     socket.on('opponent-answered', () => {
@@ -61,6 +95,8 @@ export function useSocket() {
     });
 
     socket.on('question-timeout', (data) => {
+      setQuestionDeadline(null);
+      setTimeRemaining(0);
       updateScores(data.scores.player1, data.scores.player2);
     });
 
@@ -69,6 +105,58 @@ export function useSocket() {
       setGameCompleted(true, data.winner);
     });
 
+    // Reconnection events
+    socket.on('connect', () => {
+      // After a dropped connection, rejoin the running game on the new socket
+      const { currentGame, gameCompleted, playerId } = useGameStore.getState();
+      if (currentGame && !gameCompleted && playerId) {
+        socket.emit('request-game-state', { gameId: currentGame.id, playerId });
+      }
+    });
+
+    socket.on('player-disconnected', (data) => {
+      if (data.playerId !== useGameStore.getState().playerId) {
+        setOpponentDisconnected(true);
+      }
+      setPaused(data.paused);
+      if (data.paused) {
+        setQuestionDeadline(null); // Frozen until question-resumed brings the new deadline
+      }
+    });
+
+    socket.on('player-reconnected', (data) => {
+      if (data.playerId !== useGameStore.getState().playerId) {
+        setOpponentDisconnected(false);
+      }
+      setPaused(false);
+    });
+
+    socket.on('game-state-sync', (data) => {
+      setCurrentGame(data.game);
+      updateScores(data.game.player1Score, data.game.player2Score);
+      setPaused(data.paused ?? false);
+
+      if (data.currentQuestion) {
+        if (data.game.questionTimeLimit) {
+          setQuestionTimeLimit(data.game.questionTimeLimit);
+        }
+        setCurrentQuestion(data.currentQuestion, data.game.currentQuestionIndex);
+        setTimeRemaining((data.timeRemaining ?? 0) / 1000); // Convert to seconds
+        setQuestionDeadline(data.deadline !== undefined ? serverClock.toLocalTime(data.deadline) : null);
+        setWaitingForOpponent(false);
+      }
+
+      // Restore our own answer to the current question
+      if (data.playerAnswer) {
+        setHasAnswered(true);
+        setSelectedAnswer({ selectedAnswer: data.playerAnswer.selectedAnswer, answerText: data.playerAnswer.answerText });
+      }
+
+      if (data.game.status === GameStatus.COMPLETED) {
+        setGameCompleted(true, data.game.winnerId ?? null);
+      }
+    });
+
     socket.on('error', (error) => {
       console.error('Socket error:', error);
     });
@@ -80,39 +168,76 @@ export function useSocket() {
     setCurrentGame,
     setCurrentQuestion,
     setTimeRemaining,
+    setQuestionTimeLimit,
+    setQuestionDeadline,
     setWaitingForOpponent,
+    setMatchmakingError,
+    setMatchmaking,
     setOpponentAnswered,
+    setHasAnswered,
+    setSelectedAnswer,
+    setOpponentDisconnected,
+    setPaused,
     updateScores,
     setGameCompleted,
     playerId,
+    hasSession,
   ]);
 
   const joinMatchmaking = useCallback((themeId: string) => {
     if (socketRef.current && playerId) {
       socketRef.current.emit('player-join-matchmaking', { themeId, playerId });
     }
-  }, []);
+  }, [playerId]);
+
+  const joinPrivateGame = useCallback((gameId: string) => {
+    if (socketRef.current && playerId) {
+      socketRef.current.emit('player-join-private-game', { gameId, playerId });
+    }
+  }, [playerId]);
+
+  const playBot = useCallback((themeId: string) => {
+    if (socketRef.current && playerId) {
+      socketRef.current.emit('player-play-bot', { themeId, playerId });
+    }
+  }, [playerId]);
+
+  const startPractice = useCallback((gameId: string) => {
+    if (socketRef.current && playerId) {
+      socketRef.current.emit('player-start-practice', { gameId, playerId });
+    }
+  }, [playerId]);
+
+  const leaveMatchmaking = useCallback(() => {
+    if (socketRef.current && playerId) {
+      socketRef.current.emit('player-leave-matchmaking', { playerId });
+    }
+  }, [playerId]);
 
-  const submitAnswer = useCallback((gameId: string, selectedAnswer: number, responseTime: number) => {
+  // The server times the answer itself, so only the answer is sent
+  const submitAnswer = useCallback((gameId: string, answer: SubmittedAnswer) => {
     if (socketRef.current && playerId) {
       socketRef.current.emit('player-submit-answer', {
         gameId,
         playerId,
-        selectedAnswer,
-        responseTime,
+        ...answer,
       });
     }
-  }, []);
+  }, [playerId]);
 
   const requestGameState = useCallback((gameId: string) => {
     if (socketRef.current && playerId) {
       socketRef.current.emit('request-game-state', { gameId, playerId });
     }
-  }, []);
+  }, [playerId]);
 
   return {
     socket: socketRef.current,
     joinMatchmaking,
+    leaveMatchmaking,
+    joinPrivateGame,
+    startPractice,
+    playBot,
     submitAnswer,
     requestGameState,
   };
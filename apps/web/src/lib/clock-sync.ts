@@ -0,0 +1,41 @@
+import { CLOCK_SYNC_CONFIG } from '@quiz-battle/shared';
+import type { TypedSocket } from './socket';
+
+interface ClockSample {
+  offsetMs: number;
+  rttMs: number;
+}
+
+// NTP-style estimate of how far the server clock is ahead of ours. The sample
+// with the shortest round trip is the least skewed by network jitter.
+class ServerClock {
+  private offsetMs = 0;
+  private samples: ClockSample[] = [];
+
+  // Called on every (re)connect; pings one at a time until enough samples are in
+  sync(socket: TypedSocket): void {
+    this.samples = [];
+    socket.emit('clock-sync-ping', { clientSentAt: Date.now() });
+  }
+
+  handlePong(socket: TypedSocket, data: { clientSentAt: number; serverTime: number }): void {
+    const receivedAt = Date.now();
+    const rttMs = receivedAt - data.clientSentAt;
+    this.samples.push({ offsetMs: data.serverTime + rttMs / 2 - receivedAt, rttMs });
+
+    if (this.samples.length < CLOCK_SYNC_CONFIG.SAMPLES) {
+      socket.emit('clock-sync-ping', { clientSentAt: Date.now() });
+      return;
+    }
+
+    const best = this.samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a));
+    this.offsetMs = best.offsetMs;
+  }
+
+  // A server timestamp, such as a question deadline, on our clock
+  toLocalTime(serverTime: number): number {
+    return serverTime - this.offsetMs;
+  }
+}
+
+export const serverClock = new ServerClock();
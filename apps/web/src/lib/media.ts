@@ -0,0 +1,24 @@
+import type { QuestionMedia } from '@quiz-battle/shared';
+
+// Resolves once the browser has the file, or gave up on it. A broken file is
+// reported as loaded too, so it cannot hold the question back.
+export function preloadMedia(media: QuestionMedia): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => resolve();
+
+    if (media.kind === 'image') {
+      const image = new Image();
+      image.onload = done;
+      image.onerror = done;
+      image.src = media.url;
+      return;
+    }
+
+    const audio = new Audio();
+    audio.preload = 'auto';
+    audio.oncanplaythrough = done;
+    audio.onerror = done;
+    audio.src = media.url;
+    audio.load();
+  });
+}
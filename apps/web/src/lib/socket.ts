@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import type { ClientToServerEvents, ServerToClientEvents } from '@quiz-battle/shared';
+import { serverClock } from './clock-sync';
 
 export type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
@@ -11,23 +12,37 @@ class SocketManager {
     this.url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
   }
 
-  connect(): TypedSocket {
+  // The token is read on every (re)connect so a refreshed session is picked up
+  connect(getSessionToken: () => string | null): TypedSocket {
     if (this.socket?.connected) {
       return this.socket;
     }
 
-    this.socket = io(this.url, {
+    const socket = io(this.url, {
       transports: ['websocket', 'polling'],
+      auth: (cb) => cb({ token: getSessionToken() }),
     }) as TypedSocket;
+    this.socket = socket;
 
+    // Re-measure the clock offset on every (re)connect, the route may have changed
     this.socket.on('connect', () => {
       console.log('🔌 Connected to server');
+      serverClock.sync(socket);
     });
 
+    this.socket.on('clock-sync-pong', (data) => serverClock.handlePong(socket, data));
+
+    // The server times our round trip for answer compensation; echo at once
+    this.socket.on('latency-probe', (data) => socket.emit('latency-probe-echo', data));
+
     this.socket.on('disconnect', () => {
       console.log('🔌 Disconnected from server');
     });
 
+    this.socket.on('connect_error', (error) => {
+      console.error('🔌 Connection rejected:', error.message);
+    });
+
     this.socket.on('error', (error) => {
       console.error('🔌 Socket error:', error);
     });
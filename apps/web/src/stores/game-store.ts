@@ -1,23 +1,33 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { Game, Question, Player } from '@quiz-battle/shared';
-import { generatePlayerId } from '@quiz-battle/shared';
+import type { Game, Question, Player, PlayerSession, SubmittedAnswer } from '@quiz-battle/shared';
+import { GAME_CONFIG } from '@quiz-battle/shared';
+
+const SESSION_STORAGE_KEY = 'quiz-battle-session';
+const LEGACY_PLAYER_ID_KEY = 'quiz-battle-player-id'; // Guest id from before signed sessions
 
 interface GameState {
-  // Player
+  // Player, issued by the server together with the token that proves it
   playerId: string;
+  sessionToken: string | null;
   
   // Current game
   currentGame: Game | null;
   currentQuestion: Question | null;
   currentQuestionIndex: number;
   timeRemaining: number;
+  questionTimeLimit: number;
+  questionDeadline: number | null; // On the local clock; null while no countdown runs
   
   // Game state
   isInMatchmaking: boolean;
   isWaitingForOpponent: boolean;
+  matchmakingError: string | null;
   hasAnswered: boolean;
+  selectedAnswer: SubmittedAnswer | null;
   opponentHasAnswered: boolean;
+  opponentDisconnected: boolean;
+  isPaused: boolean;
   
   // Scores
   playerScore: number;
@@ -28,13 +38,20 @@ interface GameState {
   winner: string | null;
   
   // Actions
-  setPlayerId: (id: string) => void;
+  setSession: (session: PlayerSession) => void;
+  clearSession: () => void;
   setCurrentGame: (game: Game | null) => void;
   setCurrentQuestion: (question: Question | null, index: number) => void;
   setTimeRemaining: (time: number) => void;
+  setQuestionTimeLimit: (seconds: number) => void;
+  setQuestionDeadline: (deadline: number | null) => void;
   setMatchmaking: (inMatchmaking: boolean) => void;
   setWaitingForOpponent: (waiting: boolean) => void;
+  setMatchmakingError: (error: string | null) => void;
   setHasAnswered: (answered: boolean) => void;
+  setSelectedAnswer: (answer: SubmittedAnswer | null) => void;
+  setOpponentDisconnected: (disconnected: boolean) => void;
+  setPaused: (paused: boolean) => void;
   setOpponentAnswered: (answered: boolean) => void;
   updateScores: (player: number, opponent: number) => void;
   setGameCompleted: (completed: boolean, winner: string | null) => void;
@@ -45,21 +62,41 @@ export const useGameStore = create<GameState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
     playerId: '',
+    sessionToken: null,
     currentGame: null,
     currentQuestion: null,
     currentQuestionIndex: 0,
-    timeRemaining: 10,
+    timeRemaining: GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS,
+    questionTimeLimit: GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS,
+    questionDeadline: null,
     isInMatchmaking: false,
     isWaitingForOpponent: false,
+    matchmakingError: null,
     hasAnswered: false,
+    selectedAnswer: null,
     opponentHasAnswered: false,
+    opponentDisconnected: false,
+    isPaused: false,
     playerScore: 0,
     opponentScore: 0,
     gameCompleted: false,
     winner: null,
 
     // Actions
-    setPlayerId: (id: string) => set({ playerId: id }),
+    setSession: (session: PlayerSession) => {
+      if (typeof window !== 'undefined') {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+        localStorage.removeItem(LEGACY_PLAYER_ID_KEY);
+      }
+      set({ playerId: session.playerId, sessionToken: session.token });
+    },
+
+    clearSession: () => {
+      if (typeof window !== 'undefined') {
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+      }
+      set({ playerId: '', sessionToken: null });
+    },
     
     setCurrentGame: (game: Game | null) => set({ currentGame: game }),
     
@@ -68,18 +105,31 @@ export const useGameStore = create<GameState>()(
         currentQuestion: question, 
         currentQuestionIndex: index,
         hasAnswered: false,
+        selectedAnswer: null,
         opponentHasAnswered: false,
-        timeRemaining: 10
+        timeRemaining: get().questionTimeLimit
       }),
     
     setTimeRemaining: (time: number) => set({ timeRemaining: time }),
     
+    setQuestionTimeLimit: (seconds: number) => set({ questionTimeLimit: seconds }),
+    
+    setQuestionDeadline: (deadline: number | null) => set({ questionDeadline: deadline }),
+    
     setMatchmaking: (inMatchmaking: boolean) => set({ isInMatchmaking: inMatchmaking }),
     
     setWaitingForOpponent: (waiting: boolean) => set({ isWaitingForOpponent: waiting }),
     
+    setMatchmakingError: (error: string | null) => set({ matchmakingError: error }),
+    
     setHasAnswered: (answered: boolean) => set({ hasAnswered: answered }),
     
+    setSelectedAnswer: (answer: SubmittedAnswer | null) => set({ selectedAnswer: answer }),
+    
+    setOpponentDisconnected: (disconnected: boolean) => set({ opponentDisconnected: disconnected }),
+    
+    setPaused: (paused: boolean) => set({ isPaused: paused }),
+    
     setOpponentAnswered: (answered: boolean) => set({ opponentHasAnswered: answered }),
     
     updateScores: (player1Score: number, player2Score: number) => {
@@ -100,11 +150,17 @@ export const useGameStore = create<GameState>()(
       currentGame: null,
       currentQuestion: null,
       currentQuestionIndex: 0,
-      timeRemaining: 10,
+      timeRemaining: GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS,
+      questionTimeLimit: GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS,
+      questionDeadline: null,
       isInMatchmaking: false,
       isWaitingForOpponent: false,
+      matchmakingError: null,
       hasAnswered: false,
+      selectedAnswer: null,
       opponentHasAnswered: false,
+      opponentDisconnected: false,
+      isPaused: false,
       playerScore: 0,
       opponentScore: 0,
       gameCompleted: false,
@@ -113,14 +169,15 @@ export const useGameStore = create<GameState>()(
   }))
 );
 
-// Initialize player ID on store creation
+// Restore the stored session on store creation; the providers refresh it with the server
 if (typeof window !== 'undefined') {
-  const storedPlayerId = localStorage.getItem('quiz-battle-player-id');
-  if (storedPlayerId) {
-    useGameStore.getState().setPlayerId(storedPlayerId);
-  } else {
-    const newPlayerId = generatePlayerId();
-    localStorage.setItem('quiz-battle-player-id', newPlayerId);
-    useGameStore.getState().setPlayerId(newPlayerId);
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session = stored ? JSON.parse(stored) as PlayerSession : null;
+    if (session && session.expiresAt > Date.now()) {
+      useGameStore.setState({ playerId: session.playerId, sessionToken: session.token });
+    }
+  } catch {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
   }
-}
\ No newline at end of file
+}
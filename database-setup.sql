@@ -10,7 +10,23 @@ CREATE TABLE IF NOT EXISTS themes (
     name TEXT NOT NULL UNIQUE,
     description TEXT,
     is_active BOOLEAN NOT NULL DEFAULT true,
-    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create question templates (text with {variables} plus the data table that fills them)
+CREATE TABLE IF NOT EXISTS question_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    theme_id UUID NOT NULL REFERENCES themes(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    text_template TEXT NOT NULL,
+    answer_variable TEXT NOT NULL,
+    distractor_group_by TEXT,
+    variables JSONB NOT NULL,
+    difficulty TEXT NOT NULL DEFAULT 'medium',
+    rows JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
 
 -- Create questions table
@@ -21,9 +37,29 @@ CREATE TABLE IF NOT EXISTS questions (
     options JSONB NOT NULL,
     correct_answer INTEGER NOT NULL,
     difficulty TEXT NOT NULL DEFAULT 'medium',
-    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    template_id UUID REFERENCES question_templates(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Question bank columns added after the first release (soft delete and retiring questions)
+ALTER TABLE themes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES question_templates(id) ON DELETE SET NULL; -- Set on generated questions
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS random_key DOUBLE PRECISION NOT NULL DEFAULT random(); -- Sampling key, filled per existing row
+
+-- Question types: existing rows are four-option multiple choice. correct_answer
+-- holds an option index, or the value itself for numeric questions.
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'multiple_choice'; -- multiple_choice, true_false, numeric or short_answer
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS accepted_answers JSONB; -- Short answer questions only
+ALTER TABLE questions ALTER COLUMN correct_answer TYPE DOUBLE PRECISION;
+
+-- Optional image or audio clip: kind, url, mimeType, sizeBytes and altText. The
+-- file itself lives in media storage (MEDIA_DIR for the local adapter).
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS media JSONB;
+
 -- Create games table
 CREATE TABLE IF NOT EXISTS games (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -35,10 +71,26 @@ CREATE TABLE IF NOT EXISTS games (
     player1_score INTEGER NOT NULL DEFAULT 0,
     player2_score INTEGER NOT NULL DEFAULT 0,
     current_question_index INTEGER NOT NULL DEFAULT 0,
+    question_deadline TIMESTAMP WITH TIME ZONE,
+    question_time_limit INTEGER DEFAULT 10,
+    total_questions INTEGER DEFAULT 5,
+    rules JSONB,
+    is_private BOOLEAN NOT NULL DEFAULT false,
+    mode TEXT NOT NULL DEFAULT 'multiplayer',
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     completed_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Columns added after the first release
+ALTER TABLE games ADD COLUMN IF NOT EXISTS question_deadline TIMESTAMP WITH TIME ZONE;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS question_time_limit INTEGER DEFAULT 10;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS total_questions INTEGER DEFAULT 5;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS rules JSONB; -- Per-game rules (question count, time limit, difficulties, theme mix)
+ALTER TABLE games ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false; -- Only reachable through an invite code
+ALTER TABLE games ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'multiplayer'; -- 'multiplayer' or solo 'practice'
+ALTER TABLE games ADD COLUMN IF NOT EXISTS question_ids JSONB; -- Questions chosen when the game started, so it can be recovered after a restart
+ALTER TABLE games ADD COLUMN IF NOT EXISTS question_started_at TIMESTAMP WITH TIME ZONE; -- Start of the current question, NULL between questions
+
 -- Create answers table
 CREATE TABLE IF NOT EXISTS answers (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -51,13 +103,213 @@ CREATE TABLE IF NOT EXISTS answers (
     answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
 
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS answer_text TEXT; -- Numeric and short answers as typed
+ALTER TABLE answers ADD COLUMN IF NOT EXISTS points_earned INTEGER; -- Points the answer scored, NULL until scored; feeds the match replay score timeline
+
+-- Create archive tables (finished games past the retention window are moved here)
+CREATE TABLE IF NOT EXISTS games_archive (
+    id UUID PRIMARY KEY,
+    player1_id TEXT NOT NULL,
+    player2_id TEXT,
+    theme_id UUID,
+    status TEXT NOT NULL,
+    winner_id TEXT,
+    player1_score INTEGER NOT NULL,
+    player2_score INTEGER NOT NULL,
+    current_question_index INTEGER NOT NULL,
+    question_deadline TIMESTAMP WITH TIME ZONE,
+    question_time_limit INTEGER,
+    total_questions INTEGER,
+    rules JSONB,
+    is_private BOOLEAN NOT NULL DEFAULT false,
+    mode TEXT NOT NULL DEFAULT 'multiplayer',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    archived_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Keep the archive in step with the games columns added above
+ALTER TABLE games_archive ADD COLUMN IF NOT EXISTS rules JSONB;
+ALTER TABLE games_archive ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE games_archive ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'multiplayer';
+ALTER TABLE games_archive ADD COLUMN IF NOT EXISTS question_ids JSONB;
+ALTER TABLE games_archive ADD COLUMN IF NOT EXISTS question_started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS answers_archive (
+    id UUID PRIMARY KEY,
+    game_id UUID NOT NULL,
+    player_id TEXT NOT NULL,
+    question_id UUID NOT NULL,
+    selected_answer INTEGER,
+    is_correct BOOLEAN,
+    response_time_ms INTEGER,
+    answered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    archived_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE answers_archive ADD COLUMN IF NOT EXISTS answer_text TEXT;
+ALTER TABLE answers_archive ADD COLUMN IF NOT EXISTS points_earned INTEGER;
+
+-- Create invite codes for private games
+CREATE TABLE IF NOT EXISTS game_invites (
+    code TEXT PRIMARY KEY,
+    game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+    created_by TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_by TEXT,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create registered accounts (player_id is the id the player had as a guest)
+CREATE TABLE IF NOT EXISTS accounts (
+    player_id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    display_name TEXT NOT NULL,
+    avatar_url TEXT,
+    role TEXT NOT NULL DEFAULT 'player', -- 'player' or 'admin'
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'player';
+
+-- Create question bank audit log (one row per admin change)
+CREATE TABLE IF NOT EXISTS audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id UUID NOT NULL,
+    before JSONB,
+    after JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create player stats projection (one row per player, theme and UTC day)
+CREATE TABLE IF NOT EXISTS player_stats (
+    player_id TEXT NOT NULL,
+    theme_id UUID NOT NULL REFERENCES themes(id),
+    stat_date DATE NOT NULL,
+    games_played INTEGER NOT NULL DEFAULT 0,
+    games_won INTEGER NOT NULL DEFAULT 0,
+    games_lost INTEGER NOT NULL DEFAULT 0,
+    games_tied INTEGER NOT NULL DEFAULT 0,
+    total_score INTEGER NOT NULL DEFAULT 0,
+    best_score INTEGER NOT NULL DEFAULT 0,
+    total_answers INTEGER NOT NULL DEFAULT 0,
+    correct_answers INTEGER NOT NULL DEFAULT 0,
+    total_response_time_ms INTEGER NOT NULL DEFAULT 0,
+    fastest_response_ms INTEGER,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (player_id, theme_id, stat_date)
+);
+
+-- Create question exposures (last time each player was served each question)
+CREATE TABLE IF NOT EXISTS question_exposures (
+    player_id TEXT NOT NULL,
+    question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    times_seen INTEGER NOT NULL DEFAULT 1,
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (player_id, question_id)
+);
+
+-- Create question stats (answer statistics and calibrated difficulty per question)
+CREATE TABLE IF NOT EXISTS question_stats (
+    question_id UUID PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    correct_answers INTEGER NOT NULL DEFAULT 0,
+    median_response_ms INTEGER,
+    difficulty_score DOUBLE PRECISION NOT NULL,
+    calibrated_difficulty TEXT, -- NULL until enough answers, the hand-set label is used meanwhile
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create leaderboard standings (period is DAY/WEEK/MONTH/ALL, scope is 'global' or a theme id)
+CREATE TABLE IF NOT EXISTS leaderboard_entries (
+    period TEXT NOT NULL,
+    period_start DATE NOT NULL,
+    scope TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    score INTEGER NOT NULL DEFAULT 0,
+    games_played INTEGER NOT NULL DEFAULT 0,
+    games_won INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (period, period_start, scope, player_id)
+);
+
+-- Create skill ratings (Glicko-2, scope is 'global' or a theme id)
+CREATE TABLE IF NOT EXISTS player_ratings (
+    player_id TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    rating DOUBLE PRECISION NOT NULL,
+    rating_deviation DOUBLE PRECISION NOT NULL,
+    volatility DOUBLE PRECISION NOT NULL,
+    games_played INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (player_id, scope)
+);
+
+CREATE TABLE IF NOT EXISTS rating_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    player_id TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    game_id UUID NOT NULL,
+    opponent_id TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    rating_before DOUBLE PRECISION NOT NULL,
+    rating_after DOUBLE PRECISION NOT NULL,
+    rating_deviation_before DOUBLE PRECISION NOT NULL,
+    rating_deviation_after DOUBLE PRECISION NOT NULL,
+    volatility DOUBLE PRECISION NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create the event store (append-only domain events per aggregate, plus snapshots)
+CREATE TABLE IF NOT EXISTS domain_events (
+    position BIGSERIAL PRIMARY KEY,
+    event_id UUID NOT NULL UNIQUE,
+    aggregate_id TEXT NOT NULL,
+    aggregate_type TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    event_version INTEGER NOT NULL,
+    payload JSONB NOT NULL,
+    metadata JSONB NOT NULL,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS aggregate_snapshots (
+    aggregate_id TEXT PRIMARY KEY,
+    aggregate_type TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_themes_active ON themes(is_active);
 CREATE INDEX IF NOT EXISTS idx_questions_theme_id ON questions(theme_id);
+CREATE INDEX IF NOT EXISTS idx_questions_theme_difficulty ON questions(theme_id, difficulty);
+CREATE INDEX IF NOT EXISTS idx_questions_template_id ON questions(template_id);
+CREATE INDEX IF NOT EXISTS idx_questions_theme_random_key ON questions(theme_id, random_key);
 CREATE INDEX IF NOT EXISTS idx_games_status ON games(status);
 CREATE INDEX IF NOT EXISTS idx_games_theme_id ON games(theme_id);
 CREATE INDEX IF NOT EXISTS idx_answers_game_id ON answers(game_id);
 CREATE INDEX IF NOT EXISTS idx_answers_player_id ON answers(player_id);
+CREATE INDEX IF NOT EXISTS idx_answers_question_id ON answers(question_id);
+CREATE INDEX IF NOT EXISTS idx_games_status_completed_at ON games(status, completed_at);
+CREATE INDEX IF NOT EXISTS idx_games_archive_player1_id ON games_archive(player1_id);
+CREATE INDEX IF NOT EXISTS idx_games_archive_player2_id ON games_archive(player2_id);
+CREATE INDEX IF NOT EXISTS idx_answers_archive_game_id ON answers_archive(game_id);
+CREATE INDEX IF NOT EXISTS idx_answers_archive_question_id ON answers_archive(question_id);
+CREATE INDEX IF NOT EXISTS idx_games_player1_id ON games(player1_id);
+CREATE INDEX IF NOT EXISTS idx_games_player2_id ON games(player2_id);
+CREATE INDEX IF NOT EXISTS idx_game_invites_game_id ON game_invites(game_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_rating_history_player ON rating_history(player_id, scope, created_at);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_ranking ON leaderboard_entries(period, period_start, scope, score DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_domain_events_aggregate_version ON domain_events(aggregate_id, event_version);
+CREATE INDEX IF NOT EXISTS idx_domain_events_type ON domain_events(event_type, occurred_at);
 
 -- Insert sample themes
 INSERT INTO themes (id, name, description, is_active) VALUES
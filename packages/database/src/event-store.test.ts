@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { inArray, lte, and, eq } from 'drizzle-orm';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Advanced, Domain } from '@quiz-battle/shared';
+
+const { EventSourcedGameRepository, ConcurrencyError, gameEventSerializer } = Advanced.EventSourcing;
+
+const QUESTION_TIME_LIMIT_MS = 10_000;
+
+// A started game between two players, with nothing saved yet
+function startGame(questionIds: string[]): Domain.Game {
+  const game = Domain.Game.create(Domain.PlayerId.generate(), randomUUID());
+  game.addPlayer2(Domain.PlayerId.generate());
+  game.start(questionIds);
+  return game;
+}
+
+// Both players answer the current question, the host correctly; 4 events
+function playQuestion(game: Domain.Game, questionId: string): void {
+  game.startQuestion(questionId, QUESTION_TIME_LIMIT_MS);
+  const players = [game.getPlayer1Id(), game.getPlayer2Id()!];
+  players.forEach((playerId, index) => {
+    const isCorrect = index === 0;
+    game.recordAnswer(new Domain.Answer(
+      randomUUID(),
+      game.getId(),
+      playerId,
+      questionId,
+      Domain.AnswerIndex.create(isCorrect ? 1 : 0),
+      isCorrect,
+      Domain.ResponseTime.create(2_000),
+      new Date()
+    ), isCorrect ? 1000 : 0);
+  });
+  game.completeQuestion(questionId, 1);
+}
+
+// What a rebuilt game has to match
+function stateOf(game: Domain.Game) {
+  const { createdAt, ...state } = game.toSnapshot();
+  return { ...state, version: game.version };
+}
+
+// Runs only when DATABASE_URL is set in the environment, like repositories.test.ts.
+// Every stream it writes belongs to a game id of its own, deleted afterwards.
+describe.skipIf(!process.env.DATABASE_URL)('DatabaseEventStore with EventSourcedGameRepository', () => {
+  // Imported lazily: the connection module throws without DATABASE_URL
+  let database: typeof import('./index');
+  const gameIds: string[] = [];
+
+  function createRepository(snapshotFrequency: number) {
+    const { DatabaseEventStore, DatabaseSnapshotStore } = database;
+    const eventStore = new DatabaseEventStore(gameEventSerializer);
+    const snapshotStore = new DatabaseSnapshotStore();
+    return {
+      eventStore,
+      snapshotStore,
+      repository: new EventSourcedGameRepository(eventStore, snapshotStore, snapshotFrequency),
+    };
+  }
+
+  function track(game: Domain.Game): Domain.Game {
+    gameIds.push(game.id);
+    return game;
+  }
+
+  beforeAll(async () => {
+    database = await import('./index');
+  });
+
+  afterAll(async () => {
+    if (!database) return;
+    const { db, domainEvents, aggregateSnapshots } = database;
+    if (gameIds.length > 0) {
+      await db.delete(domainEvents).where(inArray(domainEvents.aggregateId, gameIds));
+      await db.delete(aggregateSnapshots).where(inArray(aggregateSnapshots.aggregateId, gameIds));
+    }
+    await db.$client.end();
+  });
+
+  it('rebuilds a game from its events alone', async () => {
+    const { repository, eventStore, snapshotStore } = createRepository(100);
+    const questionIds = [randomUUID(), randomUUID()];
+    const game = track(startGame(questionIds));
+    questionIds.forEach(questionId => playQuestion(game, questionId));
+    game.complete();
+
+    await repository.save(game, 0);
+
+    expect(game.version).toBe(12);
+    expect(game.uncommittedEvents).toHaveLength(0);
+    expect(await snapshotStore.getSnapshot(game.id)).toBeNull();
+    expect((await eventStore.getEvents(game.id)).map(event => event.eventVersion))
+      .toEqual(Array.from({ length: 12 }, (_, index) => index + 1));
+
+    const rebuilt = await repository.getById(game.id);
+    expect(stateOf(rebuilt!)).toEqual(stateOf(game));
+    expect(rebuilt!.isCompleted()).toBe(true);
+    expect(rebuilt!.getWinnerId()?.getValue()).toBe(game.getPlayer1Id().getValue());
+    expect(rebuilt!.getPlayer1Score().getValue()).toBe(2000);
+  });
+
+  it('rebuilds a game from its latest snapshot and the events after it', async () => {
+    const { db, domainEvents } = database;
+    const { repository, snapshotStore } = createRepository(5);
+    const questionIds = [randomUUID(), randomUUID(), randomUUID()];
+    const game = track(startGame(questionIds));
+
+    // 7 events pass the first multiple of 5, so this save takes a snapshot
+    playQuestion(game, questionIds[0]);
+    await repository.save(game, 0);
+    expect((await snapshotStore.getSnapshot(game.id))?.version).toBe(7);
+
+    // 7 + 2 stays below 10, so the next events are only in the stream
+    game.startQuestion(questionIds[1], QUESTION_TIME_LIMIT_MS);
+    game.recordAnswer(new Domain.Answer(
+      randomUUID(),
+      game.getId(),
+      game.getPlayer2Id()!,
+      questionIds[1],
+      Domain.AnswerIndex.create(1),
+      true,
+      Domain.ResponseTime.create(4_000),
+      new Date()
+    ), 1000);
+    await repository.save(game, 7);
+    expect((await snapshotStore.getSnapshot(game.id))?.version).toBe(7);
+
+    // Without the events the snapshot covers, only the snapshot can rebuild the game
+    await db.delete(domainEvents).where(and(eq(domainEvents.aggregateId, game.id), lte(domainEvents.eventVersion, 7)));
+
+    const rebuilt = await repository.getById(game.id);
+    expect(stateOf(rebuilt!)).toEqual(stateOf(game));
+    expect(rebuilt!.canPlayerAnswer(game.getPlayer2Id()!)).toBe(false);
+    expect(rebuilt!.canPlayerAnswer(game.getPlayer1Id())).toBe(true);
+  });
+
+  it('refuses to save events on top of a version it did not load', async () => {
+    const { repository, eventStore } = createRepository(100);
+    const questionIds = [randomUUID()];
+    const game = track(startGame(questionIds));
+    await repository.save(game, 0);
+
+    // Two copies of the same game change it independently
+    const first = (await repository.getById(game.id))!;
+    const second = (await repository.getById(game.id))!;
+    first.startQuestion(questionIds[0], QUESTION_TIME_LIMIT_MS);
+    second.cancel('Abandoned');
+
+    await repository.save(first, 3);
+    const stale = repository.save(second, 3);
+    await expect(stale).rejects.toBeInstanceOf(ConcurrencyError);
+    await expect(stale).rejects.toMatchObject({ aggregateId: game.id, expectedVersion: 3, actualVersion: 4 });
+
+    // Only the first change was saved, and the second can still be retried
+    expect((await eventStore.getEvents(game.id)).map(event => event.eventType))
+      .toEqual(['GameCreated', 'PlayerJoinedGame', 'GameStarted', 'QuestionStarted']);
+    expect(second.uncommittedEvents).toHaveLength(1);
+  });
+
+  it('lets only one of two simultaneous saves at the same version through', async () => {
+    const { repository, eventStore } = createRepository(100);
+    const game = track(startGame([randomUUID()]));
+    await repository.save(game, 0);
+
+    const copies = [(await repository.getById(game.id))!, (await repository.getById(game.id))!];
+    copies.forEach(copy => copy.cancel('Abandoned'));
+
+    const results = await Promise.allSettled(copies.map(copy => repository.save(copy, 3)));
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected.reason).toBeInstanceOf(ConcurrencyError);
+    expect(await eventStore.getEvents(game.id)).toHaveLength(4);
+  });
+});
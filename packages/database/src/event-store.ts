@@ -0,0 +1,138 @@
+import { and, asc, eq, gt, gte, sql } from 'drizzle-orm';
+import { Advanced, Domain } from '@quiz-battle/shared';
+import { db } from './connection';
+import { domainEvents, aggregateSnapshots } from './schema';
+
+type EventEnvelope = Advanced.EventSourcing.EventEnvelope;
+type EventMetadata = Advanced.EventSourcing.EventMetadata;
+type EventSerializer = Advanced.EventSourcing.EventSerializer;
+type Snapshot = Advanced.EventSourcing.Snapshot;
+
+const UNIQUE_VIOLATION = '23505';
+
+// Domain events in Postgres, with optimistic concurrency on the aggregate version:
+// saving fails with ConcurrencyError unless the stream is still at expectedVersion.
+export class DatabaseEventStore implements Advanced.EventSourcing.EventStore {
+  constructor(private readonly serializer: EventSerializer) {}
+
+  async saveEvents(
+    aggregateId: string,
+    aggregateType: string,
+    events: Domain.DomainEvent[],
+    expectedVersion: number,
+    metadata: EventMetadata = { source: 'quiz-battle' }
+  ): Promise<void> {
+    if (events.length === 0) return;
+
+    const actualVersion = await this.getVersion(aggregateId);
+    if (actualVersion !== expectedVersion) {
+      throw new Advanced.EventSourcing.ConcurrencyError(aggregateId, expectedVersion, actualVersion);
+    }
+
+    try {
+      await db.insert(domainEvents).values(events.map((event, index) => ({
+        eventId: event.eventId,
+        aggregateId,
+        aggregateType,
+        eventType: event.getEventName(),
+        eventVersion: expectedVersion + index + 1,
+        payload: JSON.parse(this.serializer.serialize(event)),
+        metadata,
+        occurredAt: event.occurredOn,
+      })));
+    } catch (error) {
+      // Another writer appended the same version between the check and the insert
+      if (isUniqueViolation(error)) {
+        throw new Advanced.EventSourcing.ConcurrencyError(aggregateId, expectedVersion, await this.getVersion(aggregateId));
+      }
+      throw error;
+    }
+  }
+
+  async getEvents(aggregateId: string, fromVersion: number = 1): Promise<EventEnvelope[]> {
+    const rows = await db
+      .select()
+      .from(domainEvents)
+      .where(and(eq(domainEvents.aggregateId, aggregateId), gte(domainEvents.eventVersion, fromVersion)))
+      .orderBy(asc(domainEvents.eventVersion));
+    return rows.map(toEnvelope);
+  }
+
+  // fromPosition is exclusive: pass the position of the last event already processed
+  async getAllEvents(fromPosition: number = 0, batchSize: number = 500): Promise<EventEnvelope[]> {
+    const rows = await db
+      .select()
+      .from(domainEvents)
+      .where(gt(domainEvents.position, fromPosition))
+      .orderBy(asc(domainEvents.position))
+      .limit(batchSize);
+    return rows.map(toEnvelope);
+  }
+
+  async getEventsByType(eventType: string, fromTimestamp?: Date): Promise<EventEnvelope[]> {
+    const rows = await db
+      .select()
+      .from(domainEvents)
+      .where(and(
+        eq(domainEvents.eventType, eventType),
+        fromTimestamp ? gte(domainEvents.occurredAt, fromTimestamp) : undefined
+      ))
+      .orderBy(asc(domainEvents.position));
+    return rows.map(toEnvelope);
+  }
+
+  private async getVersion(aggregateId: string): Promise<number> {
+    const [row] = await db
+      .select({ version: sql<number>`coalesce(max(${domainEvents.eventVersion}), 0)`.mapWith(Number) })
+      .from(domainEvents)
+      .where(eq(domainEvents.aggregateId, aggregateId));
+    return row?.version ?? 0;
+  }
+}
+
+// Keeps only the latest snapshot of each aggregate
+export class DatabaseSnapshotStore implements Advanced.EventSourcing.SnapshotStore {
+  async saveSnapshot(aggregateId: string, aggregateType: string, version: number, data: any): Promise<void> {
+    await db
+      .insert(aggregateSnapshots)
+      .values({ aggregateId, aggregateType, version, data, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: aggregateSnapshots.aggregateId,
+        set: { version, data, createdAt: new Date() },
+        // A slower writer must not replace a newer snapshot
+        setWhere: sql`${aggregateSnapshots.version} < ${version}`,
+      });
+  }
+
+  async getSnapshot(aggregateId: string): Promise<Snapshot | null> {
+    const [row] = await db.select().from(aggregateSnapshots).where(eq(aggregateSnapshots.aggregateId, aggregateId));
+    if (!row) return null;
+    return {
+      aggregateId: row.aggregateId,
+      aggregateType: row.aggregateType,
+      version: row.version,
+      data: row.data,
+      timestamp: row.createdAt,
+    };
+  }
+}
+
+function toEnvelope(row: typeof domainEvents.$inferSelect): EventEnvelope {
+  return {
+    eventId: row.eventId,
+    aggregateId: row.aggregateId,
+    aggregateType: row.aggregateType,
+    eventType: row.eventType,
+    eventVersion: row.eventVersion,
+    payload: row.payload,
+    metadata: row.metadata,
+    timestamp: row.occurredAt,
+    position: row.position,
+  };
+}
+
+// Drizzle wraps driver errors, keeping the Postgres error as the cause
+function isUniqueViolation(error: unknown): boolean {
+  const { code, cause } = error as { code?: string; cause?: { code?: string } };
+  return code === UNIQUE_VIOLATION || cause?.code === UNIQUE_VIOLATION;
+}
@@ -1,4 +1,5 @@
 export * from './schema';
 export * from './connection';
 export * from './queries';
-export * from './repositories';
\ No newline at end of file
+export * from './repositories';
+export * from './event-store';
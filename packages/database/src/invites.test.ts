@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const INVITE_LIFETIME_MS = 15 * 60 * 1000;
+
+// Runs only when DATABASE_URL is set in the environment, like repositories.test.ts.
+// Every row it creates belongs to a throwaway inactive theme; invites go with their games.
+describe.skipIf(!process.env.DATABASE_URL)('DatabaseGameInviteRepository.redeemInvite', () => {
+  // Imported lazily: the connection module throws without DATABASE_URL
+  let database: typeof import('./index');
+  let themeId: string | undefined;
+
+  beforeAll(async () => {
+    database = await import('./index');
+    const [theme] = await database.db
+      .insert(database.themes)
+      .values({ name: `Invites ${randomUUID()}`, isActive: false })
+      .returning();
+    themeId = theme.id;
+  });
+
+  afterAll(async () => {
+    if (!database) return;
+    const { db, games, themes } = database;
+    if (themeId) {
+      await db.delete(games).where(eq(games.themeId, themeId));
+      await db.delete(themes).where(eq(themes.id, themeId));
+    }
+    await db.$client.end();
+  });
+
+  async function createInvitedGame() {
+    const { DatabaseGameRepository, DatabaseGameInviteRepository } = database;
+    const hostId = randomUUID();
+    const game = await new DatabaseGameRepository().createGame({ id: randomUUID(), player1Id: hostId, themeId: themeId!, isPrivate: true });
+    const invite = await new DatabaseGameInviteRepository().createInvite({
+      code: randomUUID().slice(0, 8).toUpperCase(),
+      gameId: game.id,
+      createdBy: hostId,
+      expiresAt: new Date(Date.now() + INVITE_LIFETIME_MS),
+    });
+    return { game, invite };
+  }
+
+  it('seats the player and uses up the invite', async () => {
+    const { DatabaseGameInviteRepository } = database;
+    const inviteRepository = new DatabaseGameInviteRepository();
+    const { game, invite } = await createInvitedGame();
+    const playerId = randomUUID();
+
+    const joined = await inviteRepository.redeemInvite(invite.code, playerId);
+    expect(joined).toMatchObject({ id: game.id, player2Id: playerId });
+    expect(await inviteRepository.getInviteByCode(invite.code)).toMatchObject({ usedBy: playerId });
+
+    expect(await inviteRepository.redeemInvite(invite.code, randomUUID())).toBeNull();
+  });
+
+  it('leaves the invite unused when the seat is already taken', async () => {
+    const { DatabaseGameRepository, DatabaseGameInviteRepository } = database;
+    const inviteRepository = new DatabaseGameInviteRepository();
+    const { game, invite } = await createInvitedGame();
+    await new DatabaseGameRepository().joinWaitingGame(game.id, randomUUID());
+
+    expect(await inviteRepository.redeemInvite(invite.code, randomUUID())).toBeNull();
+    expect(await inviteRepository.getInviteByCode(invite.code)).toMatchObject({ usedBy: null, usedAt: null });
+  });
+});
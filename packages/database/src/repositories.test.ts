@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Runs only when DATABASE_URL is set in the environment, so a plain `npm test`
+// never writes to the database configured in packages/database/.env. Every row
+// it creates belongs to a throwaway inactive theme, deleted with its games afterwards.
+const OPEN_GAMES = 20;
+const JOINING_PLAYERS = OPEN_GAMES * 3;
+
+describe.skipIf(!process.env.DATABASE_URL)('DatabaseGameRepository.claimWaitingGame', () => {
+  // Imported lazily: the connection module throws without DATABASE_URL
+  let database: typeof import('./index');
+  let themeId: string | undefined;
+
+  beforeAll(async () => {
+    database = await import('./index');
+    const [theme] = await database.db
+      .insert(database.themes)
+      .values({ name: `Matchmaking race ${randomUUID()}`, isActive: false })
+      .returning();
+    themeId = theme.id;
+  });
+
+  afterAll(async () => {
+    if (!database) return;
+    const { db, games, themes } = database;
+    if (themeId) {
+      // Answers go with their games
+      await db.delete(games).where(eq(games.themeId, themeId));
+      await db.delete(themes).where(eq(themes.id, themeId));
+    }
+    await db.$client.end();
+  });
+
+  it('gives each open game to exactly one of many simultaneous joins', async () => {
+    const { db, games, DatabaseGameRepository } = database;
+    const gameRepository = new DatabaseGameRepository();
+    const theme = themeId!;
+
+    const gameIds: string[] = [];
+    for (let i = 0; i < OPEN_GAMES; i++) {
+      const game = await gameRepository.createGame({ id: randomUUID(), player1Id: randomUUID(), themeId: theme });
+      gameIds.push(game.id);
+    }
+
+    // Everyone joins at once, more players than there are seats
+    const claims = await Promise.all(
+      Array.from({ length: JOINING_PLAYERS }, async () => {
+        const playerId = randomUUID();
+        return { playerId, game: await gameRepository.claimWaitingGame(theme, playerId) };
+      })
+    );
+
+    const claimed = claims.filter(claim => claim.game !== null);
+    expect(claimed.map(claim => claim.game!.id).sort()).toEqual([...gameIds].sort());
+
+    // The stored rows agree with what the claimers were told
+    const rows = await db.select().from(games).where(eq(games.themeId, theme));
+    expect(rows).toHaveLength(OPEN_GAMES);
+    for (const row of rows) {
+      const claim = claimed.find(({ game }) => game!.id === row.id);
+      expect(row.player2Id).toBe(claim?.playerId);
+      expect(row.player2Id).not.toBe(row.player1Id);
+    }
+  }, 60_000);
+});
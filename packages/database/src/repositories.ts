@@ -1,6 +1,6 @@
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, ne, and, desc, inArray, notInArray, isNull, isNotNull, lt, gt, gte, or, sql, getTableColumns, SQL, TransactionRollbackError } from 'drizzle-orm';
 import { db } from './connection';
-import { themes, questions, games, answers } from './schema';
+import { themes, questionTemplates, questions, games, answers, gamesArchive, answersArchive, gameInvites, accounts, auditLog, questionExposures, questionStats, playerStats, leaderboardEntries, playerRatings, ratingHistory } from './schema';
 import {
   Game,
   Question,
@@ -10,13 +10,69 @@ import {
   QuestionRepository,
   AnswerRepository,
   ThemeRepository,
-  GameStatus
+  GameInviteRepository,
+  GameInvite,
+  AccountRepository,
+  Account,
+  PlayerProfile,
+  QuestionBankRepository,
+  QuestionBankFilter,
+  AdminTheme,
+  AdminQuestion,
+  QuestionTemplateRepository,
+  QuestionTemplate,
+  AuditLogRepository,
+  AuditLogEntry,
+  AuditEntityType,
+  QUESTION_EXPOSURE_CONFIG,
+  QuestionDifficultyReportEntry,
+  QuestionDifficultyReportFilter,
+  BOT_PROFILES,
+  calculateDifficultyScore,
+  calibrateDifficulty,
+  PlayerStatsRepository,
+  PlayerStatsTotals,
+  PlayerThemeStats,
+  PlayerGameSummary,
+  MatchRecord,
+  GameOutcome,
+  GameStatus,
+  GameRules,
+  GameMode,
+  DEFAULT_GAME_RULES,
+  LeaderboardRepository,
+  LeaderboardEntry,
+  StatsTimeframe,
+  LEADERBOARD_TIMEFRAMES,
+  GLOBAL_LEADERBOARD_SCOPE,
+  getTimeframeStart,
+  toUTCDateString,
+  RatingRepository,
+  PlayerRating,
+  RatingHistoryEntry,
+  createInitialRating,
+  updateGlicko2Rating,
+  outcomeToScore
 } from '@quiz-battle/shared';
 
+// The second seat of a waiting game, as long as it is free and the player is not the host
+function isOpenSeat(gameId: string, playerId: string) {
+  return and(
+    eq(games.id, gameId),
+    eq(games.status, GameStatus.WAITING),
+    isNull(games.player2Id),
+    ne(games.player1Id, playerId)
+  );
+}
+
 export class DatabaseGameRepository implements GameRepository {
-  async createGame(data: { id: string; player1Id: string; themeId: string }): Promise<Game> {
+  async createGame(data: { id: string; player1Id: string; themeId: string; isPrivate?: boolean; mode?: GameMode; rules?: GameRules }): Promise<Game> {
+    const rules = data.rules ?? DEFAULT_GAME_RULES;
     const result = await db.insert(games).values({
       ...data,
+      rules,
+      totalQuestions: rules.totalQuestions,
+      questionTimeLimit: rules.questionTimeLimitSeconds,
       status: 'waiting',
       player1Score: 0,
       player2Score: 0,
@@ -40,26 +96,198 @@ export class DatabaseGameRepository implements GameRepository {
     const result = await db
       .select()
       .from(games)
-      .where(and(eq(games.themeId, themeId), eq(games.status, 'waiting')))
+      .where(and(eq(games.themeId, themeId), eq(games.status, 'waiting'), isNull(games.player2Id), eq(games.isPrivate, false), eq(games.mode, 'multiplayer')))
       .orderBy(desc(games.createdAt))
       .limit(1);
     return result[0] as Game || null;
   }
 
+  async claimWaitingGame(themeId: string, playerId: string): Promise<Game | null> {
+    // Lock the oldest open game and skip rows other joins already hold, so
+    // concurrent claims never end up on the same game. The game stays waiting
+    // until GameManager starts it.
+    const openGame = db
+      .select({ id: games.id })
+      .from(games)
+      .where(and(
+        eq(games.themeId, themeId),
+        eq(games.status, GameStatus.WAITING),
+        eq(games.isPrivate, false),
+        eq(games.mode, 'multiplayer'),
+        isNull(games.player2Id),
+        ne(games.player1Id, playerId)
+      ))
+      .orderBy(games.createdAt)
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const result = await db
+      .update(games)
+      .set({ player2Id: playerId })
+      .where(inArray(games.id, openGame))
+      .returning();
+    return result[0] as Game || null;
+  }
+
+  async joinWaitingGame(gameId: string, playerId: string): Promise<Game | null> {
+    // Conditional update: only succeeds while the seat is still free
+    const result = await db
+      .update(games)
+      .set({ player2Id: playerId })
+      .where(isOpenSeat(gameId, playerId))
+      .returning();
+    return result[0] as Game || null;
+  }
+
   async deleteGame(id: string): Promise<void> {
     await db.delete(games).where(eq(games.id, id));
   }
+
+  async getActiveGames(): Promise<Game[]> {
+    const result = await db.select().from(games).where(eq(games.status, GameStatus.ACTIVE));
+    return result as Game[];
+  }
+
+  async getMatchRecord(id: string): Promise<MatchRecord | null> {
+    // One snapshot, so the archival job cannot move the game between the two reads
+    return await db.transaction(async (tx) => {
+      const [game] = await tx.select().from(games).where(eq(games.id, id));
+      if (game) {
+        const gameAnswers = await tx.select().from(answers).where(eq(answers.gameId, id)).orderBy(answers.answeredAt);
+        return { game: game as Game, answers: gameAnswers as Answer[] };
+      }
+
+      const [archivedGame] = await tx.select().from(gamesArchive).where(eq(gamesArchive.id, id));
+      if (!archivedGame) {
+        return null;
+      }
+      const archivedAnswers = await tx
+        .select()
+        .from(answersArchive)
+        .where(eq(answersArchive.gameId, id))
+        .orderBy(answersArchive.answeredAt);
+      return { game: archivedGame as Game, answers: archivedAnswers as Answer[] };
+    }, { isolationLevel: 'repeatable read' });
+  }
+
+  async archiveFinishedGames(finishedBefore: Date, batchSize: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const finishedGames = await tx
+        .select()
+        .from(games)
+        .where(and(
+          inArray(games.status, [GameStatus.COMPLETED, GameStatus.CANCELLED]),
+          lt(games.completedAt, finishedBefore)
+        ))
+        .limit(batchSize);
+
+      if (finishedGames.length === 0) {
+        return 0;
+      }
+
+      const gameIds = finishedGames.map(game => game.id);
+      const finishedAnswers = await tx.select().from(answers).where(inArray(answers.gameId, gameIds));
+
+      // Copy first, then delete answers before games (foreign key constraints)
+      await tx.insert(gamesArchive).values(finishedGames);
+      if (finishedAnswers.length > 0) {
+        await tx.insert(answersArchive).values(finishedAnswers);
+      }
+      await tx.delete(answers).where(inArray(answers.gameId, gameIds));
+      await tx.delete(games).where(inArray(games.id, gameIds));
+
+      return finishedGames.length;
+    });
+  }
 }
 
 export class DatabaseQuestionRepository implements QuestionRepository {
-  async getRandomQuestionsByTheme(themeId: string, limit: number): Promise<Question[]> {
-    const result = await db
-      .select()
+  async getRandomQuestionsByTheme(themeId: string, limit: number, avoidSeenBy: string[] = []): Promise<Question[]> {
+    return this.sampleQuestions(eq(questions.themeId, themeId), limit, avoidSeenBy);
+  }
+
+  async getRandomQuestionsForRules(
+    themeIds: string[],
+    difficulties: GameRules['difficulties'],
+    limit: number,
+    avoidSeenBy: string[] = []
+  ): Promise<Question[]> {
+    return this.sampleQuestions(this.matchRules(themeIds, difficulties), limit, avoidSeenBy);
+  }
+
+  async countQuestionsForRules(themeIds: string[], difficulties: GameRules['difficulties']): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
       .from(questions)
-      .where(eq(questions.themeId, themeId))
-      .orderBy(desc(questions.createdAt))
-      .limit(limit);
-    return result as Question[];
+      .leftJoin(questionStats, eq(questionStats.questionId, questions.id))
+      .where(and(this.matchRules(themeIds, difficulties), eq(questions.isActive, true)));
+    return row?.count ?? 0;
+  }
+
+  // Needs question_stats joined: once a question has enough answers its
+  // calibrated difficulty replaces the hand-set label
+  private matchRules(themeIds: string[], difficulties: GameRules['difficulties']): SQL | undefined {
+    const effectiveDifficulty = sql`coalesce(${questionStats.calibratedDifficulty}, ${questions.difficulty})`;
+    return and(inArray(questions.themeId, themeIds), inArray(effectiveDifficulty, difficulties));
+  }
+
+  async recordExposures(playerIds: string[], questionIds: string[]): Promise<void> {
+    if (playerIds.length === 0 || questionIds.length === 0) return;
+
+    const lastSeenAt = new Date();
+    await db
+      .insert(questionExposures)
+      .values(playerIds.flatMap(playerId => questionIds.map(questionId => ({ playerId, questionId, lastSeenAt }))))
+      .onConflictDoUpdate({
+        target: [questionExposures.playerId, questionExposures.questionId],
+        set: {
+          timesSeen: sql`${questionExposures.timesSeen} + 1`,
+          lastSeenAt,
+        },
+      });
+
+    // Served questions move to a new spot in random_key order, so neighbours
+    // in that order are not always sampled together
+    await db.update(questions).set({ randomKey: sql`random()` }).where(inArray(questions.id, questionIds));
+  }
+
+  // Reads forward in random_key order from a random point (wrapping around once),
+  // which walks the (theme_id, random_key) index instead of sorting every
+  // matching row. Candidates are oversampled when avoiding repeats, and the
+  // ones seen recently go to the back, longest ago first.
+  private async sampleQuestions(condition: SQL | undefined, limit: number, avoidSeenBy: string[]): Promise<Question[]> {
+    const sampleSize = avoidSeenBy.length > 0 ? limit * QUESTION_EXPOSURE_CONFIG.SAMPLE_FACTOR : limit;
+    const seenSince = new Date(Date.now() - QUESTION_EXPOSURE_CONFIG.RECENT_DAYS * 24 * 60 * 60 * 1000);
+    const lastSeenAt = avoidSeenBy.length > 0
+      ? sql<string | null>`(
+          select max(${questionExposures.lastSeenAt}) from ${questionExposures}
+          where ${questionExposures.questionId} = ${questions.id}
+            and ${inArray(questionExposures.playerId, avoidSeenBy)}
+            and ${questionExposures.lastSeenAt} > ${seenSince}
+        )`
+      : sql<string | null>`null`;
+    const { randomKey, ...columns } = getTableColumns(questions);
+    const pivot = Math.random();
+
+    const sample = (range: SQL, size: number) => db
+      .select({ ...columns, lastSeenAt })
+      .from(questions)
+      .leftJoin(questionStats, eq(questionStats.questionId, questions.id))
+      .where(and(condition, range, eq(questions.isActive, true)))
+      .orderBy(randomKey)
+      .limit(size);
+
+    const candidates = await sample(gte(randomKey, pivot), sampleSize);
+    if (candidates.length < sampleSize) {
+      candidates.push(...await sample(lt(randomKey, pivot), sampleSize - candidates.length));
+    }
+
+    const seenAt = (candidate: { lastSeenAt: string | null }) =>
+      candidate.lastSeenAt ? new Date(candidate.lastSeenAt).getTime() : 0;
+    return candidates
+      .sort((a, b) => seenAt(a) - seenAt(b))
+      .slice(0, limit)
+      .map(({ lastSeenAt, ...question }) => question as Question);
   }
 
   async getQuestionById(id: string): Promise<Question | null> {
@@ -74,6 +302,11 @@ export class DatabaseAnswerRepository implements AnswerRepository {
     return result[0] as Answer;
   }
 
+  async updateAnswer(id: string, data: Partial<Answer>): Promise<Answer | null> {
+    const result = await db.update(answers).set(data).where(eq(answers.id, id)).returning();
+    return result[0] as Answer || null;
+  }
+
   async getAnswersByGame(gameId: string): Promise<Answer[]> {
     const result = await db.select().from(answers).where(eq(answers.gameId, gameId));
     return result as Answer[];
@@ -90,6 +323,69 @@ export class DatabaseAnswerRepository implements AnswerRepository {
   async deleteAnswersByGame(gameId: string): Promise<void> {
     await db.delete(answers).where(eq(answers.gameId, gameId));
   }
+
+  async refreshQuestionStats(questionIds?: string[]): Promise<number> {
+    if (questionIds && questionIds.length === 0) return 0;
+
+    // Bots answer to a script, so only human answers say anything about a question
+    const botIds = BOT_PROFILES.map(profile => profile.id);
+    const liveAnswers = db
+      .select({ questionId: answers.questionId, isCorrect: answers.isCorrect, responseTimeMs: answers.responseTimeMs })
+      .from(answers)
+      .where(and(
+        questionIds ? inArray(answers.questionId, questionIds) : undefined,
+        notInArray(answers.playerId, botIds)
+      ));
+    const archivedAnswers = db
+      .select({ questionId: answersArchive.questionId, isCorrect: answersArchive.isCorrect, responseTimeMs: answersArchive.responseTimeMs })
+      .from(answersArchive)
+      .where(and(
+        questionIds ? inArray(answersArchive.questionId, questionIds) : undefined,
+        notInArray(answersArchive.playerId, botIds)
+      ));
+    const allAnswers = liveAnswers.unionAll(archivedAnswers).as('all_answers');
+
+    const rows = await db
+      .select({
+        questionId: allAnswers.questionId,
+        attempts: sql<number>`count(*)::int`,
+        correctAnswers: sql<number>`(count(*) filter (where ${allAnswers.isCorrect}))::int`,
+        medianResponseMs: sql<number | null>`(percentile_cont(0.5) within group (order by ${allAnswers.responseTimeMs}))::int`,
+      })
+      .from(allAnswers)
+      .innerJoin(questions, eq(questions.id, allAnswers.questionId))
+      .groupBy(allAnswers.questionId);
+
+    const updatedAt = new Date();
+    const stats = rows.map(row => {
+      const difficultyScore = calculateDifficultyScore(row.correctAnswers / row.attempts, row.medianResponseMs);
+      return {
+        ...row,
+        difficultyScore,
+        calibratedDifficulty: calibrateDifficulty(difficultyScore, row.attempts),
+        updatedAt,
+      };
+    });
+
+    // Chunked to stay well under the bind parameter limit on a full refresh
+    for (let i = 0; i < stats.length; i += 500) {
+      await db
+        .insert(questionStats)
+        .values(stats.slice(i, i + 500))
+        .onConflictDoUpdate({
+          target: questionStats.questionId,
+          set: {
+            attempts: sql`excluded.attempts`,
+            correctAnswers: sql`excluded.correct_answers`,
+            medianResponseMs: sql`excluded.median_response_ms`,
+            difficultyScore: sql`excluded.difficulty_score`,
+            calibratedDifficulty: sql`excluded.calibrated_difficulty`,
+            updatedAt,
+          },
+        });
+    }
+    return stats.length;
+  }
 }
 
 export class DatabaseThemeRepository implements ThemeRepository {
@@ -102,4 +398,641 @@ export class DatabaseThemeRepository implements ThemeRepository {
     const result = await db.select().from(themes).where(eq(themes.id, id));
     return result[0] as Theme || null;
   }
-}
\ No newline at end of file
+}
+
+export class DatabaseGameInviteRepository implements GameInviteRepository {
+  async createInvite(data: { code: string; gameId: string; createdBy: string; expiresAt: Date }): Promise<GameInvite> {
+    const result = await db.insert(gameInvites).values(data).returning();
+    return result[0];
+  }
+
+  async getInviteByCode(code: string): Promise<GameInvite | null> {
+    const result = await db.select().from(gameInvites).where(eq(gameInvites.code, code));
+    return result[0] || null;
+  }
+
+  async redeemInvite(code: string, playerId: string): Promise<Game | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Conditional update so an invite can only ever be redeemed once
+        const [invite] = await tx
+          .update(gameInvites)
+          .set({ usedBy: playerId, usedAt: new Date() })
+          .where(and(
+            eq(gameInvites.code, code),
+            isNull(gameInvites.usedAt),
+            gt(gameInvites.expiresAt, new Date())
+          ))
+          .returning();
+        if (!invite) return null;
+
+        const [game] = await tx
+          .update(games)
+          .set({ player2Id: playerId })
+          .where(isOpenSeat(invite.gameId, playerId))
+          .returning();
+        if (!game) tx.rollback(); // The invite stays unused
+        return game as Game;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return null;
+      throw error;
+    }
+  }
+}
+
+export class DatabaseAccountRepository implements AccountRepository {
+  async createAccount(data: { playerId: string; email: string; passwordHash: string; displayName: string; avatarUrl?: string | null }): Promise<Account | null> {
+    // Null when the email is taken or the player already has an account
+    const result = await db.insert(accounts).values(data).onConflictDoNothing().returning();
+    return result[0] || null;
+  }
+
+  async getAccountByEmail(email: string): Promise<Account | null> {
+    const result = await db.select().from(accounts).where(eq(accounts.email, email));
+    return result[0] || null;
+  }
+
+  async getAccountByPlayerId(playerId: string): Promise<Account | null> {
+    const result = await db.select().from(accounts).where(eq(accounts.playerId, playerId));
+    return result[0] || null;
+  }
+
+  async getProfiles(playerIds: string[]): Promise<PlayerProfile[]> {
+    if (playerIds.length === 0) return [];
+
+    return await db
+      .select({
+        playerId: accounts.playerId,
+        displayName: accounts.displayName,
+        avatarUrl: accounts.avatarUrl,
+      })
+      .from(accounts)
+      .where(inArray(accounts.playerId, playerIds));
+  }
+}
+
+// Admin access to every theme and question, including inactive and soft-deleted ones.
+// Deleting sets deleted_at and deactivates, so games and answers keep their references.
+export class DatabaseQuestionBankRepository implements QuestionBankRepository {
+  async listThemes(includeDeleted: boolean): Promise<AdminTheme[]> {
+    const result = await db
+      .select()
+      .from(themes)
+      .where(includeDeleted ? undefined : isNull(themes.deletedAt))
+      .orderBy(themes.name);
+    return result as AdminTheme[];
+  }
+
+  async getTheme(id: string): Promise<AdminTheme | null> {
+    const result = await db.select().from(themes).where(eq(themes.id, id));
+    return result[0] as AdminTheme || null;
+  }
+
+  async createTheme(data: { name: string; description?: string }): Promise<AdminTheme | null> {
+    // Null when the name is taken
+    const result = await db.insert(themes).values(data).onConflictDoNothing().returning();
+    return result[0] as AdminTheme || null;
+  }
+
+  async updateTheme(id: string, data: { name?: string; description?: string }): Promise<AdminTheme | null> {
+    const result = await db
+      .update(themes)
+      .set(data)
+      .where(and(eq(themes.id, id), isNull(themes.deletedAt)))
+      .returning();
+    return result[0] as AdminTheme || null;
+  }
+
+  // Returns only the themes whose state actually changed
+  async setThemesActive(ids: string[], isActive: boolean): Promise<AdminTheme[]> {
+    if (ids.length === 0) return [];
+
+    const result = await db
+      .update(themes)
+      .set({ isActive })
+      .where(and(inArray(themes.id, ids), ne(themes.isActive, isActive), isNull(themes.deletedAt)))
+      .returning();
+    return result as AdminTheme[];
+  }
+
+  async softDeleteTheme(id: string): Promise<AdminTheme | null> {
+    const result = await db
+      .update(themes)
+      .set({ isActive: false, deletedAt: new Date() })
+      .where(and(eq(themes.id, id), isNull(themes.deletedAt)))
+      .returning();
+    return result[0] as AdminTheme || null;
+  }
+
+  async listQuestions(filter: QuestionBankFilter): Promise<AdminQuestion[]> {
+    const conditions = [
+      filter.themeId ? eq(questions.themeId, filter.themeId) : undefined,
+      filter.difficulty ? eq(questions.difficulty, filter.difficulty) : undefined,
+      filter.isActive !== undefined ? eq(questions.isActive, filter.isActive) : undefined,
+      filter.includeDeleted ? undefined : isNull(questions.deletedAt),
+    ];
+
+    const result = await db
+      .select()
+      .from(questions)
+      .where(and(...conditions))
+      .orderBy(desc(questions.createdAt))
+      .limit(filter.limit)
+      .offset(filter.offset);
+    return result as AdminQuestion[];
+  }
+
+  async getQuestion(id: string): Promise<AdminQuestion | null> {
+    const result = await db.select().from(questions).where(eq(questions.id, id));
+    return result[0] as AdminQuestion || null;
+  }
+
+  async createQuestion(data: Omit<Question, 'id'> & { templateId?: string }): Promise<AdminQuestion> {
+    const result = await db.insert(questions).values(data).returning();
+    return result[0] as AdminQuestion;
+  }
+
+  async updateQuestion(id: string, data: Partial<Omit<Question, 'id'>>): Promise<AdminQuestion | null> {
+    const result = await db
+      .update(questions)
+      .set(data)
+      .where(and(eq(questions.id, id), isNull(questions.deletedAt)))
+      .returning();
+    return result[0] as AdminQuestion || null;
+  }
+
+  // Returns only the questions whose state actually changed
+  async setQuestionsActive(ids: string[], isActive: boolean): Promise<AdminQuestion[]> {
+    if (ids.length === 0) return [];
+
+    const result = await db
+      .update(questions)
+      .set({ isActive })
+      .where(and(inArray(questions.id, ids), ne(questions.isActive, isActive), isNull(questions.deletedAt)))
+      .returning();
+    return result as AdminQuestion[];
+  }
+
+  async softDeleteQuestion(id: string): Promise<AdminQuestion | null> {
+    const result = await db
+      .update(questions)
+      .set({ isActive: false, deletedAt: new Date() })
+      .where(and(eq(questions.id, id), isNull(questions.deletedAt)))
+      .returning();
+    return result[0] as AdminQuestion || null;
+  }
+
+  // Which of the given texts (normalized like normalizeQuestionText) are already in the bank
+  async findExistingQuestionTexts(normalizedTexts: string[]): Promise<string[]> {
+    if (normalizedTexts.length === 0) return [];
+
+    const normalized = sql<string>`lower(regexp_replace(trim(${questions.questionText}), '\\s+', ' ', 'g'))`;
+    const result = await db
+      .selectDistinct({ text: normalized })
+      .from(questions)
+      .where(and(inArray(normalized, normalizedTexts), isNull(questions.deletedAt)));
+    return result.map(row => row.text);
+  }
+
+  async getDifficultyReport(filter: QuestionDifficultyReportFilter): Promise<QuestionDifficultyReportEntry[]> {
+    const conditions = [
+      filter.themeId ? eq(questions.themeId, filter.themeId) : undefined,
+      filter.mismatchedOnly ? isNotNull(questionStats.calibratedDifficulty) : undefined,
+      filter.mismatchedOnly ? ne(questionStats.calibratedDifficulty, questions.difficulty) : undefined,
+      isNull(questions.deletedAt),
+    ];
+
+    const result = await db
+      .select({
+        ...getTableColumns(questionStats),
+        themeId: questions.themeId,
+        questionText: questions.questionText,
+        difficulty: questions.difficulty,
+      })
+      .from(questionStats)
+      .innerJoin(questions, eq(questions.id, questionStats.questionId))
+      .where(and(...conditions))
+      .orderBy(desc(questionStats.attempts))
+      .limit(filter.limit)
+      .offset(filter.offset);
+
+    return result.map(row => ({
+      ...row,
+      difficulty: row.difficulty as QuestionDifficultyReportEntry['difficulty'],
+      correctRate: row.attempts > 0 ? row.correctAnswers / row.attempts : 0,
+      mismatch: row.calibratedDifficulty !== null && row.calibratedDifficulty !== row.difficulty,
+    }));
+  }
+}
+
+export class DatabaseQuestionTemplateRepository implements QuestionTemplateRepository {
+  async createTemplate(data: Omit<QuestionTemplate, 'id'>): Promise<QuestionTemplate> {
+    const result = await db.insert(questionTemplates).values(data).returning();
+    return result[0];
+  }
+
+  async updateTemplate(id: string, data: Partial<Omit<QuestionTemplate, 'id'>>): Promise<QuestionTemplate | null> {
+    const result = await db
+      .update(questionTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(questionTemplates.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  async getTemplate(id: string): Promise<QuestionTemplate | null> {
+    const result = await db.select().from(questionTemplates).where(eq(questionTemplates.id, id));
+    return result[0] || null;
+  }
+
+  async listTemplates(themeId?: string): Promise<QuestionTemplate[]> {
+    return await db
+      .select()
+      .from(questionTemplates)
+      .where(themeId ? eq(questionTemplates.themeId, themeId) : undefined)
+      .orderBy(questionTemplates.name);
+  }
+}
+
+export class DatabaseAuditLogRepository implements AuditLogRepository {
+  async record(entry: Omit<AuditLogEntry, 'id' | 'createdAt'>): Promise<void> {
+    await db.insert(auditLog).values(entry);
+  }
+
+  async list(filter: { entityType?: AuditEntityType; entityId?: string; limit: number; offset: number }): Promise<AuditLogEntry[]> {
+    const result = await db
+      .select()
+      .from(auditLog)
+      .where(and(
+        filter.entityType ? eq(auditLog.entityType, filter.entityType) : undefined,
+        filter.entityId ? eq(auditLog.entityId, filter.entityId) : undefined
+      ))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(filter.limit)
+      .offset(filter.offset);
+    return result;
+  }
+}
+
+export class DatabasePlayerStatsRepository implements PlayerStatsRepository {
+  private readonly totalsColumns = {
+    gamesPlayed: sql<number>`coalesce(sum(${playerStats.gamesPlayed}), 0)`.mapWith(Number),
+    gamesWon: sql<number>`coalesce(sum(${playerStats.gamesWon}), 0)`.mapWith(Number),
+    gamesLost: sql<number>`coalesce(sum(${playerStats.gamesLost}), 0)`.mapWith(Number),
+    gamesTied: sql<number>`coalesce(sum(${playerStats.gamesTied}), 0)`.mapWith(Number),
+    totalScore: sql<number>`coalesce(sum(${playerStats.totalScore}), 0)`.mapWith(Number),
+    bestScore: sql<number>`coalesce(max(${playerStats.bestScore}), 0)`.mapWith(Number),
+    totalAnswers: sql<number>`coalesce(sum(${playerStats.totalAnswers}), 0)`.mapWith(Number),
+    correctAnswers: sql<number>`coalesce(sum(${playerStats.correctAnswers}), 0)`.mapWith(Number),
+    totalResponseTimeMs: sql<number>`coalesce(sum(${playerStats.totalResponseTimeMs}), 0)`.mapWith(Number),
+    fastestResponseMs: sql<number | null>`min(${playerStats.fastestResponseMs})`,
+  };
+
+  async recordAnswer(
+    playerId: string,
+    themeId: string,
+    answer: { isCorrect: boolean; responseTimeMs: number }
+  ): Promise<void> {
+    const correct = answer.isCorrect ? 1 : 0;
+    const fastest = answer.isCorrect ? answer.responseTimeMs : null;
+
+    await db
+      .insert(playerStats)
+      .values({
+        playerId,
+        themeId,
+        statDate: toUTCDateString(new Date()),
+        totalAnswers: 1,
+        correctAnswers: correct,
+        totalResponseTimeMs: answer.responseTimeMs,
+        fastestResponseMs: fastest,
+      })
+      .onConflictDoUpdate({
+        target: [playerStats.playerId, playerStats.themeId, playerStats.statDate],
+        set: {
+          totalAnswers: sql`${playerStats.totalAnswers} + 1`,
+          correctAnswers: sql`${playerStats.correctAnswers} + ${correct}`,
+          totalResponseTimeMs: sql`${playerStats.totalResponseTimeMs} + ${answer.responseTimeMs}`,
+          // LEAST ignores NULLs, so wrong answers never set the fastest time
+          fastestResponseMs: sql`least(${playerStats.fastestResponseMs}, ${fastest}::integer)`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async recordGameResult(
+    playerId: string,
+    themeId: string,
+    result: { score: number; outcome: GameOutcome }
+  ): Promise<void> {
+    const won = result.outcome === 'WON' ? 1 : 0;
+    const lost = result.outcome === 'LOST' ? 1 : 0;
+    const tied = result.outcome === 'TIED' ? 1 : 0;
+
+    await db
+      .insert(playerStats)
+      .values({
+        playerId,
+        themeId,
+        statDate: toUTCDateString(new Date()),
+        gamesPlayed: 1,
+        gamesWon: won,
+        gamesLost: lost,
+        gamesTied: tied,
+        totalScore: result.score,
+        bestScore: result.score,
+      })
+      .onConflictDoUpdate({
+        target: [playerStats.playerId, playerStats.themeId, playerStats.statDate],
+        set: {
+          gamesPlayed: sql`${playerStats.gamesPlayed} + 1`,
+          gamesWon: sql`${playerStats.gamesWon} + ${won}`,
+          gamesLost: sql`${playerStats.gamesLost} + ${lost}`,
+          gamesTied: sql`${playerStats.gamesTied} + ${tied}`,
+          totalScore: sql`${playerStats.totalScore} + ${result.score}`,
+          bestScore: sql`greatest(${playerStats.bestScore}, ${result.score})`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getTotals(playerId: string, since?: Date): Promise<PlayerStatsTotals> {
+    const result = await db
+      .select(this.totalsColumns)
+      .from(playerStats)
+      .where(this.playerFilter(playerId, since));
+    return result[0];
+  }
+
+  async getThemeTotals(playerId: string, since?: Date): Promise<PlayerThemeStats[]> {
+    const result = await db
+      .select({
+        themeId: playerStats.themeId,
+        themeName: themes.name,
+        themeDescription: themes.description,
+        ...this.totalsColumns,
+      })
+      .from(playerStats)
+      .innerJoin(themes, eq(themes.id, playerStats.themeId))
+      .where(this.playerFilter(playerId, since))
+      .groupBy(playerStats.themeId, themes.name, themes.description);
+
+    return result.map(row => ({ ...row, themeDescription: row.themeDescription ?? undefined }));
+  }
+
+  async getRecentGames(playerId: string, limit: number): Promise<PlayerGameSummary[]> {
+    const recentGames = await db
+      .select({ game: games, themeName: themes.name })
+      .from(games)
+      .innerJoin(themes, eq(themes.id, games.themeId))
+      .where(and(
+        or(eq(games.player1Id, playerId), eq(games.player2Id, playerId)),
+        eq(games.status, GameStatus.COMPLETED)
+      ))
+      .orderBy(desc(games.completedAt))
+      .limit(limit);
+
+    if (recentGames.length === 0) {
+      return [];
+    }
+
+    // Per-player answer stats for those games, used for the opponent summary
+    const answerStats = await db
+      .select({
+        gameId: answers.gameId,
+        playerId: answers.playerId,
+        answers: sql<number>`count(*)`.mapWith(Number),
+        correctAnswers: sql<number>`count(*) filter (where ${answers.isCorrect})`.mapWith(Number),
+        averageResponseMs: sql<number>`coalesce(avg(${answers.responseTimeMs}), 0)`.mapWith(Number),
+      })
+      .from(answers)
+      .where(inArray(answers.gameId, recentGames.map(({ game }) => game.id)))
+      .groupBy(answers.gameId, answers.playerId);
+
+    return recentGames.map(({ game, themeName }) => {
+      const isPlayer1 = game.player1Id === playerId;
+      const opponentId = (isPlayer1 ? game.player2Id : game.player1Id) ?? undefined;
+      const opponentStats = answerStats.find(stats => stats.gameId === game.id && stats.playerId === opponentId);
+
+      return {
+        gameId: game.id,
+        themeId: game.themeId!,
+        themeName,
+        opponentId,
+        playerScore: isPlayer1 ? game.player1Score : game.player2Score,
+        opponentScore: isPlayer1 ? game.player2Score : game.player1Score,
+        winnerId: game.winnerId ?? undefined,
+        opponentAnswers: opponentStats?.answers ?? 0,
+        opponentCorrectAnswers: opponentStats?.correctAnswers ?? 0,
+        opponentAverageResponseMs: Math.round(opponentStats?.averageResponseMs ?? 0),
+        createdAt: game.createdAt,
+        completedAt: game.completedAt ?? game.createdAt,
+      };
+    });
+  }
+
+  private playerFilter(playerId: string, since?: Date) {
+    return since
+      ? and(eq(playerStats.playerId, playerId), gte(playerStats.statDate, toUTCDateString(since)))
+      : eq(playerStats.playerId, playerId);
+  }
+}
+
+export class DatabaseLeaderboardRepository implements LeaderboardRepository {
+  async recordGameResult(
+    playerId: string,
+    themeId: string,
+    result: { score: number; won: boolean }
+  ): Promise<void> {
+    const now = new Date();
+    const won = result.won ? 1 : 0;
+
+    // One row per period and scope, all bumped in a single statement
+    const rows = LEADERBOARD_TIMEFRAMES.flatMap(timeframe =>
+      [GLOBAL_LEADERBOARD_SCOPE, themeId].map(scope => ({
+        period: timeframe,
+        periodStart: this.periodStart(timeframe, now),
+        scope,
+        playerId,
+        score: result.score,
+        gamesPlayed: 1,
+        gamesWon: won,
+      }))
+    );
+
+    await db
+      .insert(leaderboardEntries)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [leaderboardEntries.period, leaderboardEntries.periodStart, leaderboardEntries.scope, leaderboardEntries.playerId],
+        set: {
+          score: sql`${leaderboardEntries.score} + ${result.score}`,
+          gamesPlayed: sql`${leaderboardEntries.gamesPlayed} + 1`,
+          gamesWon: sql`${leaderboardEntries.gamesWon} + ${won}`,
+          updatedAt: now,
+        },
+      });
+  }
+
+  async getEntries(timeframe: StatsTimeframe, scope: string, limit: number, offset: number): Promise<LeaderboardEntry[]> {
+    return await db
+      .select({
+        rank: sql<number>`rank() over (order by ${leaderboardEntries.score} desc)`.mapWith(Number),
+        playerId: leaderboardEntries.playerId,
+        score: leaderboardEntries.score,
+        gamesPlayed: leaderboardEntries.gamesPlayed,
+        gamesWon: leaderboardEntries.gamesWon,
+        updatedAt: leaderboardEntries.updatedAt,
+      })
+      .from(leaderboardEntries)
+      .where(this.periodFilter(timeframe, scope))
+      .orderBy(desc(leaderboardEntries.score), desc(leaderboardEntries.gamesWon), leaderboardEntries.playerId)
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getPlayerEntry(timeframe: StatsTimeframe, scope: string, playerId: string): Promise<LeaderboardEntry | null> {
+    const result = await db
+      .select()
+      .from(leaderboardEntries)
+      .where(and(this.periodFilter(timeframe, scope), eq(leaderboardEntries.playerId, playerId)))
+      .limit(1);
+
+    if (!result[0]) return null;
+    const entry = result[0];
+
+    // Same ranking as getEntries: ties share a rank
+    const higher = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(leaderboardEntries)
+      .where(and(this.periodFilter(timeframe, scope), gt(leaderboardEntries.score, entry.score)));
+
+    return {
+      rank: higher[0].count + 1,
+      playerId: entry.playerId,
+      score: entry.score,
+      gamesPlayed: entry.gamesPlayed,
+      gamesWon: entry.gamesWon,
+      updatedAt: entry.updatedAt,
+    };
+  }
+
+  async countPlayers(timeframe: StatsTimeframe, scope: string): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(leaderboardEntries)
+      .where(this.periodFilter(timeframe, scope));
+    return result[0].count;
+  }
+
+  private periodStart(timeframe: StatsTimeframe, now: Date = new Date()): string {
+    // The all-time board is a single period starting at the epoch
+    return toUTCDateString(getTimeframeStart(timeframe, now) ?? new Date(0));
+  }
+
+  private periodFilter(timeframe: StatsTimeframe, scope: string) {
+    return and(
+      eq(leaderboardEntries.period, timeframe),
+      eq(leaderboardEntries.periodStart, this.periodStart(timeframe)),
+      eq(leaderboardEntries.scope, scope)
+    );
+  }
+}
+
+export class DatabaseRatingRepository implements RatingRepository {
+  async applyGameResult(
+    gameId: string,
+    scope: string,
+    player1Id: string,
+    player2Id: string,
+    player1Outcome: GameOutcome
+  ): Promise<PlayerRating[]> {
+    const player2Outcome: GameOutcome =
+      player1Outcome === 'WON' ? 'LOST' : player1Outcome === 'LOST' ? 'WON' : 'TIED';
+
+    return await db.transaction(async (tx) => {
+      // Make sure both players have a rating row, then lock them so concurrent
+      // games involving the same player are rated one after the other
+      const initial = createInitialRating();
+      await tx
+        .insert(playerRatings)
+        .values([player1Id, player2Id].map(playerId => ({ playerId, scope, ...initial })))
+        .onConflictDoNothing();
+
+      const current = await tx
+        .select()
+        .from(playerRatings)
+        .where(and(eq(playerRatings.scope, scope), inArray(playerRatings.playerId, [player1Id, player2Id])))
+        .orderBy(playerRatings.playerId)
+        .for('update');
+
+      const player1 = current.find(rating => rating.playerId === player1Id)!;
+      const player2 = current.find(rating => rating.playerId === player2Id)!;
+
+      // Both sides are rated against the opponent's pre-game rating
+      const results = [
+        { before: player1, opponent: player2, outcome: player1Outcome },
+        { before: player2, opponent: player1, outcome: player2Outcome },
+      ];
+
+      const updated: PlayerRating[] = [];
+      for (const { before, opponent, outcome } of results) {
+        const after = updateGlicko2Rating(before, opponent, outcomeToScore(outcome));
+
+        const [row] = await tx
+          .update(playerRatings)
+          .set({
+            ...after,
+            gamesPlayed: sql`${playerRatings.gamesPlayed} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(playerRatings.playerId, before.playerId), eq(playerRatings.scope, scope)))
+          .returning();
+
+        await tx.insert(ratingHistory).values({
+          playerId: before.playerId,
+          scope,
+          gameId,
+          opponentId: opponent.playerId,
+          outcome,
+          ratingBefore: before.rating,
+          ratingAfter: after.rating,
+          ratingDeviationBefore: before.ratingDeviation,
+          ratingDeviationAfter: after.ratingDeviation,
+          volatility: after.volatility,
+        });
+
+        updated.push(row);
+      }
+
+      return updated;
+    });
+  }
+
+  async getRating(playerId: string, scope: string): Promise<PlayerRating | null> {
+    const result = await db
+      .select()
+      .from(playerRatings)
+      .where(and(eq(playerRatings.playerId, playerId), eq(playerRatings.scope, scope)));
+    return result[0] || null;
+  }
+
+  async getRatings(playerId: string): Promise<PlayerRating[]> {
+    return await db
+      .select()
+      .from(playerRatings)
+      .where(eq(playerRatings.playerId, playerId))
+      .orderBy(desc(playerRatings.gamesPlayed));
+  }
+
+  async getHistory(playerId: string, scope: string, limit: number): Promise<RatingHistoryEntry[]> {
+    const result = await db
+      .select()
+      .from(ratingHistory)
+      .where(and(eq(ratingHistory.playerId, playerId), eq(ratingHistory.scope, scope)))
+      .orderBy(desc(ratingHistory.createdAt))
+      .limit(limit);
+    return result as RatingHistoryEntry[];
+  }
+}
@@ -1,5 +1,6 @@
-import { pgTable, text, timestamp, boolean, integer, jsonb, uuid } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, timestamp, boolean, integer, jsonb, uuid, date, primaryKey, index, uniqueIndex, doublePrecision, bigserial } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import type { GameRules, GameMode, AccountRole, AuditEntityType, Question, QuestionType, QuestionMedia, QuestionTemplate, Advanced } from '@quiz-battle/shared';
 
 export const themes = pgTable('themes', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -7,17 +8,43 @@ export const themes = pgTable('themes', {
   description: text('description'),
   isActive: boolean('is_active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
+  deletedAt: timestamp('deleted_at'),
+});
+
+// Templates filled from their own data table to generate question families
+export const questionTemplates = pgTable('question_templates', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  themeId: uuid('theme_id').references(() => themes.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  textTemplate: text('text_template').notNull(),
+  answerVariable: text('answer_variable').notNull(),
+  distractorGroupBy: text('distractor_group_by'),
+  variables: jsonb('variables').$type<QuestionTemplate['variables']>().notNull(),
+  difficulty: text('difficulty').default('medium').$type<QuestionTemplate['difficulty']>().notNull(),
+  rows: jsonb('rows').$type<QuestionTemplate['rows']>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 export const questions = pgTable('questions', {
   id: uuid('id').defaultRandom().primaryKey(),
   themeId: uuid('theme_id').references(() => themes.id, { onDelete: 'cascade' }).notNull(),
   questionText: text('question_text').notNull(),
+  type: text('type').default('multiple_choice').$type<QuestionType>().notNull(),
   options: jsonb('options').notNull(),
-  correctAnswer: integer('correct_answer').notNull(),
+  correctAnswer: doublePrecision('correct_answer').notNull(), // Option index, or the value of a numeric question
+  acceptedAnswers: jsonb('accepted_answers').$type<string[]>(), // Short answer questions only
+  media: jsonb('media').$type<QuestionMedia>(), // Image or audio clip metadata; the file is in media storage
   difficulty: text('difficulty').default('medium').notNull(),
+  templateId: uuid('template_id').references(() => questionTemplates.id, { onDelete: 'set null' }),
+  isActive: boolean('is_active').default(true).notNull(),
+  // Random sort key, so sampling is an index range scan instead of ORDER BY random()
+  randomKey: doublePrecision('random_key').default(sql`random()`).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+  deletedAt: timestamp('deleted_at'),
+}, (table) => [
+  index('idx_questions_theme_random_key').on(table.themeId, table.randomKey),
+]);
 
 export const GameStatus = {
     WAITING: 'waiting',
@@ -41,6 +68,11 @@ export const games = pgTable('games', {
   questionDeadline: timestamp('question_deadline'),
   questionTimeLimit: integer('question_time_limit').default(10),
   totalQuestions: integer('total_questions').default(5),
+  rules: jsonb('rules').$type<GameRules>(),
+  isPrivate: boolean('is_private').default(false).notNull(),
+  mode: text('mode').default('multiplayer').$type<GameMode>().notNull(),
+  questionIds: jsonb('question_ids').$type<string[]>(), // Chosen when the game starts, in order
+  questionStartedAt: timestamp('question_started_at'), // Null between questions
   createdAt: timestamp('created_at').defaultNow().notNull(),
   completedAt: timestamp('completed_at'),
 });
@@ -51,11 +83,204 @@ export const answers = pgTable('answers', {
   playerId: uuid('player_id').notNull(), // Changed from text
   questionId: uuid('question_id').references(() => questions.id).notNull(),
   selectedAnswer: integer('selected_answer'),
+  answerText: text('answer_text'), // Numeric and short answers as typed
   isCorrect: boolean('is_correct'),
   responseTimeMs: integer('response_time_ms'),
+  pointsEarned: integer('points_earned'), // Null until the answer is scored
   answeredAt: timestamp('answered_at').defaultNow().notNull(),
 });
 
+// Finished games and their answers are moved here by the archival job once
+// they are older than the configured retention window.
+export const gamesArchive = pgTable('games_archive', {
+  id: uuid('id').primaryKey(),
+  player1Id: uuid('player1_id').notNull(),
+  player2Id: uuid('player2_id'),
+  themeId: uuid('theme_id'),
+  status: text('status').$type<GameStatusType>().notNull(),
+  winnerId: uuid('winner_id'),
+  player1Score: integer('player1_score').notNull(),
+  player2Score: integer('player2_score').notNull(),
+  currentQuestionIndex: integer('current_question_index').notNull(),
+  questionDeadline: timestamp('question_deadline'),
+  questionTimeLimit: integer('question_time_limit'),
+  totalQuestions: integer('total_questions'),
+  rules: jsonb('rules').$type<GameRules>(),
+  isPrivate: boolean('is_private').notNull(),
+  mode: text('mode').$type<GameMode>().notNull(),
+  questionIds: jsonb('question_ids').$type<string[]>(),
+  questionStartedAt: timestamp('question_started_at'),
+  createdAt: timestamp('created_at').notNull(),
+  completedAt: timestamp('completed_at'),
+  archivedAt: timestamp('archived_at').defaultNow().notNull(),
+});
+
+export const answersArchive = pgTable('answers_archive', {
+  id: uuid('id').primaryKey(),
+  gameId: uuid('game_id').notNull(),
+  playerId: uuid('player_id').notNull(),
+  questionId: uuid('question_id').notNull(),
+  selectedAnswer: integer('selected_answer'),
+  answerText: text('answer_text'),
+  isCorrect: boolean('is_correct'),
+  responseTimeMs: integer('response_time_ms'),
+  pointsEarned: integer('points_earned'),
+  answeredAt: timestamp('answered_at').notNull(),
+  archivedAt: timestamp('archived_at').defaultNow().notNull(),
+});
+
+// Invite codes for private games. A code is single-use and expires.
+export const gameInvites = pgTable('game_invites', {
+  code: text('code').primaryKey(),
+  gameId: uuid('game_id').references(() => games.id, { onDelete: 'cascade' }).notNull(),
+  createdBy: uuid('created_by').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedBy: uuid('used_by'),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Registered accounts. The player id is kept from the guest session that
+// registered, so everything recorded as that guest stays with the account.
+export const accounts = pgTable('accounts', {
+  playerId: uuid('player_id').primaryKey(),
+  email: text('email').notNull().unique(),
+  passwordHash: text('password_hash').notNull(),
+  displayName: text('display_name').notNull(),
+  avatarUrl: text('avatar_url'),
+  role: text('role').default('player').$type<AccountRole>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// One row per admin change to the question bank, with the row before and after
+export const auditLog = pgTable('audit_log', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  actorId: uuid('actor_id').notNull(),
+  action: text('action').notNull(),
+  entityType: text('entity_type').$type<AuditEntityType>().notNull(),
+  entityId: uuid('entity_id').notNull(),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_audit_log_entity').on(table.entityType, table.entityId, table.createdAt),
+]);
+
+// Player stats projection, one row per player, theme and UTC day. Kept up to
+// date incrementally from answers and completed games.
+export const playerStats = pgTable('player_stats', {
+  playerId: uuid('player_id').notNull(),
+  themeId: uuid('theme_id').references(() => themes.id).notNull(),
+  statDate: date('stat_date').notNull(),
+  gamesPlayed: integer('games_played').default(0).notNull(),
+  gamesWon: integer('games_won').default(0).notNull(),
+  gamesLost: integer('games_lost').default(0).notNull(),
+  gamesTied: integer('games_tied').default(0).notNull(),
+  totalScore: integer('total_score').default(0).notNull(),
+  bestScore: integer('best_score').default(0).notNull(),
+  totalAnswers: integer('total_answers').default(0).notNull(),
+  correctAnswers: integer('correct_answers').default(0).notNull(),
+  totalResponseTimeMs: integer('total_response_time_ms').default(0).notNull(),
+  fastestResponseMs: integer('fastest_response_ms'),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.playerId, table.themeId, table.statDate] }),
+]);
+
+// Last time each player was served each question, to avoid repeats
+export const questionExposures = pgTable('question_exposures', {
+  playerId: uuid('player_id').notNull(),
+  questionId: uuid('question_id').references(() => questions.id, { onDelete: 'cascade' }).notNull(),
+  timesSeen: integer('times_seen').default(1).notNull(),
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.playerId, table.questionId] }),
+]);
+
+// Per-question answer statistics and the difficulty calibrated from them.
+// Recomputed from live and archived answers for a game's questions when it ends.
+export const questionStats = pgTable('question_stats', {
+  questionId: uuid('question_id').references(() => questions.id, { onDelete: 'cascade' }).primaryKey(),
+  attempts: integer('attempts').default(0).notNull(),
+  correctAnswers: integer('correct_answers').default(0).notNull(),
+  medianResponseMs: integer('median_response_ms'),
+  difficultyScore: doublePrecision('difficulty_score').notNull(),
+  calibratedDifficulty: text('calibrated_difficulty').$type<Question['difficulty']>(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Leaderboard standings per period (DAY/WEEK/MONTH/ALL starting at periodStart)
+// and scope ('global' or a theme id). Incremented when a game completes.
+export const leaderboardEntries = pgTable('leaderboard_entries', {
+  period: text('period').notNull(),
+  periodStart: date('period_start').notNull(),
+  scope: text('scope').notNull(),
+  playerId: uuid('player_id').notNull(),
+  score: integer('score').default(0).notNull(),
+  gamesPlayed: integer('games_played').default(0).notNull(),
+  gamesWon: integer('games_won').default(0).notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.period, table.periodStart, table.scope, table.playerId] }),
+  index('idx_leaderboard_entries_ranking').on(table.period, table.periodStart, table.scope, table.score.desc()),
+]);
+
+// Glicko-2 ratings per player and scope ('global' or a theme id)
+export const playerRatings = pgTable('player_ratings', {
+  playerId: uuid('player_id').notNull(),
+  scope: text('scope').notNull(),
+  rating: doublePrecision('rating').notNull(),
+  ratingDeviation: doublePrecision('rating_deviation').notNull(),
+  volatility: doublePrecision('volatility').notNull(),
+  gamesPlayed: integer('games_played').default(0).notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.playerId, table.scope] }),
+]);
+
+export const ratingHistory = pgTable('rating_history', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  playerId: uuid('player_id').notNull(),
+  scope: text('scope').notNull(),
+  gameId: uuid('game_id').notNull(),
+  opponentId: uuid('opponent_id').notNull(),
+  outcome: text('outcome').notNull(),
+  ratingBefore: doublePrecision('rating_before').notNull(),
+  ratingAfter: doublePrecision('rating_after').notNull(),
+  ratingDeviationBefore: doublePrecision('rating_deviation_before').notNull(),
+  ratingDeviationAfter: doublePrecision('rating_deviation_after').notNull(),
+  volatility: doublePrecision('volatility').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_rating_history_player').on(table.playerId, table.scope, table.createdAt),
+]);
+
+// Append-only log of domain events, one stream per aggregate. The unique
+// (aggregate_id, event_version) index makes concurrent writers conflict.
+export const domainEvents = pgTable('domain_events', {
+  position: bigserial('position', { mode: 'number' }).primaryKey(),
+  eventId: uuid('event_id').notNull().unique(),
+  aggregateId: text('aggregate_id').notNull(),
+  aggregateType: text('aggregate_type').notNull(),
+  eventType: text('event_type').notNull(),
+  eventVersion: integer('event_version').notNull(),
+  payload: jsonb('payload').notNull(),
+  metadata: jsonb('metadata').$type<Advanced.EventSourcing.EventMetadata>().notNull(),
+  occurredAt: timestamp('occurred_at').notNull(),
+}, (table) => [
+  uniqueIndex('idx_domain_events_aggregate_version').on(table.aggregateId, table.eventVersion),
+  index('idx_domain_events_type').on(table.eventType, table.occurredAt),
+]);
+
+// Latest snapshot of each event-sourced aggregate, so loading it only replays the events after it
+export const aggregateSnapshots = pgTable('aggregate_snapshots', {
+  aggregateId: text('aggregate_id').primaryKey(),
+  aggregateType: text('aggregate_type').notNull(),
+  version: integer('version').notNull(),
+  data: jsonb('data').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 export const themesRelations = relations(themes, ({ many }) => ({
   questions: many(questions),
   games: many(games),
@@ -0,0 +1,60 @@
+import {
+  BotProfile,
+  Question,
+  SubmittedAnswer
+} from '@quiz-battle/shared';
+
+export class BotPlayer {
+  private profile: BotProfile;
+  private random: () => number;
+
+  constructor(profile: BotProfile, random: () => number = Math.random) {
+    this.profile = profile;
+    this.random = random;
+  }
+
+  get id(): string {
+    return this.profile.id;
+  }
+
+  get name(): string {
+    return this.profile.name;
+  }
+
+  // Correct answer with the profile's accuracy for the question's difficulty,
+  // otherwise one of the wrong options, a number some way off or a blank
+  chooseAnswer(question: Question): SubmittedAnswer {
+    const accuracy = this.profile.accuracy[question.difficulty] ?? this.profile.accuracy.medium;
+    const isCorrect = this.random() < accuracy;
+
+    switch (question.type) {
+      case 'numeric': {
+        // Off by 5-50% in either direction
+        const error = (0.05 + this.random() * 0.45) * (this.random() < 0.5 ? -1 : 1);
+        const value = isCorrect ? question.correctAnswer : Math.round(question.correctAnswer * (1 + error));
+        return { answerText: String(value) };
+      }
+      case 'short_answer':
+        return { answerText: isCorrect ? question.acceptedAnswers?.[0] ?? '' : '' };
+      default: {
+        if (isCorrect) {
+          return { selectedAnswer: question.correctAnswer };
+        }
+
+        const wrongAnswers = question.options
+          .map((_, index) => index)
+          .filter(index => index !== question.correctAnswer);
+        return { selectedAnswer: wrongAnswers[Math.floor(this.random() * wrongAnswers.length)] };
+      }
+    }
+  }
+
+  // Normally distributed reaction time (Box-Muller), never faster than the profile minimum
+  sampleResponseTime(): number {
+    const { mean, stdDev, min } = this.profile.responseTimeMs;
+    const u1 = Math.max(this.random(), Number.EPSILON);
+    const u2 = this.random();
+    const standardNormal = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.max(min, Math.round(mean + standardNormal * stdDev));
+  }
+}
@@ -0,0 +1,189 @@
+import type { GameSessionSnapshot } from './game-manager';
+import type { MatchmakingTicket } from './matchmaking-queue';
+
+// State shared by every API node: running games, which node owns each one,
+// where players and game rooms are connected, and the matchmaking queue.
+export interface GameStateStore {
+  saveSession(snapshot: GameSessionSnapshot): Promise<void>;
+  loadSession(gameId: string): Promise<GameSessionSnapshot | null>;
+  deleteSession(gameId: string): Promise<void>;
+  listSessionIds(): Promise<string[]>;
+
+  // Ownership is a lease: it lapses unless the owner renews it within ttlMs.
+  // acquire succeeds when nobody holds it or nodeId already does.
+  acquireOwnership(gameId: string, nodeId: string, ttlMs: number): Promise<boolean>;
+  renewOwnership(gameId: string, nodeId: string, ttlMs: number): Promise<boolean>;
+  releaseOwnership(gameId: string, nodeId: string): Promise<void>;
+  getOwner(gameId: string): Promise<string | null>;
+
+  setPlayerSocket(playerId: string, socketId: string): Promise<void>;
+  getPlayerSocket(playerId: string): Promise<string | null>;
+  // Only removes the mapping if it still points at socketId; true if it did
+  removePlayerSocket(playerId: string, socketId: string): Promise<boolean>;
+
+  addRoomMember(gameId: string, socketId: string): Promise<void>;
+  removeRoomMember(gameId: string, socketId: string): Promise<void>;
+  getRoomMembers(gameId: string): Promise<string[]>;
+
+  // One ticket per player; saving replaces the player's previous ticket
+  saveMatchmakingTicket(ticket: MatchmakingTicket): Promise<void>;
+  getMatchmakingTicket(playerId: string): Promise<MatchmakingTicket | null>;
+  listMatchmakingTickets(): Promise<MatchmakingTicket[]>;
+  removeMatchmakingTicket(playerId: string): Promise<MatchmakingTicket | null>;
+  // Removes all the tickets at once if every one is still queued unchanged;
+  // otherwise removes none and returns false
+  takeMatchmakingTickets(tickets: MatchmakingTicket[]): Promise<boolean>;
+}
+
+// Messages are delivered to every subscriber, including on the publishing node
+export interface GamePubSub {
+  publish(channel: string, message: unknown): Promise<void>;
+  subscribe(channel: string, handler: (message: any) => void): Promise<void>;
+}
+
+export type ClusterBackend = GameStateStore & GamePubSub;
+
+// Single node: everything lives in this process
+export class InMemoryClusterBackend implements ClusterBackend {
+  private sessions = new Map<string, string>(); // gameId -> serialized snapshot
+  private owners = new Map<string, { nodeId: string; expiresAt: number }>();
+  private playerSockets = new Map<string, string>();
+  private rooms = new Map<string, Set<string>>();
+  private matchmakingTickets = new Map<string, string>(); // playerId -> serialized ticket
+  private handlers = new Map<string, ((message: any) => void)[]>();
+
+  async saveSession(snapshot: GameSessionSnapshot): Promise<void> {
+    // Serialized like the Redis backend, so nothing shares references with the live session
+    this.sessions.set(snapshot.game.id, JSON.stringify(snapshot));
+  }
+
+  async loadSession(gameId: string): Promise<GameSessionSnapshot | null> {
+    const serialized = this.sessions.get(gameId);
+    return serialized ? reviveSnapshot(serialized) : null;
+  }
+
+  async deleteSession(gameId: string): Promise<void> {
+    this.sessions.delete(gameId);
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  async acquireOwnership(gameId: string, nodeId: string, ttlMs: number): Promise<boolean> {
+    const owner = this.owners.get(gameId);
+    if (owner && owner.expiresAt > Date.now() && owner.nodeId !== nodeId) {
+      return false;
+    }
+    this.owners.set(gameId, { nodeId, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async renewOwnership(gameId: string, nodeId: string, ttlMs: number): Promise<boolean> {
+    const owner = this.owners.get(gameId);
+    if (!owner || owner.nodeId !== nodeId || owner.expiresAt <= Date.now()) {
+      return false;
+    }
+    owner.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async releaseOwnership(gameId: string, nodeId: string): Promise<void> {
+    if (this.owners.get(gameId)?.nodeId === nodeId) {
+      this.owners.delete(gameId);
+    }
+  }
+
+  async getOwner(gameId: string): Promise<string | null> {
+    const owner = this.owners.get(gameId);
+    return owner && owner.expiresAt > Date.now() ? owner.nodeId : null;
+  }
+
+  async setPlayerSocket(playerId: string, socketId: string): Promise<void> {
+    this.playerSockets.set(playerId, socketId);
+  }
+
+  async getPlayerSocket(playerId: string): Promise<string | null> {
+    return this.playerSockets.get(playerId) ?? null;
+  }
+
+  async removePlayerSocket(playerId: string, socketId: string): Promise<boolean> {
+    if (this.playerSockets.get(playerId) !== socketId) return false;
+    this.playerSockets.delete(playerId);
+    return true;
+  }
+
+  async addRoomMember(gameId: string, socketId: string): Promise<void> {
+    if (!this.rooms.has(gameId)) this.rooms.set(gameId, new Set());
+    this.rooms.get(gameId)!.add(socketId);
+  }
+
+  async removeRoomMember(gameId: string, socketId: string): Promise<void> {
+    const room = this.rooms.get(gameId);
+    room?.delete(socketId);
+    if (room?.size === 0) {
+      this.rooms.delete(gameId);
+    }
+  }
+
+  async getRoomMembers(gameId: string): Promise<string[]> {
+    return Array.from(this.rooms.get(gameId) ?? []);
+  }
+
+  async saveMatchmakingTicket(ticket: MatchmakingTicket): Promise<void> {
+    this.matchmakingTickets.set(ticket.playerId, serializeTicket(ticket));
+  }
+
+  async getMatchmakingTicket(playerId: string): Promise<MatchmakingTicket | null> {
+    const serialized = this.matchmakingTickets.get(playerId);
+    return serialized ? JSON.parse(serialized) : null;
+  }
+
+  async listMatchmakingTickets(): Promise<MatchmakingTicket[]> {
+    return Array.from(this.matchmakingTickets.values(), serialized => JSON.parse(serialized));
+  }
+
+  async removeMatchmakingTicket(playerId: string): Promise<MatchmakingTicket | null> {
+    const ticket = await this.getMatchmakingTicket(playerId);
+    this.matchmakingTickets.delete(playerId);
+    return ticket;
+  }
+
+  async takeMatchmakingTickets(tickets: MatchmakingTicket[]): Promise<boolean> {
+    if (!tickets.every(ticket => this.matchmakingTickets.get(ticket.playerId) === serializeTicket(ticket))) {
+      return false;
+    }
+    tickets.forEach(ticket => this.matchmakingTickets.delete(ticket.playerId));
+    return true;
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    // Round-trip through JSON and deliver asynchronously, as Redis would
+    const serialized = JSON.stringify(message);
+    for (const handler of this.handlers.get(channel) ?? []) {
+      setImmediate(() => handler(JSON.parse(serialized)));
+    }
+  }
+
+  async subscribe(channel: string, handler: (message: any) => void): Promise<void> {
+    this.handlers.set(channel, [...(this.handlers.get(channel) ?? []), handler]);
+  }
+}
+
+// Dates in the game survive JSON as strings; turn them back into Dates
+export function reviveSnapshot(serialized: string): GameSessionSnapshot {
+  const snapshot = JSON.parse(serialized) as GameSessionSnapshot;
+  snapshot.game.createdAt = new Date(snapshot.game.createdAt);
+  if (snapshot.game.completedAt) {
+    snapshot.game.completedAt = new Date(snapshot.game.completedAt);
+  }
+  if (snapshot.game.questionStartedAt) {
+    snapshot.game.questionStartedAt = new Date(snapshot.game.questionStartedAt);
+  }
+  return snapshot;
+}
+
+// Fixed field order, so a ticket read back serializes to the same string
+export function serializeTicket({ playerId, themeId, skillLevel, enqueuedAt, gameId }: MatchmakingTicket): string {
+  return JSON.stringify({ playerId, themeId, skillLevel, enqueuedAt, gameId });
+}
@@ -0,0 +1,184 @@
+import { randomUUID } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { Advanced, Domain, Game, GameStatus, Question } from '@quiz-battle/shared';
+import { GameEventRecorder } from './game-event-recorder';
+import type { SessionAnswer } from './game-manager';
+
+type EventEnvelope = Advanced.EventSourcing.EventEnvelope;
+
+// Keeps each stream in memory, serialized the way the database store keeps it
+class InMemoryEventStore implements Advanced.EventSourcing.EventStore {
+  private streams = new Map<string, EventEnvelope[]>();
+
+  async saveEvents(aggregateId: string, aggregateType: string, events: Domain.DomainEvent[], expectedVersion: number): Promise<void> {
+    const stream = this.streams.get(aggregateId) ?? [];
+    if (stream.length !== expectedVersion) {
+      throw new Advanced.EventSourcing.ConcurrencyError(aggregateId, expectedVersion, stream.length);
+    }
+    events.forEach((event, index) => stream.push({
+      eventId: event.eventId,
+      aggregateId,
+      aggregateType,
+      eventType: event.getEventName(),
+      eventVersion: expectedVersion + index + 1,
+      payload: JSON.parse(Advanced.EventSourcing.gameEventSerializer.serialize(event)),
+      metadata: { source: 'test' },
+      timestamp: event.occurredOn,
+    }));
+    this.streams.set(aggregateId, stream);
+  }
+
+  async getEvents(aggregateId: string, fromVersion: number = 1): Promise<EventEnvelope[]> {
+    return (this.streams.get(aggregateId) ?? []).filter(event => event.eventVersion >= fromVersion);
+  }
+
+  async getAllEvents(): Promise<EventEnvelope[]> {
+    return Array.from(this.streams.values()).flat();
+  }
+
+  async getEventsByType(eventType: string): Promise<EventEnvelope[]> {
+    return (await this.getAllEvents()).filter(event => event.eventType === eventType);
+  }
+}
+
+class NoSnapshots implements Advanced.EventSourcing.SnapshotStore {
+  async saveSnapshot(): Promise<void> {}
+  async getSnapshot(): Promise<null> {
+    return null;
+  }
+}
+
+const question = (fields: Partial<Question>): Question => ({
+  id: randomUUID(),
+  themeId: 'theme',
+  questionText: 'Question?',
+  type: 'multiple_choice',
+  options: ['A', 'B', 'C'],
+  correctAnswer: 1,
+  difficulty: 'medium',
+  ...fields,
+});
+
+const answer = (fields: Partial<SessionAnswer>): SessionAnswer => ({
+  id: randomUUID(),
+  isCorrect: true,
+  responseTime: 3_000,
+  ...fields,
+});
+
+function createRecorder() {
+  const eventStore = new InMemoryEventStore();
+  const repository = new Advanced.EventSourcing.EventSourcedGameRepository(eventStore, new NoSnapshots());
+  return { eventStore, repository, recorder: new GameEventRecorder(repository) };
+}
+
+function createGame(fields: Partial<Game> = {}): Game {
+  return {
+    id: randomUUID(),
+    player1Id: randomUUID(),
+    player2Id: randomUUID(),
+    themeId: randomUUID(),
+    status: GameStatus.ACTIVE,
+    player1Score: 0,
+    player2Score: 0,
+    currentQuestionIndex: 0,
+    createdAt: new Date(),
+    ...fields,
+  } as Game;
+}
+
+describe('GameEventRecorder', () => {
+  it('records a whole game, whatever the question types, so it can be rebuilt', async () => {
+    const { recorder, repository, eventStore } = createRecorder();
+    const game = createGame();
+    const choice = question({});
+    const numeric = question({ type: 'numeric', options: [], correctAnswer: 1969 });
+
+    await recorder.gameStarted(game, [choice, numeric]);
+
+    recorder.questionStarted(game, choice, 10_000);
+    recorder.answerScored(game, game.player1Id, choice, answer({ selectedAnswer: 1 }), 1000);
+    recorder.answerScored(game, game.player2Id!, choice, answer({ selectedAnswer: 0, isCorrect: false }), 0);
+    recorder.questionCompleted(game, choice);
+
+    recorder.questionStarted(game, numeric, 10_000);
+    recorder.answerScored(game, game.player2Id!, numeric, answer({ answerText: '1970' }), 1000);
+    recorder.answerScored(game, game.player1Id, numeric, answer({ answerText: '1900', isCorrect: false }), 0);
+    recorder.questionCompleted(game, numeric);
+
+    // Writes of one game run in call order
+    await recorder.gameCompleted(game);
+
+    const rebuilt = (await repository.getById(game.id))!;
+    expect(rebuilt.isCompleted()).toBe(true);
+    expect(rebuilt.getQuestionIds()).toEqual([choice.id, numeric.id]);
+    expect(rebuilt.getPlayer1Score().getValue()).toBe(1000);
+    expect(rebuilt.getPlayer2Score().getValue()).toBe(1000);
+    expect(rebuilt.getWinnerId()).toBeUndefined();
+
+    const answered = (await eventStore.getEventsByType('PlayerAnswered')).map(event => event.payload.answer);
+    expect(answered.map(({ selectedAnswer, answerText }) => [selectedAnswer, answerText]))
+      .toEqual([[1, null], [0, null], [null, '1970'], [null, '1900']]);
+  });
+
+  it('hands a forfeited game to the opponent', async () => {
+    const { recorder, repository } = createRecorder();
+    const game = createGame();
+    const first = question({});
+
+    recorder.gameStarted(game, [first, question({})]);
+    recorder.questionStarted(game, first, 10_000);
+    await recorder.gameCompleted(game, game.player2Id!);
+
+    const rebuilt = (await repository.getById(game.id))!;
+    expect(rebuilt.isCompleted()).toBe(true);
+    expect(rebuilt.getWinnerId()?.getValue()).toBe(game.player1Id);
+  });
+
+  it('continues a game another node recorded', async () => {
+    const { eventStore, repository } = createRecorder();
+    const game = createGame();
+    const only = question({});
+
+    // The node that started the game stops running it after the first question
+    const previousOwner = new GameEventRecorder(repository);
+    await previousOwner.gameStarted(game, [only]);
+    await previousOwner.questionStarted(game, only, 10_000);
+
+    const newOwner = new GameEventRecorder(repository);
+    newOwner.questionCompleted(game, only);
+    await newOwner.gameCompleted(game);
+
+    expect((await eventStore.getEvents(game.id)).map(event => event.eventType)).toEqual([
+      'GameCreated', 'PlayerJoinedGame', 'GameStarted', 'QuestionStarted', 'QuestionCompleted', 'GameCompleted',
+    ]);
+  });
+
+  it('keeps a failed change out of the stream without stopping the game', async () => {
+    const { recorder, eventStore } = createRecorder();
+    const game = createGame();
+    const only = question({});
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    recorder.gameStarted(game, [only]);
+    recorder.questionStarted(game, only, 10_000);
+    recorder.answerScored(game, game.player1Id, only, answer({ selectedAnswer: 1 }), 1000);
+    // Rejected by the aggregate: the player already answered
+    await expect(recorder.answerScored(game, game.player1Id, only, answer({ selectedAnswer: 1 }), 1000)).resolves.toBeUndefined();
+    recorder.questionCompleted(game, only);
+    await recorder.gameCompleted(game);
+
+    expect(await eventStore.getEventsByType('PlayerAnswered')).toHaveLength(1);
+    expect(await eventStore.getEventsByType('GameCompleted')).toHaveLength(1);
+    expect(logError).toHaveBeenCalledTimes(1);
+    logError.mockRestore();
+  });
+
+  it('does not record practice runs', async () => {
+    const { recorder, eventStore } = createRecorder();
+    const game = createGame({ mode: 'practice', player2Id: undefined });
+
+    await recorder.gameStarted(game, [question({})]);
+    expect(await eventStore.getAllEvents()).toHaveLength(0);
+  });
+});
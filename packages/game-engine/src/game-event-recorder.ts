@@ -0,0 +1,116 @@
+import {
+  Game,
+  Question,
+  Domain,
+  Advanced
+} from '@quiz-battle/shared';
+import type { SessionAnswer } from './game-manager';
+
+type GameEventRepository = Advanced.EventSourcing.EventSourcedRepository<Domain.Game>;
+
+// Records the games run by the GameManager as event streams of the domain Game
+// aggregate, so each game can be rebuilt from its events alone. Practice runs
+// are solo, which the aggregate does not model, and are not recorded.
+//
+// Best effort like the stats projections: a failed write is logged and never
+// holds up the game. Each game's writes run one after another, in call order.
+export class GameEventRecorder {
+  private games = new Map<string, Domain.Game>(); // Aggregates of the games running here, as last saved
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly repository: GameEventRepository) {}
+
+  gameStarted(game: Game, questions: Question[]): Promise<void> {
+    return this.record(game, () => {
+      const aggregate = Domain.Game.create(
+        Domain.PlayerId.create(game.player1Id),
+        game.themeId!,
+        Domain.GameId.create(game.id)
+      );
+      aggregate.addPlayer2(Domain.PlayerId.create(game.player2Id!));
+      aggregate.start(questions.map(question => question.id));
+      return aggregate;
+    });
+  }
+
+  questionStarted(game: Game, question: Question, timeLimitMs: number): Promise<void> {
+    return this.change(game, aggregate => aggregate.startQuestion(question.id, timeLimitMs));
+  }
+
+  answerScored(game: Game, playerId: string, question: Question, answer: SessionAnswer, points: number): Promise<void> {
+    return this.change(game, aggregate => aggregate.recordAnswer(new Domain.Answer(
+      answer.id,
+      Domain.GameId.create(game.id),
+      Domain.PlayerId.create(playerId),
+      question.id,
+      answer.selectedAnswer === undefined ? null : Domain.AnswerIndex.create(answer.selectedAnswer),
+      answer.isCorrect,
+      Domain.ResponseTime.create(answer.responseTime),
+      new Date(),
+      answer.answerText ?? null
+    ), points));
+  }
+
+  questionCompleted(game: Game, question: Question): Promise<void> {
+    return this.change(game, aggregate => aggregate.completeQuestion(question.id, question.correctAnswer));
+  }
+
+  gameCompleted(game: Game, forfeitedBy?: string): Promise<void> {
+    return this.change(game, aggregate => {
+      if (forfeitedBy) {
+        aggregate.forfeit(Domain.PlayerId.create(forfeitedBy));
+      } else {
+        aggregate.complete();
+      }
+    });
+  }
+
+  gameCancelled(game: Game, reason: string): Promise<void> {
+    return this.change(game, aggregate => aggregate.cancel(reason));
+  }
+
+  // The game moved to another node, which loads it from the store
+  forget(gameId: string): void {
+    this.games.delete(gameId);
+  }
+
+  // Changes a game recorded earlier, here or on the node that ran it before
+  private change(game: Game, apply: (aggregate: Domain.Game) => void): Promise<void> {
+    return this.record(game, async () => {
+      const aggregate = this.games.get(game.id) ?? await this.repository.getById(game.id);
+      if (!aggregate) return null; // Started before games were recorded
+      apply(aggregate);
+      return aggregate;
+    });
+  }
+
+  private record(game: Game, update: () => Promise<Domain.Game | null> | Domain.Game): Promise<void> {
+    if (game.mode === 'practice') return Promise.resolve();
+
+    const write = async () => {
+      try {
+        const aggregate = await update();
+        if (!aggregate) return;
+
+        // The version it was loaded at, or 0 for a new game
+        await this.repository.save(aggregate, aggregate.version);
+        if (aggregate.isCompleted() || aggregate.isCancelled()) {
+          this.games.delete(game.id);
+        } else {
+          this.games.set(game.id, aggregate);
+        }
+      } catch (error) {
+        // Reloaded from the store on the next change, which drops what was not saved
+        this.games.delete(game.id);
+        console.error(`Error recording events of game ${game.id}:`, error);
+      }
+    };
+
+    const next = (this.writes.get(game.id) ?? Promise.resolve()).then(write);
+    this.writes.set(game.id, next);
+    void next.then(() => {
+      if (this.writes.get(game.id) === next) this.writes.delete(game.id);
+    });
+    return next;
+  }
+}
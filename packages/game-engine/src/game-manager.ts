@@ -1,75 +1,462 @@
 import {
   Game,
   Question,
+  Answer,
   GameStatus,
-  GAME_CONFIG,
+  GameRules,
+  BotProfile,
   calculatePoints,
-  isValidAnswerIndex,
+  resolveGameRules,
+  getBotProfile,
+  isBotPlayerId,
+  checkAnswer,
+  getClosestNumericAnswers,
+  SubmittedAnswer,
   ServerToClientEvents,
   GameRepository,
   QuestionRepository,
   AnswerRepository,
-  Answer
+  PlayerStatsRepository,
+  LeaderboardRepository,
+  RatingRepository,
+  GLOBAL_RATING_SCOPE,
+  RECONNECT_CONFIG,
+  QUESTION_MEDIA_CONFIG,
+  CLOCK_SYNC_CONFIG,
+  CLUSTER_CONFIG,
+  GameOutcome,
+  Domain,
+  Advanced
 } from '@quiz-battle/shared';
+import { BotPlayer } from './bot-player';
+import { ClusterBackend, InMemoryClusterBackend } from './cluster-backend';
+import { GameEventRecorder } from './game-event-recorder';
+
+export interface SessionAnswer extends SubmittedAnswer {
+  id: string; // Row in the answers table
+  isCorrect: boolean;
+  numericValue?: number;
+  responseTime: number;
+}
 
 export interface GameSession {
   game: Game;
+  rules: GameRules;
   questions: Question[];
   currentQuestionStartTime: number;
   questionTimer?: NodeJS.Timeout;
-  countdownInterval?: NodeJS.Timeout;
   playersAnswered: Set<string>;
-  answers: Map<string, { answer: number; responseTime: number }>;
+  answers: Map<string, SessionAnswer>;
+  bot?: BotPlayer; // Seated as player2 when the game is against a bot
+  botTimer?: NodeJS.Timeout;
+  botResponseTime?: number; // When the bot answers the current question, ms after it started
+  questionInProgress: boolean;
+  pausedAt?: number;
+  pendingQuestionIndex?: number; // Question due to start while the game was paused
+  mediaReady: Set<string>; // Players who loaded the upcoming question's media
+  mediaTimer?: NodeJS.Timeout; // Starts the question anyway if someone never finishes loading
+  disconnectTimers: Map<string, NodeJS.Timeout>; // playerId -> forfeit timer
 }
 
+// What another node needs to take over a game: the session without its timers
+export interface GameSessionSnapshot {
+  game: Game;
+  rules: GameRules;
+  questions: Question[];
+  currentQuestionStartTime: number;
+  questionInProgress: boolean;
+  playersAnswered: string[];
+  answers: [string, SessionAnswer][];
+  botResponseTime?: number;
+  pausedAt?: number;
+  pendingQuestionIndex?: number;
+  mediaReady: string[];
+  disconnectedPlayerIds: string[];
+}
+
+// Player actions, run by whichever node owns the game
+export type GameCommand =
+  | { type: 'submit-answer'; gameId: string; playerId: string; answer: SubmittedAnswer; latencyMs?: number }
+  | { type: 'media-ready'; gameId: string; playerId: string; questionIndex: number }
+  | { type: 'player-disconnected'; gameId: string; playerId: string }
+  | { type: 'player-reconnected'; gameId: string; playerId: string };
+
+const GAME_COMMAND_CHANNEL = 'game-commands';
+
+export type GameStateSync = Parameters<ServerToClientEvents['game-state-sync']>[0];
+
 export class GameManager {
-  private sessions = new Map<string, GameSession>();
+  private sessions = new Map<string, GameSession>(); // Games this node owns
+  private heartbeatInterval?: NodeJS.Timeout;
   private socketEmitter: (gameId: string, event: keyof ServerToClientEvents, data: any) => void;
   private gameRepository: GameRepository;
   private questionRepository: QuestionRepository;
   private answerRepository: AnswerRepository;
+  private playerStatsRepository: PlayerStatsRepository;
+  private leaderboardRepository: LeaderboardRepository;
+  private ratingRepository: RatingRepository;
+  private gameEvents: GameEventRecorder;
+  private backend: ClusterBackend;
+  readonly nodeId: string;
 
   constructor(
     socketEmitter: (gameId: string, event: keyof ServerToClientEvents, data: any) => void,
     gameRepository: GameRepository,
     questionRepository: QuestionRepository,
-    answerRepository: AnswerRepository
+    answerRepository: AnswerRepository,
+    playerStatsRepository: PlayerStatsRepository,
+    leaderboardRepository: LeaderboardRepository,
+    ratingRepository: RatingRepository,
+    gameEventRepository: Advanced.EventSourcing.EventSourcedRepository<Domain.Game>,
+    backend: ClusterBackend = new InMemoryClusterBackend(),
+    nodeId: string = crypto.randomUUID()
   ) {
     this.socketEmitter = socketEmitter;
     this.gameRepository = gameRepository;
     this.questionRepository = questionRepository;
     this.answerRepository = answerRepository;
+    this.playerStatsRepository = playerStatsRepository;
+    this.leaderboardRepository = leaderboardRepository;
+    this.ratingRepository = ratingRepository;
+    this.gameEvents = new GameEventRecorder(gameEventRepository);
+    this.backend = backend;
+    this.nodeId = nodeId;
+  }
+
+  // Joins the cluster: runs commands for the games owned here, keeps their
+  // leases alive and adopts games whose owner stopped renewing
+  async start(): Promise<void> {
+    if (this.heartbeatInterval) return;
+
+    await this.backend.subscribe(GAME_COMMAND_CHANNEL, (command: GameCommand) => {
+      if (this.sessions.has(command.gameId)) {
+        void this.executeCommand(command);
+      }
+    });
+
+    this.heartbeatInterval = setInterval(() => {
+      void this.heartbeat();
+    }, CLUSTER_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+    this.heartbeatInterval.unref();
+
+    await this.recoverActiveGames();
+  }
+
+  stop(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+  }
+
+  // Runs the command if this node owns the game, otherwise passes it to the owner.
+  // Only local commands report whether they succeeded.
+  async dispatch(command: GameCommand): Promise<boolean> {
+    if (this.sessions.has(command.gameId)) {
+      return await this.executeCommand(command);
+    }
+    await this.backend.publish(GAME_COMMAND_CHANNEL, command);
+    return true;
+  }
+
+  private async executeCommand(command: GameCommand): Promise<boolean> {
+    switch (command.type) {
+      case 'submit-answer':
+        return await this.submitAnswer(command.gameId, command.playerId, command.answer, command.latencyMs);
+      case 'media-ready':
+        this.handleMediaReady(command.gameId, command.playerId, command.questionIndex);
+        return true;
+      case 'player-disconnected':
+        this.handlePlayerDisconnect(command.gameId, command.playerId);
+        return true;
+      case 'player-reconnected':
+        return this.handlePlayerReconnect(command.gameId, command.playerId);
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    for (const [gameId, session] of this.sessions) {
+      try {
+        if (!await this.backend.renewOwnership(gameId, this.nodeId, CLUSTER_CONFIG.OWNERSHIP_TTL_MS)) {
+          // Another node adopted the game while this one was unresponsive
+          console.warn(`⚠️ Lost ownership of game ${gameId}, no longer running it here`);
+          this.dropSession(session);
+        }
+      } catch (error) {
+        console.error('Error renewing game ownership:', error);
+      }
+    }
+
+    try {
+      for (const gameId of await this.backend.listSessionIds()) {
+        if (!this.sessions.has(gameId) && !await this.backend.getOwner(gameId)) {
+          await this.adoptSession(gameId);
+        }
+      }
+    } catch (error) {
+      console.error('Error adopting orphaned games:', error);
+    }
+  }
+
+  // Continues a game from its last snapshot after its owner died
+  private async adoptSession(gameId: string): Promise<void> {
+    if (!await this.backend.acquireOwnership(gameId, this.nodeId, CLUSTER_CONFIG.OWNERSHIP_TTL_MS)) return;
+
+    const snapshot = await this.backend.loadSession(gameId);
+    if (!snapshot) {
+      await this.backend.releaseOwnership(gameId, this.nodeId);
+      return;
+    }
+
+    const session = this.fromSnapshot(snapshot);
+    this.sessions.set(gameId, session);
+    console.log(`🧩 Node ${this.nodeId} took over game ${gameId}`);
+
+    // Players who were away get a fresh grace window
+    snapshot.disconnectedPlayerIds.forEach(playerId => this.startForfeitTimer(session, playerId));
+
+    if (session.pausedAt) {
+      // Resumes once the absent players are back, with the next question if it was between two
+      if (!session.questionInProgress && session.pendingQuestionIndex === undefined) {
+        session.pendingQuestionIndex = session.game.currentQuestionIndex;
+      }
+      return;
+    }
+    if (session.questionInProgress) {
+      this.runQuestionTimers(gameId); // Same deadline as before
+    } else if (session.game.currentQuestionIndex >= session.rules.totalQuestions) {
+      await this.endGame(gameId);
+    } else {
+      this.startQuestion(gameId, session.game.currentQuestionIndex);
+    }
+  }
+
+  // After a restart, picks up the games the database still lists as active.
+  // Games another node is running are left alone.
+  private async recoverActiveGames(): Promise<void> {
+    let activeGames: Game[];
+    try {
+      activeGames = await this.gameRepository.getActiveGames();
+    } catch (error) {
+      console.error('Error loading active games:', error);
+      return;
+    }
+
+    for (const game of activeGames) {
+      try {
+        if (this.sessions.has(game.id) || await this.backend.getOwner(game.id)) continue;
+
+        // A snapshot in the shared store is more recent than the database
+        if (await this.backend.loadSession(game.id)) {
+          await this.adoptSession(game.id);
+        } else {
+          await this.recoverGame(game);
+        }
+      } catch (error) {
+        console.error(`Error recovering game ${game.id}:`, error);
+      }
+    }
+  }
+
+  // Rebuilds a session from the database. Nobody is connected after a restart,
+  // so the game stays paused until the players are back or forfeit.
+  private async recoverGame(game: Game): Promise<void> {
+    if (!await this.backend.acquireOwnership(game.id, this.nodeId, CLUSTER_CONFIG.OWNERSHIP_TTL_MS)) return;
+
+    const rules = resolveGameRules(game.rules);
+    const questions = await Promise.all(
+      (game.questionIds ?? []).map(questionId => this.questionRepository.getQuestionById(questionId))
+    );
+
+    // Started before question ids were recorded, or a question was deleted since
+    if (questions.length < rules.totalQuestions || questions.some(question => !question)) {
+      console.warn(`⚠️ Game ${game.id} cannot be recovered, cancelling it`);
+      await this.gameRepository.updateGame(game.id, { status: GameStatus.CANCELLED, completedAt: new Date() });
+      void this.gameEvents.gameCancelled(game, 'Could not be recovered after a restart');
+      await this.backend.releaseOwnership(game.id, this.nodeId);
+      return;
+    }
+
+    // Answers already given to the current question count as given
+    const currentQuestion = questions[game.currentQuestionIndex];
+    const answers = currentQuestion
+      ? (await this.answerRepository.getAnswersByGame(game.id)).filter(answer => answer.questionId === currentQuestion.id)
+      : [];
+    const botProfile = getBotProfile(game.player2Id);
+
+    const session: GameSession = {
+      game,
+      rules,
+      questions: questions as Question[],
+      currentQuestionStartTime: game.questionStartedAt?.getTime() ?? Date.now(),
+      playersAnswered: new Set(answers.map(answer => answer.playerId)),
+      answers: new Map(answers.map(answer => [answer.playerId, this.toSessionAnswer(currentQuestion!, answer)])),
+      bot: botProfile ? new BotPlayer(botProfile) : undefined,
+      questionInProgress: !!currentQuestion && !!game.questionStartedAt,
+      mediaReady: new Set(),
+      disconnectTimers: new Map(),
+    };
+    this.sessions.set(game.id, session);
+    console.log(`♻️ Recovered game ${game.id} at question ${game.currentQuestionIndex + 1}/${rules.totalQuestions}`);
+
+    if (!currentQuestion) {
+      await this.endGame(game.id);
+      return;
+    }
+
+    if (session.questionInProgress) {
+      session.botResponseTime = session.bot?.sampleResponseTime();
+    }
+
+    this.pauseGame(session);
+    this.getHumanPlayerIds(game).forEach(playerId => this.startForfeitTimer(session, playerId));
+
+    const deadline = session.currentQuestionStartTime + rules.questionTimeLimitSeconds * 1000;
+    if (!session.questionInProgress) {
+      session.pendingQuestionIndex = game.currentQuestionIndex;
+    } else if (deadline <= session.pausedAt!) {
+      // The deadline passed while the server was down: void the question. Answers
+      // already in are kept, nobody else can answer it any more.
+      await this.endQuestion(game.id);
+    }
+    // Otherwise the question resumes with the time that was left at recovery
+
+    this.persistSession(session);
+  }
+
+  private toSessionAnswer(question: Question, answer: Answer): SessionAnswer {
+    const submitted = { selectedAnswer: answer.selectedAnswer ?? undefined, answerText: answer.answerText ?? undefined };
+    return {
+      ...submitted,
+      ...checkAnswer(question, submitted)!,
+      id: answer.id,
+      isCorrect: answer.isCorrect ?? false,
+      responseTime: answer.responseTimeMs ?? 0,
+    };
+  }
+
+  // Stops running a game here without touching its shared state
+  private dropSession(session: GameSession): void {
+    this.sessions.delete(session.game.id);
+    this.gameEvents.forget(session.game.id);
+    this.clearQuestionTimers(session);
+    session.disconnectTimers.forEach(timer => clearTimeout(timer));
+    session.disconnectTimers.clear();
+  }
+
+  // Best effort: a failed write only matters if this node dies before the next one
+  private persistSession(session: GameSession): void {
+    this.backend.saveSession(this.toSnapshot(session)).catch(error => {
+      console.error('Error saving game session:', error);
+    });
+  }
+
+  private toSnapshot(session: GameSession): GameSessionSnapshot {
+    return {
+      game: session.game,
+      rules: session.rules,
+      questions: session.questions,
+      currentQuestionStartTime: session.currentQuestionStartTime,
+      questionInProgress: session.questionInProgress,
+      playersAnswered: Array.from(session.playersAnswered),
+      answers: Array.from(session.answers),
+      botResponseTime: session.botResponseTime,
+      pausedAt: session.pausedAt,
+      pendingQuestionIndex: session.pendingQuestionIndex,
+      mediaReady: Array.from(session.mediaReady),
+      disconnectedPlayerIds: Array.from(session.disconnectTimers.keys()),
+    };
+  }
+
+  private fromSnapshot(snapshot: GameSessionSnapshot): GameSession {
+    const botProfile = getBotProfile(snapshot.game.player2Id);
+    return {
+      game: snapshot.game,
+      rules: snapshot.rules,
+      questions: snapshot.questions,
+      currentQuestionStartTime: snapshot.currentQuestionStartTime,
+      playersAnswered: new Set(snapshot.playersAnswered),
+      answers: new Map(snapshot.answers),
+      bot: botProfile ? new BotPlayer(botProfile) : undefined,
+      botResponseTime: snapshot.botResponseTime,
+      questionInProgress: snapshot.questionInProgress,
+      pausedAt: snapshot.pausedAt,
+      pendingQuestionIndex: snapshot.pendingQuestionIndex,
+      mediaReady: new Set(snapshot.mediaReady),
+      disconnectTimers: new Map(),
+    };
   }
 
   async startGame(gameId: string): Promise<boolean> {
     try {
       const game = await this.gameRepository.getGameById(gameId);
-      if (!game || !game.themeId || !game.player2Id) {
+      // Practice games are played solo, everything else needs both seats filled
+      if (!game || !game.themeId || (!game.player2Id && game.mode !== 'practice')) {
         return false;
       }
 
-      // Get questions for the game
-      const questions = await this.questionRepository.getRandomQuestionsByTheme(game.themeId, GAME_CONFIG.QUESTIONS_PER_GAME);
-      if (questions.length < GAME_CONFIG.QUESTIONS_PER_GAME) {
+      // Only waiting games start, so a finished game is never played again. One
+      // that is already running was started by the node that owns it.
+      if (game.status !== GameStatus.WAITING) {
+        return game.status === GameStatus.ACTIVE && await this.backend.getOwner(gameId) !== null;
+      }
+
+      // Exactly one node runs each game; if another one got here first, it is running
+      if (!await this.backend.acquireOwnership(gameId, this.nodeId, CLUSTER_CONFIG.OWNERSHIP_TTL_MS)) {
+        return true;
+      }
+
+      // Get questions for the game, following the rules it was created with
+      // Steering away from questions either player was served recently
+      const rules = resolveGameRules(game.rules);
+      const humanPlayerIds = this.getHumanPlayerIds(game);
+      const questions = await this.questionRepository.getRandomQuestionsForRules(
+        [game.themeId, ...rules.themeIds.filter(themeId => themeId !== game.themeId)],
+        rules.difficulties,
+        rules.totalQuestions,
+        humanPlayerIds
+      );
+      if (questions.length < rules.totalQuestions) {
+        await this.backend.releaseOwnership(gameId, this.nodeId);
         return false;
       }
 
-      // Update game status to active
-      await this.gameRepository.updateGame(gameId, { status: GameStatus.ACTIVE });
+      try {
+        await this.questionRepository.recordExposures(humanPlayerIds, questions.map(question => question.id));
+      } catch (error) {
+        console.error('Error recording question exposures:', error);
+      }
+
+      // Update game status to active, with the questions needed to recover it after a crash
+      await this.gameRepository.updateGame(gameId, {
+        status: GameStatus.ACTIVE,
+        questionIds: questions.map(question => question.id),
+      });
+
+      const botProfile = getBotProfile(game.player2Id);
 
       // Create game session
       const session: GameSession = {
         game: {
           ...game,
           status: GameStatus.ACTIVE,
+          questionIds: questions.map(question => question.id),
         },
+        rules,
         questions,
         currentQuestionStartTime: Date.now(),
         playersAnswered: new Set(),
         answers: new Map(),
+        bot: botProfile ? new BotPlayer(botProfile) : undefined,
+        questionInProgress: false,
+        mediaReady: new Set(),
+        disconnectTimers: new Map(),
       };
 
       this.sessions.set(gameId, session);
+      this.persistSession(session);
+      void this.gameEvents.gameStarted(session.game, questions);
 
       // Emit game started event
       this.socketEmitter(gameId, 'game-started', {
@@ -84,6 +471,7 @@ export class GameManager {
       return true;
     } catch (error) {
       console.error('Error starting game:', error);
+      await this.backend.releaseOwnership(gameId, this.nodeId).catch(() => undefined);
       return false;
     }
   }
@@ -94,77 +482,217 @@ export class GameManager {
       return;
     }
 
+    // Hold the next question until everyone is back
+    if (session.pausedAt) {
+      session.pendingQuestionIndex = questionIndex;
+      return;
+    }
+
     const question = session.questions[questionIndex];
+
+    // Timing only starts once every player has the question's media loaded
+    if (question.media && !this.hasEveryoneLoadedMedia(session)) {
+      this.waitForMedia(gameId, questionIndex);
+      return;
+    }
+
+    const timeLimitMs = session.rules.questionTimeLimitSeconds * 1000;
+    session.mediaReady.clear();
     session.currentQuestionStartTime = Date.now();
+    session.questionInProgress = true;
     session.playersAnswered.clear();
     session.answers.clear();
+    session.botResponseTime = session.bot?.sampleResponseTime();
+    session.game.currentQuestionIndex = questionIndex;
+    session.game.questionStartedAt = new Date(session.currentQuestionStartTime);
+    this.persistSession(session);
+    this.gameRepository.updateGame(gameId, {
+      currentQuestionIndex: questionIndex,
+      questionStartedAt: session.game.questionStartedAt,
+    }).catch(error => console.error('Error recording question start:', error));
+    void this.gameEvents.questionStarted(session.game, question, timeLimitMs);
 
-    // Emit question started event
+    // Clients count down locally to the deadline, converted with their clock offset
     this.socketEmitter(gameId, 'question-started', {
       question,
       questionIndex,
-      timeLimit: GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS * 1000,
+      timeLimit: timeLimitMs,
+      deadline: session.currentQuestionStartTime + timeLimitMs,
       serverTime: session.currentQuestionStartTime,
     });
 
-    // Start countdown ticks (every 100ms for smooth updates)
-    session.countdownInterval = setInterval(() => {
-      const elapsed = Date.now() - session.currentQuestionStartTime;
-      const remaining = Math.max(0, (GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS * 1000) - elapsed);
+    this.runQuestionTimers(gameId);
+  }
 
-      this.socketEmitter(gameId, 'countdown-tick', {
-        timeRemaining: remaining,
-        serverTime: Date.now(),
-      });
+  // Asks clients to load the media (again, if they already had it from the
+  // inter-question delay) and holds the question until they all report back
+  private waitForMedia(gameId: string, questionIndex: number): void {
+    const session = this.sessions.get(gameId);
+    if (!session || session.mediaTimer) return;
 
-      // Stop countdown when time runs out
-      if (remaining <= 0) {
-        if (session.countdownInterval) {
-          clearInterval(session.countdownInterval);
-          session.countdownInterval = undefined;
-        }
-      }
-    }, 100); // Update every 100ms
+    this.socketEmitter(gameId, 'question-media-preload', {
+      gameId,
+      questionIndex,
+      media: session.questions[questionIndex].media,
+    });
+
+    session.mediaTimer = setTimeout(() => {
+      session.mediaTimer = undefined;
+      console.log(`⏳ Media for question ${questionIndex} of game ${gameId} not loaded by everyone, starting anyway`);
+      this.getHumanPlayerIds(session.game).forEach(playerId => session.mediaReady.add(playerId));
+      this.startQuestion(gameId, questionIndex);
+    }, QUESTION_MEDIA_CONFIG.READY_TIMEOUT_MS);
+  }
+
+  // A client finished loading the media of the upcoming question
+  handleMediaReady(gameId: string, playerId: string, questionIndex: number): void {
+    const session = this.sessions.get(gameId);
+    if (!session || !this.isPlayerInGame(session.game, playerId) || session.questionInProgress ||
+        questionIndex !== session.game.currentQuestionIndex) {
+      return;
+    }
+
+    session.mediaReady.add(playerId);
+    this.persistSession(session);
+
+    // Only a question already waiting on media starts here; otherwise the
+    // inter-question delay is still running and starts it as usual
+    if (session.mediaTimer && this.hasEveryoneLoadedMedia(session)) {
+      clearTimeout(session.mediaTimer);
+      session.mediaTimer = undefined;
+      this.startQuestion(gameId, questionIndex);
+    }
+  }
+
+  // Bots have nothing to load
+  private hasEveryoneLoadedMedia(session: GameSession): boolean {
+    return this.getHumanPlayerIds(session.game).every(playerId => session.mediaReady.has(playerId));
+  }
+
+  // Question timeout and bot answer for the current question, measured from
+  // currentQuestionStartTime so they also work after a pause
+  private runQuestionTimers(gameId: string): void {
+    const session = this.sessions.get(gameId);
+    if (!session) return;
+
+    const question = session.questions[session.game.currentQuestionIndex];
+    const timeLimitMs = session.rules.questionTimeLimitSeconds * 1000;
+    const elapsed = Date.now() - session.currentQuestionStartTime;
 
-    // Set question timer
+    // Stay open past the deadline long enough for answers sent just before it to arrive
     session.questionTimer = setTimeout(() => {
       this.endQuestion(gameId);
-    }, GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS * 1000);
+    }, Math.max(0, timeLimitMs + CLOCK_SYNC_CONFIG.MAX_LATENCY_COMPENSATION_MS - elapsed));
+
+    // Bots answer through submitAnswer like everyone else, unless they run out of time
+    const bot = session.bot;
+    if (bot && session.botResponseTime !== undefined && session.botResponseTime < timeLimitMs &&
+        !session.playersAnswered.has(bot.id)) {
+      session.botTimer = setTimeout(() => {
+        session.botTimer = undefined;
+        void this.submitAnswer(gameId, bot.id, bot.chooseAnswer(question));
+      }, Math.max(0, session.botResponseTime - elapsed));
+    }
+  }
+
+  private clearQuestionTimers(session: GameSession): void {
+    if (session.questionTimer) {
+      clearTimeout(session.questionTimer);
+      session.questionTimer = undefined;
+    }
+    if (session.botTimer) {
+      clearTimeout(session.botTimer);
+      session.botTimer = undefined;
+    }
+    if (session.mediaTimer) {
+      clearTimeout(session.mediaTimer);
+      session.mediaTimer = undefined;
+    }
+  }
+
+  // Seat a bot as player2 of a waiting game; it starts playing once the game starts
+  async seatBot(gameId: string, profile: BotProfile): Promise<Game | null> {
+    return await this.gameRepository.joinWaitingGame(gameId, profile.id);
   }
 
+  // latencyMs is the player's measured round trip; bots answer with none
   async submitAnswer(
     gameId: string,
     playerId: string,
-    selectedAnswer: number
+    submitted: SubmittedAnswer,
+    latencyMs: number = 0
   ): Promise<boolean> {
     const session = this.sessions.get(gameId);
-    if (!session) return false;
+    if (!session || session.pausedAt || !session.questionInProgress) return false;
 
-    if (session.playersAnswered.has(playerId) || !isValidAnswerIndex(selectedAnswer)) {
+    const currentQuestion = session.questions[session.game.currentQuestionIndex];
+    const checked = checkAnswer(currentQuestion, submitted);
+    if (session.playersAnswered.has(playerId) || !checked) {
       return false;
     }
 
-    const responseTime = Date.now() - session.currentQuestionStartTime;
-    const currentQuestion = session.questions[session.game.currentQuestionIndex];
-    const isCorrect = selectedAnswer === currentQuestion.correctAnswer;
-    const points = isCorrect ? calculatePoints(responseTime) : 0;
+    // Judge the answer as sent one round trip before it arrived, capped so a
+    // client cannot claim more than a small head start
+    const compensation = Math.min(Math.max(0, latencyMs), CLOCK_SYNC_CONFIG.MAX_LATENCY_COMPENSATION_MS);
+    const responseTime = Math.max(0, Date.now() - session.currentQuestionStartTime - compensation);
+    if (responseTime > session.rules.questionTimeLimitSeconds * 1000) {
+      return false;
+    }
 
     // Store answer
-    session.answers.set(playerId, { answer: selectedAnswer, responseTime });
+    const answer: SessionAnswer = { ...submitted, ...checked, id: crypto.randomUUID(), responseTime };
+    session.answers.set(playerId, answer);
     session.playersAnswered.add(playerId);
 
-    // Save to database
-    const answer: Answer = {
-      id: crypto.randomUUID(),
-      gameId,
+    // Closest numeric answer wins, so those are saved unscored and scored once everyone has answered
+    if (currentQuestion.type !== 'numeric') {
+      await this.recordAnswer(session, playerId, answer);
+    } else {
+      await this.answerRepository.createAnswer(this.toAnswerRow(session, playerId, answer));
+    }
+    this.persistSession(session);
+
+    // Emit opponent answered notification to the room
+    this.socketEmitter(gameId, 'opponent-answered', {
       playerId,
-      questionId: currentQuestion.id,
-      selectedAnswer,
-      isCorrect,
-      responseTimeMs: responseTime,
-      answeredAt: new Date(),
-    };
-    await this.answerRepository.createAnswer(answer);
+      hasAnswered: true,
+    });
+
+    // Check if both players answered
+    const playerCount = session.game.player2Id ? 2 : 1;
+    if (session.playersAnswered.size >= playerCount) {
+      this.endQuestion(gameId);
+    }
+
+    return true;
+  }
+
+  // Saves a scored answer, feeds the stats projection and adds the points
+  private async recordAnswer(session: GameSession, playerId: string, answer: SessionAnswer): Promise<void> {
+    const gameId = session.game.id;
+    const currentQuestion = session.questions[session.game.currentQuestionIndex];
+    const points = answer.isCorrect ? calculatePoints(answer.responseTime, session.rules.questionTimeLimitSeconds * 1000) : 0;
+
+    // Save to database (numeric answers were saved when submitted)
+    if (currentQuestion.type === 'numeric') {
+      await this.answerRepository.updateAnswer(answer.id, { isCorrect: answer.isCorrect, pointsEarned: points });
+    } else {
+      await this.answerRepository.createAnswer(this.toAnswerRow(session, playerId, answer, { isCorrect: answer.isCorrect, pointsEarned: points }));
+    }
+
+    // Update stats projection (best effort, never blocks the game)
+    if (session.game.mode !== 'practice' && !isBotPlayerId(playerId)) {
+      try {
+        await this.playerStatsRepository.recordAnswer(playerId, session.game.themeId!, {
+          isCorrect: answer.isCorrect,
+          responseTimeMs: answer.responseTime,
+        });
+      } catch (error) {
+        console.error('Error recording answer stats:', error);
+      }
+    }
+
+    void this.gameEvents.answerScored(session.game, playerId, currentQuestion, answer, points);
 
     // Update scores
     if (playerId === session.game.player1Id) {
@@ -178,38 +706,48 @@ export class GameManager {
       player1Score: session.game.player1Score,
       player2Score: session.game.player2Score,
     });
+  }
 
-    // Emit opponent answered notification to the room
-    this.socketEmitter(gameId, 'opponent-answered', {
+  // Without a score the answer is saved unscored
+  private toAnswerRow(
+    session: GameSession,
+    playerId: string,
+    answer: SessionAnswer,
+    score?: { isCorrect: boolean; pointsEarned: number }
+  ): Answer {
+    return {
+      id: answer.id,
+      gameId: session.game.id,
       playerId,
-      hasAnswered: true,
-    });
-
-    // Check if both players answered
-    const playerCount = session.game.player2Id ? 2 : 1;
-    if (session.playersAnswered.size >= playerCount) {
-      this.endQuestion(gameId);
-    }
-
-    return true;
+      questionId: session.questions[session.game.currentQuestionIndex].id,
+      selectedAnswer: answer.selectedAnswer ?? null,
+      answerText: answer.answerText ?? null,
+      isCorrect: score?.isCorrect,
+      responseTimeMs: answer.responseTime,
+      pointsEarned: score?.pointsEarned,
+      answeredAt: new Date(),
+    };
   }
 
   private async endQuestion(gameId: string): Promise<void> {
     const session = this.sessions.get(gameId);
-    if (!session) return;
+    if (!session || !session.questionInProgress) return;
 
     // Clear timers
-    if (session.questionTimer) {
-      clearTimeout(session.questionTimer);
-      session.questionTimer = undefined;
-    }
-    if (session.countdownInterval) {
-      clearInterval(session.countdownInterval);
-      session.countdownInterval = undefined;
-    }
+    this.clearQuestionTimers(session);
+    session.questionInProgress = false;
 
     const currentQuestion = session.questions[session.game.currentQuestionIndex];
 
+    // Numeric answers: the closest within tolerance wins (ties share the win)
+    if (currentQuestion.type === 'numeric') {
+      const guesses = Array.from(session.answers, ([playerId, answer]) => ({ playerId, value: answer.numericValue! }));
+      const winners = getClosestNumericAnswers(currentQuestion.correctAnswer, guesses);
+      for (const [playerId, answer] of session.answers) {
+        await this.recordAnswer(session, playerId, { ...answer, isCorrect: winners.includes(playerId) });
+      }
+    }
+
     // Emit question timeout
     this.socketEmitter(gameId, 'question-timeout', {
       correctAnswer: currentQuestion.correctAnswer,
@@ -219,12 +757,30 @@ export class GameManager {
       },
     });
 
+    void this.gameEvents.questionCompleted(session.game, currentQuestion);
+
     // Move to next question or end game
     session.game.currentQuestionIndex += 1;
+    session.game.questionStartedAt = null;
+    this.persistSession(session);
+    await this.gameRepository.updateGame(gameId, {
+      currentQuestionIndex: session.game.currentQuestionIndex,
+      questionStartedAt: null,
+    });
 
-    if (session.game.currentQuestionIndex >= GAME_CONFIG.QUESTIONS_PER_GAME) {
+    if (session.game.currentQuestionIndex >= session.rules.totalQuestions) {
       await this.endGame(gameId);
     } else {
+      // Clients preload the next question's media during the delay
+      const nextQuestion = session.questions[session.game.currentQuestionIndex];
+      if (nextQuestion.media) {
+        this.socketEmitter(gameId, 'question-media-preload', {
+          gameId,
+          questionIndex: session.game.currentQuestionIndex,
+          media: nextQuestion.media,
+        });
+      }
+
       // Start next question after a short delay
       setTimeout(() => {
         this.startQuestion(gameId, session.game.currentQuestionIndex);
@@ -232,16 +788,35 @@ export class GameManager {
     }
   }
 
-  private async endGame(gameId: string): Promise<void> {
+  private async endGame(gameId: string, forfeitedBy?: string): Promise<void> {
     const session = this.sessions.get(gameId);
     if (!session) return;
 
-    // Determine winner
+    // Clean up session first so timers and late answers cannot end the game twice.
+    // The game and its answers stay in the database as match history until the
+    // archival job moves them out (see RETENTION_CONFIG).
+    this.sessions.delete(gameId);
+    this.clearQuestionTimers(session);
+    session.disconnectTimers.forEach(timer => clearTimeout(timer));
+    session.disconnectTimers.clear();
+    try {
+      await this.backend.deleteSession(gameId);
+      await this.backend.releaseOwnership(gameId, this.nodeId);
+    } catch (error) {
+      console.error('Error releasing game session:', error);
+    }
+
+    // Determine winner (a solo practice run has none, a forfeit hands it to the opponent)
+    const isPractice = session.game.mode === 'practice';
     let winnerId: string | null = null;
-    if (session.game.player1Score > session.game.player2Score) {
-      winnerId = session.game.player1Id;
-    } else if (session.game.player2Score > session.game.player1Score) {
-      winnerId = session.game.player2Id || null;
+    if (!isPractice) {
+      if (forfeitedBy) {
+        winnerId = (forfeitedBy === session.game.player1Id ? session.game.player2Id : session.game.player1Id) || null;
+      } else if (session.game.player1Score > session.game.player2Score) {
+        winnerId = session.game.player1Id;
+      } else if (session.game.player2Score > session.game.player1Score) {
+        winnerId = session.game.player2Id || null;
+      }
     }
 
     // Update game in database
@@ -252,6 +827,13 @@ export class GameManager {
       player2Score: session.game.player2Score,
       completedAt: new Date(),
     });
+    void this.gameEvents.gameCompleted(session.game, forfeitedBy);
+
+    // Practice runs are scored but never count toward stats, leaderboards or ratings
+    if (!isPractice) {
+      await this.recordGameResults(session.game, winnerId);
+      await this.updateRatings(session.game, winnerId);
+    }
 
     // Emit game completed
     this.socketEmitter(gameId, 'game-completed', {
@@ -261,32 +843,204 @@ export class GameManager {
         player2: session.game.player2Score,
       },
       winner: winnerId,
+      forfeitedBy,
     });
 
-    // Clean up session
-    this.sessions.delete(gameId);
+    // Recalibrate the game's questions from everything answered so far (best effort)
+    try {
+      await this.answerRepository.refreshQuestionStats(session.questions.map(question => question.id));
+    } catch (error) {
+      console.error('Error refreshing question stats:', error);
+    }
+  }
+
+  private async recordGameResults(game: Game, winnerId: string | null): Promise<void> {
+    const results = [
+      { playerId: game.player1Id, score: game.player1Score },
+      { playerId: game.player2Id, score: game.player2Score },
+    ];
+
+    // Bots have no stats of their own, and games against them stay off the leaderboards
+    const isBotGame = isBotPlayerId(game.player2Id);
+
+    for (const { playerId, score } of results) {
+      if (!playerId || isBotPlayerId(playerId)) continue;
+
+      const outcome: GameOutcome = !winnerId ? 'TIED' : winnerId === playerId ? 'WON' : 'LOST';
+
+      try {
+        await this.playerStatsRepository.recordGameResult(playerId, game.themeId!, { score, outcome });
+      } catch (error) {
+        console.error('Error recording game stats:', error);
+      }
+
+      if (isBotGame) continue;
+
+      // Leaderboards are incremented per finished game rather than recomputed
+      try {
+        await this.leaderboardRepository.recordGameResult(playerId, game.themeId!, {
+          score,
+          won: outcome === 'WON',
+        });
+      } catch (error) {
+        console.error('Error updating leaderboards:', error);
+      }
+    }
+  }
+
+  private async updateRatings(game: Game, winnerId: string | null): Promise<void> {
+    // Games against bots are unrated
+    if (!game.player2Id || isBotPlayerId(game.player2Id)) return;
+
+    const player1Outcome: GameOutcome = !winnerId ? 'TIED' : winnerId === game.player1Id ? 'WON' : 'LOST';
 
-    // Schedule database cleanup after a delay to allow clients to process results
-    await this.answerRepository.deleteAnswersByGame(gameId);
-    await this.gameRepository.deleteGame(gameId);
+    // Overall skill and skill within the game's theme are rated independently
+    for (const scope of [GLOBAL_RATING_SCOPE, game.themeId!]) {
+      try {
+        await this.ratingRepository.applyGameResult(game.id, scope, game.player1Id, game.player2Id, player1Outcome);
+      } catch (error) {
+        console.error('Error updating ratings:', error);
+      }
+    }
   }
 
   getSession(gameId: string): GameSession | undefined {
     return this.sessions.get(gameId);
   }
 
-  async syncGameState(gameId: string, playerId: string): Promise<void> {
+  // Start the grace window for a player whose socket dropped mid-game
+  handlePlayerDisconnect(gameId: string, playerId: string): void {
+    const session = this.sessions.get(gameId);
+    if (!session || !this.isPlayerInGame(session.game, playerId) || session.disconnectTimers.has(playerId)) {
+      return;
+    }
+
+    const gracePeriodMs = RECONNECT_CONFIG.GRACE_PERIOD_SECONDS * 1000;
+    const paused = RECONNECT_CONFIG.DISCONNECT_POLICY === 'pause';
+    if (paused) {
+      this.pauseGame(session);
+    }
+
+    this.startForfeitTimer(session, playerId);
+    this.persistSession(session);
+
+    console.log(`⏸️ Player ${playerId} disconnected from game ${gameId}, ${RECONNECT_CONFIG.GRACE_PERIOD_SECONDS}s to reconnect`);
+
+    this.socketEmitter(gameId, 'player-disconnected', {
+      playerId,
+      gameId,
+      gracePeriodMs,
+      paused,
+    });
+  }
+
+  private startForfeitTimer(session: GameSession, playerId: string): void {
+    const gameId = session.game.id;
+    session.disconnectTimers.set(playerId, setTimeout(() => {
+      void this.forfeitGame(gameId, playerId);
+    }, RECONNECT_CONFIG.GRACE_PERIOD_SECONDS * 1000));
+  }
+
+  // Returns true if the player was inside their grace window
+  handlePlayerReconnect(gameId: string, playerId: string): boolean {
+    const session = this.sessions.get(gameId);
+    const timer = session?.disconnectTimers.get(playerId);
+    if (!session || !timer) return false;
+
+    clearTimeout(timer);
+    session.disconnectTimers.delete(playerId);
+
+    console.log(`▶️ Player ${playerId} reconnected to game ${gameId}`);
+
+    this.socketEmitter(gameId, 'player-reconnected', { playerId, gameId });
+
+    if (session.disconnectTimers.size === 0) {
+      this.resumeGame(gameId);
+    }
+    this.persistSession(session);
+    return true;
+  }
+
+  private pauseGame(session: GameSession): void {
+    if (session.pausedAt) return;
+
+    // A question held for media loading starts over once everyone is back
+    if (session.mediaTimer) {
+      session.pendingQuestionIndex = session.game.currentQuestionIndex;
+    }
+
+    session.pausedAt = Date.now();
+    this.clearQuestionTimers(session);
+  }
+
+  private resumeGame(gameId: string): void {
+    const session = this.sessions.get(gameId);
+    if (!session || !session.pausedAt) return;
+
+    // Shift the question start so the paused time does not count against anyone
+    session.currentQuestionStartTime += Date.now() - session.pausedAt;
+    session.pausedAt = undefined;
+
+    if (session.pendingQuestionIndex !== undefined) {
+      const questionIndex = session.pendingQuestionIndex;
+      session.pendingQuestionIndex = undefined;
+      this.startQuestion(gameId, questionIndex);
+    } else if (session.questionInProgress) {
+      this.socketEmitter(gameId, 'question-resumed', {
+        questionIndex: session.game.currentQuestionIndex,
+        deadline: session.currentQuestionStartTime + session.rules.questionTimeLimitSeconds * 1000,
+        serverTime: Date.now(),
+      });
+      this.runQuestionTimers(gameId);
+    }
+  }
+
+  private async forfeitGame(gameId: string, playerId: string): Promise<void> {
     const session = this.sessions.get(gameId);
     if (!session) return;
 
-    const currentQuestion = session.questions[session.game.currentQuestionIndex];
-    const timeElapsed = Date.now() - session.currentQuestionStartTime;
-    const timeRemaining = Math.max(0, (GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS * 1000) - timeElapsed);
+    session.disconnectTimers.delete(playerId);
+    console.log(`🏳️ Player ${playerId} forfeited game ${gameId}`);
+
+    await this.endGame(gameId, playerId);
+  }
 
-    this.socketEmitter(gameId, 'game-state-sync', {
+  private isPlayerInGame(game: Game, playerId: string): boolean {
+    return game.player1Id === playerId || game.player2Id === playerId;
+  }
+
+  private getHumanPlayerIds(game: Game): string[] {
+    return [game.player1Id, game.player2Id]
+      .filter((playerId): playerId is string => !!playerId && !isBotPlayerId(playerId));
+  }
+
+  // Snapshot of a running game for one player, including their own answer
+  // to the current question. Games owned by another node are read from the store.
+  async getGameStateSync(gameId: string, playerId: string): Promise<GameStateSync | undefined> {
+    let session = this.sessions.get(gameId);
+    if (!session) {
+      const snapshot = await this.backend.loadSession(gameId);
+      if (!snapshot) return undefined;
+      session = this.fromSnapshot(snapshot);
+    }
+
+    const currentQuestion = session.questionInProgress
+      ? session.questions[session.game.currentQuestionIndex]
+      : undefined;
+    const timeLimitMs = session.rules.questionTimeLimitSeconds * 1000;
+    const timeElapsed = (session.pausedAt ?? Date.now()) - session.currentQuestionStartTime;
+    const timeRemaining = Math.max(0, timeLimitMs - timeElapsed);
+    const answer = session.answers.get(playerId);
+
+    return {
       game: session.game,
       currentQuestion,
       timeRemaining,
-    });
+      deadline: currentQuestion && !session.pausedAt ? session.currentQuestionStartTime + timeLimitMs : undefined,
+      playerAnswer: answer
+        ? { selectedAnswer: answer.selectedAnswer, answerText: answer.answerText, responseTime: answer.responseTime }
+        : undefined,
+      paused: session.pausedAt !== undefined,
+    };
   }
 }
@@ -1 +1,6 @@
-export * from './game-manager';
\ No newline at end of file
+export * from './game-manager';
+export * from './matchmaking-queue';
+export * from './bot-player';
+export * from './cluster-backend';
+export * from './redis-cluster-backend';
+export * from './redis-client';
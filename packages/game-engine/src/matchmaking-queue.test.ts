@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GAME_CONFIG, MATCHMAKING_CONFIG } from '@quiz-battle/shared';
+import { InMemoryClusterBackend } from './cluster-backend';
+import { MatchmakingQueue, MatchmakingTicket } from './matchmaking-queue';
+
+const THEME = randomUUID();
+const OTHER_THEME = randomUUID();
+
+// A queue on one simulated API node, recording what it matched and expired
+function createNode(store: InMemoryClusterBackend) {
+  const matches: [MatchmakingTicket, MatchmakingTicket][] = [];
+  const timeouts: MatchmakingTicket[] = [];
+  const queue = new MatchmakingQueue(
+    store,
+    (host, challenger) => matches.push([host, challenger]),
+    ticket => timeouts.push(ticket)
+  );
+  return { queue, matches, timeouts };
+}
+
+const waitSeconds = (seconds: number) => vi.advanceTimersByTime(seconds * 1000);
+
+describe('MatchmakingQueue', () => {
+  let store: InMemoryClusterBackend;
+
+  beforeEach(() => {
+    // Only the clock: the skill window widens with Date.now()
+    vi.useFakeTimers({ toFake: ['Date'] });
+    store = new InMemoryClusterBackend();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('matches two players inside the initial skill window straight away', async () => {
+    const { queue, matches } = createNode(store);
+    const host = randomUUID();
+    const challenger = randomUUID();
+
+    await queue.enqueue(host, THEME, 1500);
+    waitSeconds(1);
+    await queue.enqueue(challenger, THEME, 1500 + MATCHMAKING_CONFIG.INITIAL_SKILL_WINDOW - 20);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0][0].playerId).toBe(host);
+    expect(matches[0][1].playerId).toBe(challenger);
+    expect(await queue.getQueueSize(THEME)).toBe(0);
+  });
+
+  it('waits for the skill window to widen before matching distant ratings', async () => {
+    const { queue, matches } = createNode(store);
+    await queue.enqueue(randomUUID(), THEME, 1500);
+    await queue.enqueue(randomUUID(), THEME, 1800);
+
+    expect(matches).toHaveLength(0);
+
+    // 100 + 25 per second reaches 300 after 8 seconds
+    waitSeconds(7);
+    await queue.sweep();
+    expect(matches).toHaveLength(0);
+
+    waitSeconds(1);
+    await queue.sweep();
+    expect(matches).toHaveLength(1);
+  });
+
+  it('pairs the longest-waiting player with the closest-rated opponent', async () => {
+    const { queue, matches } = createNode(store);
+    const host = randomUUID();
+    const closest = randomUUID();
+
+    await queue.enqueue(host, THEME, 1500);
+    await queue.enqueue(closest, THEME, 1700);
+    await queue.enqueue(randomUUID(), THEME, 1250);
+    expect(matches).toHaveLength(0);
+
+    // The host's window now covers both, but not the gap between the other two
+    waitSeconds(6);
+    await queue.sweep();
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].map(ticket => ticket.playerId)).toEqual([host, closest]);
+  });
+
+  it('only matches players queued for the same theme', async () => {
+    const { queue, matches } = createNode(store);
+    await queue.enqueue(randomUUID(), THEME, 1500);
+    await queue.enqueue(randomUUID(), OTHER_THEME, 1500);
+
+    expect(matches).toHaveLength(0);
+    expect(await queue.getQueueSize(THEME)).toBe(1);
+    expect(await queue.getQueueSize(OTHER_THEME)).toBe(1);
+  });
+
+  it('replaces the ticket of a player who joins again', async () => {
+    const { queue } = createNode(store);
+    const player = randomUUID();
+
+    await queue.enqueue(player, THEME, 1500);
+    await queue.enqueue(player, OTHER_THEME, 1500);
+
+    expect(await queue.getQueueSize(THEME)).toBe(0);
+    expect(await queue.getQueueSize(OTHER_THEME)).toBe(1);
+  });
+
+  it('forgets players who leave the queue', async () => {
+    const { queue, matches } = createNode(store);
+    const player = randomUUID();
+
+    await queue.enqueue(player, THEME, 1500);
+    expect((await queue.cancel(player))?.playerId).toBe(player);
+    expect(await queue.isQueued(player)).toBe(false);
+
+    await queue.enqueue(randomUUID(), THEME, 1500);
+    expect(matches).toHaveLength(0);
+  });
+
+  it('expires tickets after the matchmaking timeout', async () => {
+    const { queue, timeouts } = createNode(store);
+    const player = randomUUID();
+    await queue.enqueue(player, THEME, 1500);
+
+    waitSeconds(GAME_CONFIG.MATCHMAKING_TIMEOUT_SECONDS - 1);
+    await queue.sweep();
+    expect(timeouts).toHaveLength(0);
+
+    waitSeconds(1);
+    await queue.sweep();
+    expect(timeouts.map(ticket => ticket.playerId)).toEqual([player]);
+    expect(await queue.isQueued(player)).toBe(false);
+  });
+
+  describe('with several API nodes sharing one store', () => {
+    it('matches players queued on different nodes', async () => {
+      const first = createNode(store);
+      const second = createNode(store);
+
+      await first.queue.enqueue(randomUUID(), THEME, 1500);
+      await second.queue.enqueue(randomUUID(), THEME, 1500);
+
+      expect(first.matches).toHaveLength(0);
+      expect(second.matches).toHaveLength(1);
+    });
+
+    it('creates each match and reports each timeout on one node only', async () => {
+      const nodes = [createNode(store), createNode(store), createNode(store)];
+      await nodes[0].queue.enqueue(randomUUID(), THEME, 1500);
+      await nodes[1].queue.enqueue(randomUUID(), THEME, 2100);
+      await nodes[2].queue.enqueue(randomUUID(), OTHER_THEME, 1500);
+
+      // Every node sweeps at once when the window covers the gap, and again at the timeout
+      waitSeconds(20);
+      await Promise.all(nodes.map(node => node.queue.sweep()));
+      expect(nodes.flatMap(node => node.matches)).toHaveLength(1);
+
+      waitSeconds(GAME_CONFIG.MATCHMAKING_TIMEOUT_SECONDS - 20);
+      await Promise.all(nodes.map(node => node.queue.sweep()));
+      expect(nodes.flatMap(node => node.timeouts)).toHaveLength(1);
+    });
+  });
+});
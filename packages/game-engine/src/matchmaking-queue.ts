@@ -0,0 +1,182 @@
+import {
+  GAME_CONFIG,
+  MATCHMAKING_CONFIG,
+  Domain,
+  Advanced
+} from '@quiz-battle/shared';
+import type { GameStateStore } from './cluster-backend';
+
+export interface MatchmakingTicket {
+  playerId: string;
+  themeId: string;
+  skillLevel: number;
+  enqueuedAt: number;
+  // The game this player would host, checked against OptimalGameMatchSpecification
+  gameId: string;
+}
+
+type MatchSpecification = ReturnType<typeof Advanced.Specifications.GameSpecificationFactory.createMatchmakingValidation>;
+
+// Tickets live in the shared state store, so players connected to different
+// API nodes are matched with each other. Every node sweeps the whole queue;
+// taking a pair of tickets is atomic, so only one node creates each match.
+export class MatchmakingQueue {
+  private sweepInterval?: NodeJS.Timeout;
+  private store: GameStateStore;
+  private onMatch: (host: MatchmakingTicket, challenger: MatchmakingTicket) => void;
+  private onTimeout: (ticket: MatchmakingTicket) => void;
+  private matchSpecification: MatchSpecification;
+
+  constructor(
+    store: GameStateStore,
+    onMatch: (host: MatchmakingTicket, challenger: MatchmakingTicket) => void,
+    onTimeout: (ticket: MatchmakingTicket) => void,
+    matchSpecification: MatchSpecification = Advanced.Specifications.GameSpecificationFactory.createMatchmakingValidation()
+  ) {
+    this.store = store;
+    this.onMatch = onMatch;
+    this.onTimeout = onTimeout;
+    this.matchSpecification = matchSpecification;
+  }
+
+  start(): void {
+    if (this.sweepInterval) return;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch(error => console.error('Error sweeping the matchmaking queue:', error));
+    }, MATCHMAKING_CONFIG.SWEEP_INTERVAL_MS);
+
+    this.sweepInterval.unref();
+  }
+
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+  }
+
+  async enqueue(playerId: string, themeId: string, skillLevel: number): Promise<MatchmakingTicket> {
+    // Joining again replaces any previous ticket, possibly for another theme
+    const ticket: MatchmakingTicket = {
+      playerId,
+      themeId,
+      skillLevel,
+      enqueuedAt: Date.now(),
+      gameId: crypto.randomUUID(),
+    };
+    await this.store.saveMatchmakingTicket(ticket);
+
+    await this.matchQueue(await this.getQueue(themeId));
+
+    return ticket;
+  }
+
+  async cancel(playerId: string): Promise<MatchmakingTicket | null> {
+    return await this.store.removeMatchmakingTicket(playerId);
+  }
+
+  async isQueued(playerId: string): Promise<boolean> {
+    return await this.store.getMatchmakingTicket(playerId) !== null;
+  }
+
+  async getQueueSize(themeId: string): Promise<number> {
+    return (await this.getQueue(themeId)).length;
+  }
+
+  // Expire tickets past the matchmaking timeout, then retry matching with the
+  // skill windows that have widened since the last sweep
+  async sweep(): Promise<void> {
+    const timeoutMs = GAME_CONFIG.MATCHMAKING_TIMEOUT_SECONDS * 1000;
+    const now = Date.now();
+    const queues = new Map<string, MatchmakingTicket[]>(); // themeId -> tickets, oldest first
+
+    for (const ticket of sortByAge(await this.store.listMatchmakingTickets())) {
+      if (now - ticket.enqueuedAt >= timeoutMs) {
+        // Every node sweeps, but only the one that takes the ticket reports it
+        if (await this.store.takeMatchmakingTickets([ticket])) {
+          this.onTimeout(ticket);
+        }
+        continue;
+      }
+      queues.set(ticket.themeId, [...(queues.get(ticket.themeId) ?? []), ticket]);
+    }
+
+    for (const queue of queues.values()) {
+      await this.matchQueue(queue);
+    }
+  }
+
+  private async getQueue(themeId: string): Promise<MatchmakingTicket[]> {
+    const tickets = await this.store.listMatchmakingTickets();
+    return sortByAge(tickets.filter(ticket => ticket.themeId === themeId));
+  }
+
+  private async matchQueue(queue: MatchmakingTicket[]): Promise<void> {
+    // Oldest tickets host first, so the longest-waiting players get matched first
+    let hostIndex = 0;
+    while (hostIndex < queue.length) {
+      const host = queue[hostIndex];
+      const challengerIndex = this.findBestChallenger(queue, hostIndex);
+
+      if (challengerIndex === -1) {
+        hostIndex += 1;
+        continue;
+      }
+
+      const challenger = queue[challengerIndex];
+      queue.splice(challengerIndex, 1);
+      queue.splice(hostIndex, 1);
+
+      // Another node may have matched, or the player cancelled, since the queue was read
+      if (await this.store.takeMatchmakingTickets([host, challenger])) {
+        this.onMatch(host, challenger);
+      }
+    }
+  }
+
+  private findBestChallenger(queue: MatchmakingTicket[], hostIndex: number): number {
+    const host = queue[hostIndex];
+    const waitingGame = toWaitingGame(host);
+    let bestIndex = -1;
+    let bestDifference = Infinity;
+
+    for (let i = hostIndex + 1; i < queue.length; i++) {
+      const candidate = queue[i];
+      const isAcceptable = this.matchSpecification.isSatisfiedBy({
+        waitingGame,
+        playerId: Domain.PlayerId.create(candidate.playerId),
+        playerSkillLevel: candidate.skillLevel,
+        waitingPlayerSkillLevel: host.skillLevel,
+      });
+
+      const difference = Math.abs(candidate.skillLevel - host.skillLevel);
+      if (isAcceptable && difference < bestDifference) {
+        bestIndex = i;
+        bestDifference = difference;
+      }
+    }
+
+    return bestIndex;
+  }
+}
+
+function sortByAge(tickets: MatchmakingTicket[]): MatchmakingTicket[] {
+  return [...tickets].sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+}
+
+// The skill window widens with the age of the host's waiting game
+function toWaitingGame(ticket: MatchmakingTicket): Domain.Game {
+  return Domain.Game.reconstitute(
+    ticket.gameId,
+    ticket.playerId,
+    ticket.themeId,
+    Domain.GameStatus.WAITING,
+    undefined,
+    undefined,
+    0,
+    0,
+    0,
+    new Date(ticket.enqueuedAt)
+  );
+}
@@ -0,0 +1,177 @@
+import net from 'net';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisError extends Error {}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+// Minimal RESP2 client, enough for the commands the cluster backend sends. A
+// connection is either used for commands or, once subscribe() is called, only
+// for pub/sub messages, as Redis requires.
+export class RedisClient {
+  private socket?: net.Socket;
+  private connecting?: Promise<void>;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private subscriptions = new Map<string, (message: string) => void>();
+  private closed = false;
+
+  constructor(private readonly url: string) {}
+
+  async command(...args: (string | number)[]): Promise<RedisReply> {
+    await this.connect();
+    return await this.send(args);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.subscriptions.set(channel, handler);
+    await this.command('SUBSCRIBE', channel);
+  }
+
+  async quit(): Promise<void> {
+    this.closed = true;
+    this.socket?.end();
+  }
+
+  private connect(): Promise<void> {
+    if (this.socket && !this.socket.destroyed) return Promise.resolve();
+    if (this.connecting) return this.connecting;
+
+    const { hostname, port, password, pathname } = new URL(this.url);
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host: hostname || 'localhost', port: Number(port) || 6379 });
+      socket.setNoDelay(true);
+
+      socket.once('connect', async () => {
+        this.socket = socket;
+        this.connecting = undefined;
+        try {
+          if (password) await this.send(['AUTH', decodeURIComponent(password)]);
+          const db = pathname.slice(1);
+          if (db) await this.send(['SELECT', db]);
+          // Resubscribe after a reconnect
+          for (const channel of this.subscriptions.keys()) {
+            await this.send(['SUBSCRIBE', channel]);
+          }
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.on('data', (chunk) => this.handleData(chunk));
+
+      socket.on('error', (error) => {
+        if (this.connecting) {
+          this.connecting = undefined;
+          reject(error);
+        }
+        console.error('❌ Redis connection error:', error.message);
+      });
+
+      socket.on('close', () => {
+        this.socket = undefined;
+        this.buffer = Buffer.alloc(0);
+        const pending = this.pending;
+        this.pending = [];
+        pending.forEach(command => command.reject(new RedisError('Redis connection closed')));
+
+        // Subscribers have no command to retry, so they reconnect on their own
+        if (!this.closed && this.subscriptions.size > 0) {
+          setTimeout(() => this.connect().catch(() => undefined), 1000);
+        }
+      });
+    });
+    return this.connecting;
+  }
+
+  private send(args: (string | number)[]): Promise<RedisReply> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new RedisError('Redis is not connected'));
+    }
+
+    let payload = `*${args.length}\r\n`;
+    for (const arg of args) {
+      const value = String(arg);
+      payload += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(payload);
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.buffer.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) return; // Wait for the rest of the reply
+      this.buffer = this.buffer.subarray(parsed.end);
+
+      const { reply } = parsed;
+      if (this.isMessage(reply)) {
+        this.subscriptions.get(reply[1] as string)?.(reply[2] as string);
+        continue;
+      }
+
+      const command = this.pending.shift();
+      if (reply instanceof RedisError) {
+        command?.reject(reply);
+      } else {
+        command?.resolve(reply);
+      }
+    }
+  }
+
+  private isMessage(reply: RedisReply | RedisError): reply is RedisReply[] {
+    return this.subscriptions.size > 0 && Array.isArray(reply) && reply[0] === 'message';
+  }
+}
+
+// Parses one reply starting at offset; undefined when the buffer ends mid-reply
+function parseReply(buffer: Buffer, offset: number): { reply: RedisReply | RedisError; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new RedisError(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { reply: null, end: next };
+      const items: RedisReply[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return undefined;
+        // Only EXEC nests errors in an array, and this client never sends it
+        items.push(item.reply instanceof RedisError ? item.reply.message : item.reply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new RedisError(`Unexpected Redis reply type ${type}`);
+  }
+}
@@ -0,0 +1,182 @@
+import type { GameSessionSnapshot } from './game-manager';
+import type { MatchmakingTicket } from './matchmaking-queue';
+import { ClusterBackend, InMemoryClusterBackend, reviveSnapshot, serializeTicket } from './cluster-backend';
+import { RedisClient } from './redis-client';
+
+const KEY_PREFIX = 'quiz:';
+const DIRECTORY_TTL_SECONDS = 24 * 60 * 60; // Player sockets and rooms left behind by a dead node expire
+
+// Take or extend the lease if it is free or already ours
+const ACQUIRE_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if owner == false or owner == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0`;
+
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const DELETE_IF_EQUAL_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+const REMOVE_FIELD_SCRIPT = `
+local value = redis.call('HGET', KEYS[1], ARGV[1])
+if value then
+  redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return value`;
+
+// ARGV holds field and expected value pairs; removes them only if all still match
+const TAKE_FIELDS_SCRIPT = `
+for i = 1, #ARGV, 2 do
+  if redis.call('HGET', KEYS[1], ARGV[i]) ~= ARGV[i + 1] then
+    return 0
+  end
+end
+for i = 1, #ARGV, 2 do
+  redis.call('HDEL', KEYS[1], ARGV[i])
+end
+return 1`;
+
+// Shares game state between API nodes through any server speaking the Redis
+// protocol. Pub/sub needs its own connection, so there are two.
+export class RedisClusterBackend implements ClusterBackend {
+  private client: RedisClient;
+  private subscriber: RedisClient;
+  private handlers = new Map<string, ((message: any) => void)[]>();
+
+  constructor(url: string) {
+    this.client = new RedisClient(url);
+    this.subscriber = new RedisClient(url);
+  }
+
+  async saveSession(snapshot: GameSessionSnapshot): Promise<void> {
+    await this.client.command('SET', key('session', snapshot.game.id), JSON.stringify(snapshot));
+    await this.client.command('SADD', key('sessions'), snapshot.game.id);
+  }
+
+  async loadSession(gameId: string): Promise<GameSessionSnapshot | null> {
+    const serialized = await this.client.command('GET', key('session', gameId));
+    return typeof serialized === 'string' ? reviveSnapshot(serialized) : null;
+  }
+
+  async deleteSession(gameId: string): Promise<void> {
+    await this.client.command('DEL', key('session', gameId));
+    await this.client.command('SREM', key('sessions'), gameId);
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    return await this.client.command('SMEMBERS', key('sessions')) as string[];
+  }
+
+  async acquireOwnership(gameId: string, nodeId: string, ttlMs: number): Promise<boolean> {
+    return await this.client.command('EVAL', ACQUIRE_SCRIPT, 1, key('owner', gameId), nodeId, ttlMs) === 1;
+  }
+
+  async renewOwnership(gameId: string, nodeId: string, ttlMs: number): Promise<boolean> {
+    return await this.client.command('EVAL', RENEW_SCRIPT, 1, key('owner', gameId), nodeId, ttlMs) === 1;
+  }
+
+  async releaseOwnership(gameId: string, nodeId: string): Promise<void> {
+    await this.client.command('EVAL', DELETE_IF_EQUAL_SCRIPT, 1, key('owner', gameId), nodeId);
+  }
+
+  async getOwner(gameId: string): Promise<string | null> {
+    return await this.client.command('GET', key('owner', gameId)) as string | null;
+  }
+
+  async setPlayerSocket(playerId: string, socketId: string): Promise<void> {
+    await this.client.command('SET', key('player-socket', playerId), socketId, 'EX', DIRECTORY_TTL_SECONDS);
+  }
+
+  async getPlayerSocket(playerId: string): Promise<string | null> {
+    return await this.client.command('GET', key('player-socket', playerId)) as string | null;
+  }
+
+  async removePlayerSocket(playerId: string, socketId: string): Promise<boolean> {
+    return await this.client.command('EVAL', DELETE_IF_EQUAL_SCRIPT, 1, key('player-socket', playerId), socketId) === 1;
+  }
+
+  async addRoomMember(gameId: string, socketId: string): Promise<void> {
+    await this.client.command('SADD', key('room', gameId), socketId);
+    await this.client.command('EXPIRE', key('room', gameId), DIRECTORY_TTL_SECONDS);
+  }
+
+  async removeRoomMember(gameId: string, socketId: string): Promise<void> {
+    await this.client.command('SREM', key('room', gameId), socketId);
+  }
+
+  async getRoomMembers(gameId: string): Promise<string[]> {
+    return await this.client.command('SMEMBERS', key('room', gameId)) as string[];
+  }
+
+  // Tickets left behind by a dead node are expired by the other nodes' sweeps
+  async saveMatchmakingTicket(ticket: MatchmakingTicket): Promise<void> {
+    await this.client.command('HSET', key('matchmaking'), ticket.playerId, serializeTicket(ticket));
+  }
+
+  async getMatchmakingTicket(playerId: string): Promise<MatchmakingTicket | null> {
+    const serialized = await this.client.command('HGET', key('matchmaking'), playerId);
+    return typeof serialized === 'string' ? JSON.parse(serialized) : null;
+  }
+
+  async listMatchmakingTickets(): Promise<MatchmakingTicket[]> {
+    const serialized = await this.client.command('HVALS', key('matchmaking')) as string[];
+    return serialized.map(ticket => JSON.parse(ticket));
+  }
+
+  async removeMatchmakingTicket(playerId: string): Promise<MatchmakingTicket | null> {
+    const serialized = await this.client.command('EVAL', REMOVE_FIELD_SCRIPT, 1, key('matchmaking'), playerId);
+    return typeof serialized === 'string' ? JSON.parse(serialized) : null;
+  }
+
+  async takeMatchmakingTickets(tickets: MatchmakingTicket[]): Promise<boolean> {
+    const expected = tickets.flatMap(ticket => [ticket.playerId, serializeTicket(ticket)]);
+    return await this.client.command('EVAL', TAKE_FIELDS_SCRIPT, 1, key('matchmaking'), ...expected) === 1;
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.client.command('PUBLISH', key('channel', channel), JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: (message: any) => void): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
+
+    this.handlers.set(channel, [handler]);
+    await this.subscriber.subscribe(key('channel', channel), (serialized) => {
+      const message = JSON.parse(serialized);
+      this.handlers.get(channel)?.forEach(subscriber => subscriber(message));
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+    await this.subscriber.quit();
+  }
+}
+
+function key(...parts: string[]): string {
+  return KEY_PREFIX + parts.join(':');
+}
+
+// REDIS_URL switches to the shared Redis backend; without it the API runs as a single node
+export const createClusterBackendFromEnv = (): ClusterBackend => {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    return new InMemoryClusterBackend();
+  }
+  console.log('🧩 Sharing game state between API nodes through Redis');
+  return new RedisClusterBackend(redisUrl);
+};
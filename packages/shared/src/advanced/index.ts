@@ -1,11 +1,12 @@
 // Advanced Architecture Patterns - Export all enterprise features
 
 // Event Sourcing (avoid naming conflicts)
-export * as EventSourcing from '../event-sourcing/event-store';
+export * as EventSourcing from '../event-sourcing';
 
 // CQRS
 export * as Commands from '../cqrs/commands';
 export * as Queries from '../cqrs/queries';
+export * as QueryHandlers from '../cqrs/query-handlers';
 
 // Enhanced Unit of Work
 export * as UnitOfWork from '../unit-of-work/enhanced-uow';
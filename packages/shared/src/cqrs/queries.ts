@@ -2,6 +2,7 @@
 
 import { PlayerId, GameId } from '../domain/value-objects';
 import { GameStatus, QuestionDifficulty } from '../domain/entities';
+import { QuestionMedia } from '../types';
 
 // Base query interface
 export interface Query {
@@ -64,7 +65,8 @@ export class GetLeaderboardQuery extends BaseQuery {
     public readonly timeframe: 'DAY' | 'WEEK' | 'MONTH' | 'ALL' = 'ALL',
     public readonly limit: number = 100,
     correlationId?: string,
-    userId?: string
+    userId?: string, // The player whose own rank is included
+    public readonly offset: number = 0
   ) {
     super(correlationId, userId);
   }
@@ -135,6 +137,7 @@ export interface QuestionView {
   options: string[];
   difficulty: QuestionDifficulty;
   timeLimit: number;
+  media?: QuestionMedia; // Clients preload it before the question's timer starts
 }
 
 export interface PlayerStatsView {
@@ -0,0 +1,166 @@
+// CQRS Query Handlers - Build read models from the projection repositories
+
+import { QuestionDifficulty } from '../domain/entities';
+import {
+  PlayerStatsRepository,
+  PlayerGameSummary,
+  PlayerThemeStats,
+  LeaderboardRepository,
+  LeaderboardEntry,
+  GLOBAL_LEADERBOARD_SCOPE
+} from '../types';
+import { calculateAccuracy, getTimeframeStart } from '../utils';
+import {
+  Query,
+  QueryHandler,
+  GetPlayerStatsQuery,
+  GetLeaderboardQuery,
+  PlayerStatsView,
+  LeaderboardView,
+  LeaderboardEntryView,
+  ThemeStatsView,
+  GameSummaryView,
+  ThemeView
+} from './queries';
+
+const FAVORITE_THEMES_LIMIT = 3;
+const RECENT_GAMES_LIMIT = 10;
+
+export class GetPlayerStatsQueryHandler implements QueryHandler<GetPlayerStatsQuery, PlayerStatsView> {
+  constructor(private readonly playerStatsRepository: PlayerStatsRepository) {}
+
+  canHandle(query: Query): boolean {
+    return query instanceof GetPlayerStatsQuery;
+  }
+
+  async handle(query: GetPlayerStatsQuery): Promise<PlayerStatsView> {
+    const playerId = query.playerId.getValue();
+    const since = getTimeframeStart(query.timeframe ?? 'ALL');
+
+    const [totals, themeTotals, recentGames] = await Promise.all([
+      this.playerStatsRepository.getTotals(playerId, since),
+      this.playerStatsRepository.getThemeTotals(playerId, since),
+      this.playerStatsRepository.getRecentGames(playerId, RECENT_GAMES_LIMIT),
+    ]);
+
+    return {
+      playerId,
+      totalGames: totals.gamesPlayed,
+      gamesWon: totals.gamesWon,
+      gamesLost: totals.gamesLost,
+      gamesTied: totals.gamesTied,
+      winRate: calculateAccuracy(totals.gamesWon, totals.gamesPlayed),
+      averageScore: this.average(totals.totalScore, totals.gamesPlayed),
+      bestScore: totals.bestScore,
+      totalAnswers: totals.totalAnswers,
+      correctAnswers: totals.correctAnswers,
+      accuracy: calculateAccuracy(totals.correctAnswers, totals.totalAnswers),
+      averageResponseTime: this.average(totals.totalResponseTimeMs, totals.totalAnswers),
+      fastestResponse: totals.fastestResponseMs ?? 0,
+      favoriteThemes: this.toFavoriteThemes(themeTotals),
+      recentGames: recentGames.map(game => this.toGameSummary(playerId, game)),
+      achievements: [],
+    };
+  }
+
+  private toFavoriteThemes(themeTotals: PlayerThemeStats[]): ThemeStatsView[] {
+    return [...themeTotals]
+      .sort((a, b) => b.gamesPlayed - a.gamesPlayed || b.totalAnswers - a.totalAnswers)
+      .slice(0, FAVORITE_THEMES_LIMIT)
+      .map(stats => ({
+        theme: this.toThemeView(stats.themeId, stats.themeName, stats.themeDescription),
+        gamesPlayed: stats.gamesPlayed,
+        winRate: calculateAccuracy(stats.gamesWon, stats.gamesPlayed),
+        averageScore: this.average(stats.totalScore, stats.gamesPlayed),
+        accuracy: calculateAccuracy(stats.correctAnswers, stats.totalAnswers),
+      }));
+  }
+
+  private toGameSummary(playerId: string, game: PlayerGameSummary): GameSummaryView {
+    const result = !game.winnerId ? 'TIED' : game.winnerId === playerId ? 'WON' : 'LOST';
+
+    return {
+      gameId: game.gameId,
+      theme: this.toThemeView(game.themeId, game.themeName),
+      opponent: game.opponentId ? {
+        id: game.opponentId,
+        score: game.opponentScore,
+        isConnected: false,
+        lastActivity: game.completedAt,
+        responseStats: {
+          averageTime: game.opponentAverageResponseMs,
+          accuracy: calculateAccuracy(game.opponentCorrectAnswers, game.opponentAnswers),
+          answersCount: game.opponentAnswers,
+        },
+      } : undefined,
+      playerScore: game.playerScore,
+      opponentScore: game.opponentScore,
+      result,
+      duration: game.completedAt.getTime() - game.createdAt.getTime(),
+      playedAt: game.completedAt,
+    };
+  }
+
+  private toThemeView(id: string, name: string, description?: string): ThemeView {
+    return {
+      id,
+      name,
+      description,
+      questionCount: 0,
+      difficulty: QuestionDifficulty.MEDIUM,
+    };
+  }
+
+  private average(total: number, count: number): number {
+    return count === 0 ? 0 : Math.round(total / count);
+  }
+}
+
+export class GetLeaderboardQueryHandler implements QueryHandler<GetLeaderboardQuery, LeaderboardView> {
+  constructor(private readonly leaderboardRepository: LeaderboardRepository) {}
+
+  canHandle(query: Query): boolean {
+    return query instanceof GetLeaderboardQuery;
+  }
+
+  async handle(query: GetLeaderboardQuery): Promise<LeaderboardView> {
+    const scope = query.themeId ?? GLOBAL_LEADERBOARD_SCOPE;
+
+    const [entries, totalPlayers, playerEntry] = await Promise.all([
+      this.leaderboardRepository.getEntries(query.timeframe, scope, query.limit, query.offset),
+      this.leaderboardRepository.countPlayers(query.timeframe, scope),
+      // The caller's own standing, which may be outside the requested page
+      query.userId
+        ? this.leaderboardRepository.getPlayerEntry(query.timeframe, scope, query.userId)
+        : Promise.resolve(null),
+    ]);
+
+    return {
+      entries: entries.map(entry => this.toEntryView(entry)),
+      playerRank: playerEntry?.rank,
+      totalPlayers,
+      updatedAt: new Date(),
+    };
+  }
+
+  private toEntryView(entry: LeaderboardEntry): LeaderboardEntryView {
+    return {
+      rank: entry.rank,
+      player: {
+        id: entry.playerId,
+        score: entry.score,
+        isConnected: false,
+        lastActivity: entry.updatedAt,
+        // Answer-level stats are not tracked per leaderboard period
+        responseStats: {
+          averageTime: 0,
+          accuracy: 0,
+          answersCount: 0,
+        },
+      },
+      score: entry.score,
+      gamesPlayed: entry.gamesPlayed,
+      winRate: calculateAccuracy(entry.gamesWon, entry.gamesPlayed),
+    };
+  }
+}
@@ -4,6 +4,7 @@ import { GameId, PlayerId, Score, ResponseTime, AnswerIndex } from './value-obje
 import { Question, Answer, Player, GameStatus, QuestionDifficulty } from './entities';
 import { 
   DomainEvent, 
+  GameCreatedEvent,
   GameStartedEvent, 
   QuestionStartedEvent, 
   PlayerAnsweredEvent, 
@@ -23,15 +24,25 @@ import {
   InvalidGameStateTransitionError,
   QuestionTimeExpiredError
 } from './exceptions';
-
-// Game Aggregate Root
-export class Game {
-  private domainEvents: DomainEvent[] = [];
+import { EventSourcedAggregate, EventEnvelope } from '../event-sourcing/event-store';
+import { gameEventSerializer } from '../event-sourcing/game-event-serializer';
+
+// What a game snapshot stores, so it can be restored without replaying its events
+export interface GameSnapshotData extends ReturnType<Game['toPrimitives']> {
+  questionIds: string[];
+  currentQuestionStartTime?: Date;
+  playersAnswered: string[];
+}
+
+// Game Aggregate Root. Every change is recorded as a domain event and applied
+// through apply(), so a game can be rebuilt from its event stream alone.
+export class Game extends EventSourcedAggregate {
+  private questionIds: string[] = [];
   private currentQuestionStartTime?: Date;
   private playersAnswered = new Set<string>();
 
   constructor(
-    private readonly id: GameId,
+    private readonly gameId: GameId,
     private readonly player1Id: PlayerId,
     private readonly themeId: string,
     private status: GameStatus = GameStatus.WAITING,
@@ -42,12 +53,15 @@ export class Game {
     private currentQuestionIndex: number = 0,
     private readonly createdAt: Date = new Date(),
     private completedAt?: Date
-  ) {}
+  ) {
+    super(gameId.getValue());
+  }
 
   // Factory methods
-  static create(player1Id: PlayerId, themeId: string): Game {
-    const gameId = GameId.generate();
-    return new Game(gameId, player1Id, themeId);
+  static create(player1Id: PlayerId, themeId: string, gameId: GameId = GameId.generate()): Game {
+    const game = new Game(gameId, player1Id, themeId);
+    game.addEvent(new GameCreatedEvent(gameId, player1Id, themeId));
+    return game;
   }
 
   static reconstitute(
@@ -78,9 +92,44 @@ export class Game {
     );
   }
 
+  // Replays a game's whole event stream, which starts with GameCreated
+  static fromHistory(events: EventEnvelope[]): Game {
+    const created = events[0] && gameEventSerializer.deserialize(events[0].eventType, JSON.stringify(events[0].payload));
+    if (!(created instanceof GameCreatedEvent)) {
+      throw new Error(`Event stream of game ${events[0]?.aggregateId} does not start with GameCreated`);
+    }
+
+    const game = new Game(created.gameId, created.player1Id, created.themeId, GameStatus.WAITING,
+      undefined, undefined, Score.zero(), Score.zero(), 0, created.occurredOn);
+    game.loadFromHistory(events);
+    return game;
+  }
+
+  // Restores a snapshot taken at `version`; events after it are replayed with loadFromHistory
+  static fromSnapshot(data: GameSnapshotData, version: number): Game {
+    const game = Game.reconstitute(
+      data.id,
+      data.player1Id,
+      data.themeId,
+      data.status,
+      data.player2Id,
+      data.winnerId,
+      data.player1Score,
+      data.player2Score,
+      data.currentQuestionIndex,
+      new Date(data.createdAt),
+      data.completedAt ? new Date(data.completedAt) : undefined
+    );
+    game.questionIds = [...data.questionIds];
+    game.currentQuestionStartTime = data.currentQuestionStartTime ? new Date(data.currentQuestionStartTime) : undefined;
+    game.playersAnswered = new Set(data.playersAnswered);
+    game.restoreVersion(version);
+    return game;
+  }
+
   // Getters
   getId(): GameId {
-    return this.id;
+    return this.gameId;
   }
 
   getPlayer1Id(): PlayerId {
@@ -115,6 +164,10 @@ export class Game {
     return this.currentQuestionIndex;
   }
 
+  getQuestionIds(): readonly string[] {
+    return [...this.questionIds];
+  }
+
   getCreatedAt(): Date {
     return new Date(this.createdAt);
   }
@@ -139,41 +192,37 @@ export class Game {
 
   addPlayer2(playerId: PlayerId): void {
     if (!this.canPlayerJoin(playerId)) {
-      throw new GameFullError(this.id.getValue());
+      throw new GameFullError(this.gameId.getValue());
     }
 
-    this.player2Id = playerId;
-    this.addDomainEvent(new PlayerJoinedGameEvent(this.id, playerId, this));
+    this.addEvent(new PlayerJoinedGameEvent(this.gameId, playerId, this));
   }
 
   canStart(): boolean {
     return this.status === GameStatus.WAITING && this.player2Id !== undefined;
   }
 
-  start(questions: Question[]): void {
+  // The game's rules decide how many questions it has
+  start(questionIds: string[]): void {
     if (!this.canStart()) {
-      throw new GameAlreadyStartedError(this.id.getValue());
+      throw new GameAlreadyStartedError(this.gameId.getValue());
     }
 
-    if (questions.length < 5) {
-      throw new Error('Game requires at least 5 questions');
+    if (questionIds.length === 0) {
+      throw new Error('Game requires at least one question');
     }
 
-    this.status = GameStatus.ACTIVE;
-    this.addDomainEvent(new GameStartedEvent(this.id, this, questions[0]));
+    this.addEvent(new GameStartedEvent(this.gameId, this, [...questionIds]));
   }
 
-  startQuestion(question: Question, timeLimit: number): void {
+  startQuestion(questionId: string, timeLimit: number): void {
     if (this.status !== GameStatus.ACTIVE) {
-      throw new GameNotStartedError(this.id.getValue());
+      throw new GameNotStartedError(this.gameId.getValue());
     }
 
-    this.currentQuestionStartTime = new Date();
-    this.playersAnswered.clear();
-    
-    this.addDomainEvent(new QuestionStartedEvent(
-      this.id, 
-      question, 
+    this.addEvent(new QuestionStartedEvent(
+      this.gameId, 
+      questionId, 
       this.currentQuestionIndex, 
       timeLimit
     ));
@@ -205,23 +254,31 @@ export class Game {
       if (this.playersAnswered.has(playerId.getValue())) {
         throw new PlayerAlreadyAnsweredError(playerId.getValue(), question.getId());
       }
-      throw new PlayerNotInGameError(playerId.getValue(), this.id.getValue());
+      throw new PlayerNotInGameError(playerId.getValue(), this.gameId.getValue());
     }
 
-    const answer = Answer.create(this.id, playerId, question, answerIndex, responseTime);
-    let points = 0;
+    const answer = Answer.create(this.gameId, playerId, question, answerIndex, responseTime);
+    const points = answer.isAnswerCorrect() ? question.calculatePoints(responseTime) : 0;
 
-    if (answer.isAnswerCorrect()) {
-      points = question.calculatePoints(responseTime);
-      this.addPointsToPlayer(playerId, points);
-    }
-
-    this.playersAnswered.add(playerId.getValue());
-    this.addDomainEvent(new PlayerAnsweredEvent(this.id, playerId, answer, points));
+    this.addEvent(new PlayerAnsweredEvent(this.gameId, playerId, answer, points));
 
     return { points, answer };
   }
 
+  // An answer the game engine already judged and scored. The engine knows every
+  // question type and the game's own time limit, which this aggregate does not.
+  recordAnswer(answer: Answer, points: number): void {
+    const playerId = answer.getPlayerId();
+    if (!this.canPlayerAnswer(playerId)) {
+      if (this.playersAnswered.has(playerId.getValue())) {
+        throw new PlayerAlreadyAnsweredError(playerId.getValue(), answer.getQuestionId());
+      }
+      throw new PlayerNotInGameError(playerId.getValue(), this.gameId.getValue());
+    }
+
+    this.addEvent(new PlayerAnsweredEvent(this.gameId, playerId, answer, points));
+  }
+
   private addPointsToPlayer(playerId: PlayerId, points: number): void {
     if (this.player1Id.equals(playerId)) {
       this.player1Score = this.player1Score.add(points);
@@ -235,29 +292,16 @@ export class Game {
     return this.playersAnswered.size >= expectedPlayers;
   }
 
-  completeQuestion(question: Question): void {
+  completeQuestion(questionId: string, correctAnswer: number): void {
     if (this.status !== GameStatus.ACTIVE) {
-      throw new GameNotStartedError(this.id.getValue());
-    }
-
-    const playerScores = new Map<string, number>();
-    playerScores.set(this.player1Id.getValue(), this.player1Score.getValue());
-    if (this.player2Id) {
-      playerScores.set(this.player2Id.getValue(), this.player2Score.getValue());
+      throw new GameNotStartedError(this.gameId.getValue());
     }
 
-    this.addDomainEvent(new QuestionCompletedEvent(
-      this.id,
-      question,
-      question.getCorrectAnswerIndex().getValue(),
-      playerScores
-    ));
-
-    this.currentQuestionIndex++;
+    this.addEvent(new QuestionCompletedEvent(this.gameId, questionId, correctAnswer, this.getScoresByPlayer()));
   }
 
   canComplete(): boolean {
-    return this.status === GameStatus.ACTIVE && this.currentQuestionIndex >= 5;
+    return this.status === GameStatus.ACTIVE && this.currentQuestionIndex >= this.questionIds.length;
   }
 
   complete(): void {
@@ -265,17 +309,29 @@ export class Game {
       throw new InvalidGameStateTransitionError(this.status, GameStatus.COMPLETED);
     }
 
-    this.status = GameStatus.COMPLETED;
-    this.completedAt = new Date();
-    this.winnerId = this.determineWinner();
+    this.addEvent(new GameCompletedEvent(this.gameId, this, this.determineWinner(), this.getScoresByPlayer()));
+  }
 
-    const finalScores = new Map<string, number>();
-    finalScores.set(this.player1Id.getValue(), this.player1Score.getValue());
-    if (this.player2Id) {
-      finalScores.set(this.player2Id.getValue(), this.player2Score.getValue());
+  // Ends the game early; the opponent of the player who left wins
+  forfeit(playerId: PlayerId): void {
+    if (this.status !== GameStatus.ACTIVE) {
+      throw new GameNotStartedError(this.gameId.getValue());
+    }
+    if (!this.isPlayerInGame(playerId)) {
+      throw new PlayerNotInGameError(playerId.getValue(), this.gameId.getValue());
     }
 
-    this.addDomainEvent(new GameCompletedEvent(this.id, this, this.winnerId, finalScores));
+    const winnerId = this.player1Id.equals(playerId) ? this.player2Id : this.player1Id;
+    this.addEvent(new GameCompletedEvent(this.gameId, this, winnerId, this.getScoresByPlayer()));
+  }
+
+  private getScoresByPlayer(): Map<string, number> {
+    const scores = new Map<string, number>();
+    scores.set(this.player1Id.getValue(), this.player1Score.getValue());
+    if (this.player2Id) {
+      scores.set(this.player2Id.getValue(), this.player2Score.getValue());
+    }
+    return scores;
   }
 
   private determineWinner(): PlayerId | undefined {
@@ -294,12 +350,40 @@ export class Game {
 
   cancel(reason: string): void {
     if (this.status === GameStatus.COMPLETED) {
-      throw new GameAlreadyCompletedError(this.id.getValue());
+      throw new GameAlreadyCompletedError(this.gameId.getValue());
     }
 
-    this.status = GameStatus.CANCELLED;
-    this.completedAt = new Date();
-    this.addDomainEvent(new GameCancelledEvent(this.id, reason));
+    this.addEvent(new GameCancelledEvent(this.gameId, reason));
+  }
+
+  // The only place game state changes, both for new events and replayed ones
+  protected apply(event: DomainEvent): void {
+    if (event instanceof PlayerJoinedGameEvent) {
+      this.player2Id = event.playerId;
+    } else if (event instanceof GameStartedEvent) {
+      this.status = GameStatus.ACTIVE;
+      this.questionIds = [...event.questionIds];
+    } else if (event instanceof QuestionStartedEvent) {
+      this.currentQuestionStartTime = event.occurredOn;
+      this.playersAnswered.clear();
+    } else if (event instanceof PlayerAnsweredEvent) {
+      this.addPointsToPlayer(event.playerId, event.pointsAwarded);
+      this.playersAnswered.add(event.playerId.getValue());
+    } else if (event instanceof QuestionCompletedEvent) {
+      this.currentQuestionIndex++;
+    } else if (event instanceof GameCompletedEvent) {
+      this.status = GameStatus.COMPLETED;
+      this.completedAt = event.occurredOn;
+      this.winnerId = event.winnerId;
+    } else if (event instanceof GameCancelledEvent) {
+      this.status = GameStatus.CANCELLED;
+      this.completedAt = event.occurredOn;
+    }
+    // GameCreated: identity, players and theme come from the constructor
+  }
+
+  protected deserializeEvent(envelope: EventEnvelope): DomainEvent {
+    return gameEventSerializer.deserialize(envelope.eventType, JSON.stringify(envelope.payload));
   }
 
   isPlayerInGame(playerId: PlayerId): boolean {
@@ -328,16 +412,12 @@ export class Game {
   }
 
   // Domain Events management
-  addDomainEvent(event: DomainEvent): void {
-    this.domainEvents.push(event);
-  }
-
   getDomainEvents(): readonly DomainEvent[] {
-    return [...this.domainEvents];
+    return this.uncommittedEvents;
   }
 
   clearDomainEvents(): void {
-    this.domainEvents = [];
+    this.markEventsAsCommitted();
   }
 
   // Conversion methods for persistence
@@ -355,7 +435,7 @@ export class Game {
     completedAt?: Date;
   } {
     return {
-      id: this.id.getValue(),
+      id: this.gameId.getValue(),
       player1Id: this.player1Id.getValue(),
       player2Id: this.player2Id?.getValue(),
       themeId: this.themeId,
@@ -368,4 +448,13 @@ export class Game {
       completedAt: this.completedAt
     };
   }
-}
\ No newline at end of file
+
+  toSnapshot(): GameSnapshotData {
+    return {
+      ...this.toPrimitives(),
+      questionIds: [...this.questionIds],
+      currentQuestionStartTime: this.currentQuestionStartTime,
+      playersAnswered: Array.from(this.playersAnswered),
+    };
+  }
+}
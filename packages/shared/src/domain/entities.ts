@@ -88,10 +88,11 @@ export class Answer {
     private readonly gameId: GameId,
     private readonly playerId: PlayerId,
     private readonly questionId: string,
-    private readonly selectedAnswer: AnswerIndex,
+    private readonly selectedAnswer: AnswerIndex | null, // Null for numeric and short answers
     private readonly isCorrect: boolean,
     private readonly responseTime: ResponseTime,
-    private readonly answeredAt: Date
+    private readonly answeredAt: Date,
+    private readonly answerText: string | null = null // Numeric and short answers as typed
   ) {}
 
   getId(): string {
@@ -110,10 +111,14 @@ export class Answer {
     return this.questionId;
   }
 
-  getSelectedAnswer(): AnswerIndex {
+  getSelectedAnswer(): AnswerIndex | null {
     return this.selectedAnswer;
   }
 
+  getAnswerText(): string | null {
+    return this.answerText;
+  }
+
   isAnswerCorrect(): boolean {
     return this.isCorrect;
   }
@@ -2,7 +2,7 @@
 
 import { GameId, PlayerId } from './value-objects';
 import { Game } from './aggregates';
-import { Question, Answer } from './entities';
+import { Answer } from './entities';
 
 export abstract class DomainEvent {
   public readonly occurredOn: Date;
@@ -16,11 +16,25 @@ export abstract class DomainEvent {
   abstract getEventName(): string;
 }
 
+export class GameCreatedEvent extends DomainEvent {
+  constructor(
+    public readonly gameId: GameId,
+    public readonly player1Id: PlayerId,
+    public readonly themeId: string
+  ) {
+    super();
+  }
+
+  getEventName(): string {
+    return 'GameCreated';
+  }
+}
+
 export class GameStartedEvent extends DomainEvent {
   constructor(
     public readonly gameId: GameId,
     public readonly game: Game,
-    public readonly firstQuestion: Question
+    public readonly questionIds: string[] // In the order they are asked
   ) {
     super();
   }
@@ -33,7 +47,7 @@ export class GameStartedEvent extends DomainEvent {
 export class QuestionStartedEvent extends DomainEvent {
   constructor(
     public readonly gameId: GameId,
-    public readonly question: Question,
+    public readonly questionId: string,
     public readonly questionIndex: number,
     public readonly timeLimit: number
   ) {
@@ -63,8 +77,8 @@ export class PlayerAnsweredEvent extends DomainEvent {
 export class QuestionCompletedEvent extends DomainEvent {
   constructor(
     public readonly gameId: GameId,
-    public readonly question: Question,
-    public readonly correctAnswer: number,
+    public readonly questionId: string,
+    public readonly correctAnswer: number, // Option index, or the value of a numeric question
     public readonly playerScores: Map<string, number>
   ) {
     super();
@@ -3,6 +3,7 @@
 import { GameId, PlayerId, AnswerIndex, ResponseTime } from './value-objects';
 import { Game } from './aggregates';
 import { Question, Theme, GameStatus, QuestionDifficulty } from './entities';
+import { QUESTION_EXPOSURE_CONFIG } from '../types';
 import { 
   GameRepository, 
   QuestionRepository, 
@@ -81,7 +82,7 @@ export class GameOrchestrationService {
     }
 
     // Start the game
-    game.start(questions);
+    game.start(questions.map(question => question.getId()));
 
     return { game, questions };
   }
@@ -145,7 +146,7 @@ export class GameOrchestrationService {
     const currentQuestion = questions[game.getCurrentQuestionIndex()];
     
     if (currentQuestion) {
-      game.completeQuestion(currentQuestion);
+      game.completeQuestion(currentQuestion.getId(), currentQuestion.getCorrectAnswerIndex().getValue());
     }
 
     return game;
@@ -213,18 +214,22 @@ export class QuestionSelectionService {
   async selectQuestionsForGame(
     themeId: string, 
     requiredCount: number = 5,
-    preferredDifficulty?: QuestionDifficulty
+    preferredDifficulty?: QuestionDifficulty,
+    playerIds: string[] = []
   ): Promise<Question[]> {
     // Get all available questions for theme
-    const availableQuestions = await this.questionRepository.getRandomQuestionsByTheme(
+    const candidateQuestions = await this.questionRepository.getRandomQuestionsByTheme(
       themeId, 
-      requiredCount * 2 // Get more than needed for better selection
+      requiredCount * QUESTION_EXPOSURE_CONFIG.SAMPLE_FACTOR // Get more than needed for better selection
     );
 
-    if (availableQuestions.length < requiredCount) {
-      throw new InsufficientQuestionsError(themeId, requiredCount, availableQuestions.length);
+    if (candidateQuestions.length < requiredCount) {
+      throw new InsufficientQuestionsError(themeId, requiredCount, candidateQuestions.length);
     }
 
+    // Leave out questions either player has seen recently while enough others remain
+    const availableQuestions = await this.excludeRecentlySeen(candidateQuestions, playerIds, requiredCount);
+
     // If preferred difficulty specified, prioritize those questions
     if (preferredDifficulty) {
       const preferredQuestions = availableQuestions.filter(
@@ -251,6 +256,16 @@ export class QuestionSelectionService {
     return this.selectBalancedQuestions(availableQuestions, requiredCount);
   }
 
+  private async excludeRecentlySeen(questions: Question[], playerIds: string[], requiredCount: number): Promise<Question[]> {
+    if (playerIds.length === 0) return questions;
+
+    const since = new Date(Date.now() - QUESTION_EXPOSURE_CONFIG.RECENT_DAYS * 24 * 60 * 60 * 1000);
+    const seenIds = new Set(await this.questionRepository.getRecentlySeenQuestionIds(playerIds, since));
+    const unseenQuestions = questions.filter(q => !seenIds.has(q.getId()));
+
+    return unseenQuestions.length >= requiredCount ? unseenQuestions : questions;
+  }
+
   private selectBalancedQuestions(questions: Question[], count: number): Question[] {
     // Group by difficulty
     const easyQuestions = questions.filter(q => q.getDifficulty() === QuestionDifficulty.EASY);
@@ -1,5 +1,7 @@
 // Value Objects - Immutable objects that represent domain concepts
 
+import { QUESTION_TYPE_CONFIG } from '../types';
+
 export class PlayerId {
   private constructor(private readonly value: string) {
     if (!value || value.trim().length === 0) {
@@ -130,8 +132,8 @@ export class ResponseTime {
 
 export class AnswerIndex {
   private constructor(private readonly value: number) {
-    if (!Number.isInteger(value) || value < 0 || value > 3) {
-      throw new Error('Answer index must be an integer between 0 and 3');
+    if (!Number.isInteger(value) || value < 0 || value >= QUESTION_TYPE_CONFIG.MAX_OPTIONS) {
+      throw new Error(`Answer index must be an integer between 0 and ${QUESTION_TYPE_CONFIG.MAX_OPTIONS - 1}`);
     }
   }
 
@@ -177,8 +179,8 @@ export class QuestionText {
 
 export class QuestionOptions {
   private constructor(private readonly options: string[]) {
-    if (options.length !== 4) {
-      throw new Error('Question must have exactly 4 options');
+    if (options.length < QUESTION_TYPE_CONFIG.MIN_OPTIONS || options.length > QUESTION_TYPE_CONFIG.MAX_OPTIONS) {
+      throw new Error(`Question must have ${QUESTION_TYPE_CONFIG.MIN_OPTIONS} to ${QUESTION_TYPE_CONFIG.MAX_OPTIONS} options`);
     }
     if (options.some(option => !option || option.trim().length === 0)) {
       throw new Error('All question options must be non-empty');
@@ -12,6 +12,7 @@ export interface EventEnvelope {
   payload: any;
   metadata: EventMetadata;
   timestamp: Date;
+  position?: number; // Order across all aggregates, for getAllEvents
 }
 
 export interface EventMetadata {
@@ -32,6 +33,7 @@ export interface EventStore {
     metadata?: EventMetadata
   ): Promise<void>;
   
+  // Events from fromVersion (inclusive) onwards, in version order
   getEvents(
     aggregateId: string, 
     fromVersion?: number
@@ -136,10 +138,17 @@ export abstract class EventSourcedAggregate {
     this.apply(event);
   }
 
+  // Call once the events are saved; they become part of the stored version
   markEventsAsCommitted(): void {
+    this._version += this._uncommittedEvents.length;
     this._uncommittedEvents = [];
   }
 
+  // For aggregates restored from a snapshot rather than replayed from version 1
+  protected restoreVersion(version: number): void {
+    this._version = version;
+  }
+
   loadFromHistory(events: EventEnvelope[]): void {
     events.forEach(envelope => {
       const event = this.deserializeEvent(envelope);
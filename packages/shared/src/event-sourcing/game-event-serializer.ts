@@ -0,0 +1,182 @@
+// Game Event Serializer - Domain events of the Game aggregate to JSON and back
+
+import {
+  DomainEvent,
+  GameCreatedEvent,
+  GameStartedEvent,
+  QuestionStartedEvent,
+  PlayerAnsweredEvent,
+  QuestionCompletedEvent,
+  GameCompletedEvent,
+  PlayerJoinedGameEvent,
+  PlayerDisconnectedEvent,
+  GameCancelledEvent
+} from '../domain/events';
+import { Game } from '../domain/aggregates';
+import { Answer } from '../domain/entities';
+import { GameId, PlayerId, AnswerIndex, ResponseTime } from '../domain/value-objects';
+import { EventSerializer } from './event-store';
+
+type GamePrimitives = ReturnType<Game['toPrimitives']>;
+
+interface AnswerPrimitives {
+  id: string;
+  questionId: string;
+  selectedAnswer: number | null;
+  answerText: string | null;
+  isCorrect: boolean;
+  responseTimeMs: number;
+  answeredAt: string;
+}
+
+// Value objects and entities are stored as primitives, and questions by id. Events
+// that carry the whole game store it as it was when the event was serialized;
+// replaying a game never reads it.
+export class GameEventSerializer implements EventSerializer {
+  serialize(event: DomainEvent): string {
+    return JSON.stringify({
+      eventId: event.eventId,
+      occurredOn: event.occurredOn,
+      ...this.toPayload(event),
+    });
+  }
+
+  deserialize(eventType: string, payload: string): DomainEvent {
+    const data = JSON.parse(payload);
+    const event = this.fromPayload(eventType, data);
+
+    // Keep the identity and time of the original event
+    Object.assign(event, { eventId: data.eventId, occurredOn: new Date(data.occurredOn) });
+    return event;
+  }
+
+  private toPayload(event: DomainEvent): Record<string, unknown> {
+    if (event instanceof GameCreatedEvent) {
+      return { gameId: event.gameId.getValue(), player1Id: event.player1Id.getValue(), themeId: event.themeId };
+    }
+    if (event instanceof PlayerJoinedGameEvent) {
+      return { gameId: event.gameId.getValue(), playerId: event.playerId.getValue(), game: event.game.toPrimitives() };
+    }
+    if (event instanceof GameStartedEvent) {
+      return { gameId: event.gameId.getValue(), game: event.game.toPrimitives(), questionIds: event.questionIds };
+    }
+    if (event instanceof QuestionStartedEvent) {
+      return {
+        gameId: event.gameId.getValue(),
+        questionId: event.questionId,
+        questionIndex: event.questionIndex,
+        timeLimit: event.timeLimit,
+      };
+    }
+    if (event instanceof PlayerAnsweredEvent) {
+      return {
+        gameId: event.gameId.getValue(),
+        playerId: event.playerId.getValue(),
+        answer: toAnswerPrimitives(event.answer),
+        pointsAwarded: event.pointsAwarded,
+      };
+    }
+    if (event instanceof QuestionCompletedEvent) {
+      return {
+        gameId: event.gameId.getValue(),
+        questionId: event.questionId,
+        correctAnswer: event.correctAnswer,
+        playerScores: Array.from(event.playerScores),
+      };
+    }
+    if (event instanceof GameCompletedEvent) {
+      return {
+        gameId: event.gameId.getValue(),
+        game: event.game.toPrimitives(),
+        winnerId: event.winnerId?.getValue(),
+        finalScores: Array.from(event.finalScores),
+      };
+    }
+    if (event instanceof PlayerDisconnectedEvent) {
+      return { gameId: event.gameId.getValue(), playerId: event.playerId.getValue() };
+    }
+    if (event instanceof GameCancelledEvent) {
+      return { gameId: event.gameId.getValue(), reason: event.reason };
+    }
+    throw new Error(`Cannot serialize event ${event.getEventName()}`);
+  }
+
+  private fromPayload(eventType: string, data: any): DomainEvent {
+    const gameId = GameId.create(data.gameId);
+
+    switch (eventType) {
+      case 'GameCreated':
+        return new GameCreatedEvent(gameId, PlayerId.create(data.player1Id), data.themeId);
+      case 'PlayerJoinedGame':
+        return new PlayerJoinedGameEvent(gameId, PlayerId.create(data.playerId), fromGamePrimitives(data.game));
+      case 'GameStarted':
+        return new GameStartedEvent(gameId, fromGamePrimitives(data.game), data.questionIds);
+      case 'QuestionStarted':
+        return new QuestionStartedEvent(gameId, data.questionId, data.questionIndex, data.timeLimit);
+      case 'PlayerAnswered': {
+        const playerId = PlayerId.create(data.playerId);
+        return new PlayerAnsweredEvent(gameId, playerId, fromAnswerPrimitives(gameId, playerId, data.answer), data.pointsAwarded);
+      }
+      case 'QuestionCompleted':
+        return new QuestionCompletedEvent(gameId, data.questionId, data.correctAnswer, new Map(data.playerScores));
+      case 'GameCompleted':
+        return new GameCompletedEvent(
+          gameId,
+          fromGamePrimitives(data.game),
+          data.winnerId ? PlayerId.create(data.winnerId) : undefined,
+          new Map(data.finalScores)
+        );
+      case 'PlayerDisconnected':
+        return new PlayerDisconnectedEvent(gameId, PlayerId.create(data.playerId));
+      case 'GameCancelled':
+        return new GameCancelledEvent(gameId, data.reason);
+      default:
+        throw new Error(`Unknown game event type ${eventType}`);
+    }
+  }
+}
+
+function toAnswerPrimitives(answer: Answer): AnswerPrimitives {
+  return {
+    id: answer.getId(),
+    questionId: answer.getQuestionId(),
+    selectedAnswer: answer.getSelectedAnswer()?.getValue() ?? null,
+    answerText: answer.getAnswerText(),
+    isCorrect: answer.isAnswerCorrect(),
+    responseTimeMs: answer.getResponseTime().getMilliseconds(),
+    answeredAt: answer.getAnsweredAt().toISOString(),
+  };
+}
+
+function fromAnswerPrimitives(gameId: GameId, playerId: PlayerId, data: AnswerPrimitives): Answer {
+  return new Answer(
+    data.id,
+    gameId,
+    playerId,
+    data.questionId,
+    data.selectedAnswer === null ? null : AnswerIndex.create(data.selectedAnswer),
+    data.isCorrect,
+    ResponseTime.create(data.responseTimeMs),
+    new Date(data.answeredAt),
+    data.answerText
+  );
+}
+
+// Dates arrive as strings
+function fromGamePrimitives(data: GamePrimitives): Game {
+  return Game.reconstitute(
+    data.id,
+    data.player1Id,
+    data.themeId,
+    data.status,
+    data.player2Id,
+    data.winnerId,
+    data.player1Score,
+    data.player2Score,
+    data.currentQuestionIndex,
+    new Date(data.createdAt),
+    data.completedAt ? new Date(data.completedAt) : undefined
+  );
+}
+
+export const gameEventSerializer = new GameEventSerializer();
@@ -0,0 +1,48 @@
+// Event-sourced Game repository - games live only as their event streams
+
+import { Game, GameSnapshotData } from '../domain/aggregates';
+import { EventStore, SnapshotStore, EventSourcedRepository, EventMetadata } from './event-store';
+
+const AGGREGATE_TYPE = 'Game';
+
+// Loads a game from its latest snapshot plus the events after it, or from the
+// whole stream when there is no snapshot yet. A snapshot is taken every
+// `snapshotFrequency` events.
+export class EventSourcedGameRepository implements EventSourcedRepository<Game> {
+  constructor(
+    private readonly eventStore: EventStore,
+    private readonly snapshotStore: SnapshotStore,
+    private readonly snapshotFrequency: number = 20,
+    private readonly metadata: EventMetadata = { source: 'quiz-battle' }
+  ) {}
+
+  // expectedVersion is the version the game was loaded at (0 for a new game).
+  // Throws ConcurrencyError if someone else saved the game since.
+  async save(game: Game, expectedVersion: number): Promise<void> {
+    const events = game.uncommittedEvents;
+    if (events.length === 0) return;
+
+    await this.eventStore.saveEvents(game.id, AGGREGATE_TYPE, events, expectedVersion, this.metadata);
+    game.markEventsAsCommitted();
+
+    if (Math.floor(game.version / this.snapshotFrequency) > Math.floor(expectedVersion / this.snapshotFrequency)) {
+      await this.snapshotStore.saveSnapshot(game.id, AGGREGATE_TYPE, game.version, game.toSnapshot());
+    }
+  }
+
+  async getById(id: string): Promise<Game | null> {
+    const snapshot = await this.snapshotStore.getSnapshot(id);
+    if (snapshot) {
+      const game = Game.fromSnapshot(snapshot.data as GameSnapshotData, snapshot.version);
+      game.loadFromHistory(await this.eventStore.getEvents(id, snapshot.version + 1));
+      return game;
+    }
+
+    const events = await this.eventStore.getEvents(id);
+    return events.length > 0 ? Game.fromHistory(events) : null;
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return (await this.eventStore.getEvents(id, 1)).length > 0;
+  }
+}
@@ -0,0 +1,5 @@
+// Event sourcing exports
+
+export * from './event-store';
+export * from './game-event-serializer';
+export * from './game-repository';
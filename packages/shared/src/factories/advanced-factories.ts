@@ -8,12 +8,14 @@ import {
   ThemeIsActiveSpecification,
   ValidGameStartConditionsSpecification 
 } from '../specifications/business-rules';
+import { ThemeNotFoundError, ThemeNotActiveError } from '../domain/exceptions';
 import { QuestionRepository, ThemeRepository } from '../repositories';
 
 // Game Factory - Creates games with optimal configurations
 export interface GameFactory {
   createStandardGame(player1Id: PlayerId, themeId: string): Promise<Game>;
-  createPrivateGame(player1Id: PlayerId, player2Id: PlayerId, themeId: string): Promise<Game>;
+  // Without player2Id the second seat stays open, e.g. for whoever redeems an invite code
+  createPrivateGame(player1Id: PlayerId, themeId: string, player2Id?: PlayerId): Promise<Game>;
   createTournamentGame(players: PlayerId[], themeId: string, tournamentConfig: TournamentConfig): Promise<Game>;
   createPracticeGame(playerId: PlayerId, themeId: string, difficulty: QuestionDifficulty): Promise<Game>;
 }
@@ -27,10 +29,8 @@ export interface TournamentConfig {
 
 export class SmartGameFactory implements GameFactory {
   constructor(
-    private readonly questionRepository: QuestionRepository,
     private readonly themeRepository: ThemeRepository,
-    private readonly questionSelector: QuestionSelectionService,
-    private readonly difficultyCalculator: DifficultyCalculationService
+    private readonly questionSelector: QuestionSelectionService
   ) {}
 
   async createStandardGame(player1Id: PlayerId, themeId: string): Promise<Game> {
@@ -46,11 +46,13 @@ export class SmartGameFactory implements GameFactory {
     return game;
   }
 
-  async createPrivateGame(player1Id: PlayerId, player2Id: PlayerId, themeId: string): Promise<Game> {
+  async createPrivateGame(player1Id: PlayerId, themeId: string, player2Id?: PlayerId): Promise<Game> {
     const theme = await this.validateTheme(themeId);
     
     const game = Game.create(player1Id, themeId);
-    game.addPlayer2(player2Id);
+    if (player2Id) {
+      game.addPlayer2(player2Id);
+    }
     
     await this.applyGameCreationPolicies(game, theme);
     
@@ -67,7 +69,7 @@ export class SmartGameFactory implements GameFactory {
     }
 
     const theme = await this.validateTheme(themeId);
-    const game = await this.createPrivateGame(players[0], players[1], themeId);
+    const game = await this.createPrivateGame(players[0], themeId, players[1]);
     
     // Apply tournament-specific rules
     await this.applyTournamentPolicies(game, tournamentConfig);
@@ -98,12 +100,12 @@ export class SmartGameFactory implements GameFactory {
   private async validateTheme(themeId: string): Promise<Theme> {
     const theme = await this.themeRepository.getThemeById(themeId);
     if (!theme) {
-      throw new Error(`Theme ${themeId} not found`);
+      throw new ThemeNotFoundError(themeId);
     }
 
     const themeSpec = new ThemeIsActiveSpecification();
     if (!themeSpec.isSatisfiedBy(theme)) {
-      throw new Error(`Theme ${themeId} is not active`);
+      throw new ThemeNotActiveError(themeId);
     }
 
     return theme;
@@ -203,15 +205,8 @@ export class IntelligentQuestionFactory implements QuestionFactory {
     variables: Record<string, string>
   ): Question {
     // Replace variables in template
-    let text = template.textTemplate;
-    const options = [...template.optionTemplates];
-
-    for (const [key, value] of Object.entries(variables)) {
-      text = text.replace(new RegExp(`{{${key}}}`, 'g'), value);
-      for (let i = 0; i < options.length; i++) {
-        options[i] = options[i].replace(new RegExp(`{{${key}}}`, 'g'), value);
-      }
-    }
+    const text = fillTemplate(template.textTemplate, variables);
+    const options = template.optionTemplates.map(option => fillTemplate(option, variables));
 
     return this.createQuestion(
       template.themeId,
@@ -314,6 +309,124 @@ export class IntelligentQuestionFactory implements QuestionFactory {
   }
 }
 
+// Replaces {name} and {{name}} placeholders; unknown names are left in place
+export function fillTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}|\{(\w+)\}/g, (placeholder, double?: string, single?: string) => {
+    const value = variables[(double ?? single)!];
+    return value !== undefined ? value : placeholder;
+  });
+}
+
+// A template together with the local data table it is filled from. Every row
+// becomes one question whose correct option is the row's answerVariable value.
+export interface TemplateDataSet {
+  template: QuestionTemplate; // optionTemplates and correctAnswerIndex are generated per row
+  answerVariable: string;
+  distractorGroupBy?: string; // Prefer distractors from rows with the same value, e.g. continent
+  rows: Record<string, string>[];
+}
+
+export interface GeneratedTemplateQuestions {
+  questions: { row: number; question: Question; variables: Record<string, string> }[];
+  skipped: { row: number; reason: string }[];
+}
+
+// Generates question families from templates. Distractors are other answers from the
+// same data table: nearest values for numbers, the same group when one is configured,
+// otherwise any other row.
+export class TemplateQuestionGenerator {
+  constructor(
+    private readonly questionFactory: QuestionFactory,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  generate(dataSet: TemplateDataSet): GeneratedTemplateQuestions {
+    const { template, answerVariable, rows } = dataSet;
+    const result: GeneratedTemplateQuestions = { questions: [], skipped: [] };
+
+    rows.forEach((variables, index) => {
+      const row = index + 1;
+      const answer = variables[answerVariable]?.trim();
+      if (!answer) {
+        result.skipped.push({ row, reason: `Missing value for {${answerVariable}}` });
+        return;
+      }
+
+      const text = fillTemplate(template.textTemplate, variables);
+      const unresolved = text.match(/\{\{?\w+\}\}?/);
+      if (unresolved) {
+        result.skipped.push({ row, reason: `Missing value for ${unresolved[0]}` });
+        return;
+      }
+
+      const distractors = this.pickDistractors(dataSet, variables, answer);
+      if (distractors.length < 3) {
+        result.skipped.push({ row, reason: 'Not enough distinct answers in the data table for 3 distractors' });
+        return;
+      }
+
+      const correctAnswerIndex = Math.floor(this.random() * 4);
+      const optionTemplates = [...distractors];
+      optionTemplates.splice(correctAnswerIndex, 0, answer);
+
+      try {
+        const question = this.questionFactory.createQuestionFromTemplate(
+          { ...template, optionTemplates, correctAnswerIndex },
+          variables
+        );
+        result.questions.push({ row, question, variables });
+      } catch (error) {
+        result.skipped.push({ row, reason: (error as Error).message });
+      }
+    });
+
+    return result;
+  }
+
+  private pickDistractors(dataSet: TemplateDataSet, variables: Record<string, string>, answer: string): string[] {
+    const { template, answerVariable, distractorGroupBy, rows } = dataSet;
+    const normalized = (value: string) => value.trim().toLowerCase();
+
+    // Distinct answers other than the correct one, each with the row it came from
+    const pool = new Map<string, Record<string, string>>();
+    for (const candidate of rows) {
+      const value = candidate[answerVariable]?.trim();
+      if (value && normalized(value) !== normalized(answer) && !pool.has(value)) {
+        pool.set(value, candidate);
+      }
+    }
+
+    const shuffled = this.shuffle([...pool.keys()]);
+    const answerType = template.variables.find(variable => variable.name === answerVariable)?.type;
+
+    if (answerType === 'number' && !Number.isNaN(Number(answer))) {
+      // Close numbers are harder to rule out than far away ones
+      const distance = (value: string) => Math.abs(Number(value) - Number(answer));
+      return shuffled
+        .filter(value => !Number.isNaN(Number(value)))
+        .sort((a, b) => distance(a) - distance(b))
+        .slice(0, 3);
+    }
+
+    if (distractorGroupBy && variables[distractorGroupBy]) {
+      const group = variables[distractorGroupBy];
+      const sameGroup = shuffled.filter(value => pool.get(value)![distractorGroupBy] === group);
+      const otherGroups = shuffled.filter(value => pool.get(value)![distractorGroupBy] !== group);
+      return [...sameGroup, ...otherGroups].slice(0, 3);
+    }
+
+    return shuffled.slice(0, 3);
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
 // Supporting services
 interface ContentValidator {
   validate(question: Question): { isValid: boolean; errors: string[] };
@@ -323,7 +436,7 @@ interface DifficultyAnalyzer {
   analyzeDifficulty(question: Question): QuestionDifficulty;
 }
 
-interface QuestionSelectionService {
+export interface QuestionSelectionService {
   selectQuestionsByDifficulty(
     themeId: string, 
     difficulty: QuestionDifficulty, 
@@ -331,10 +444,6 @@ interface QuestionSelectionService {
   ): Promise<Question[]>;
 }
 
-interface DifficultyCalculationService {
-  calculateOptimalDifficulty(playerHistory: any[]): QuestionDifficulty;
-}
-
 // Factory Registry for managing multiple factories
 export class FactoryRegistry {
   private factories = new Map<string, any>();
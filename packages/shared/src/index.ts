@@ -1,5 +1,6 @@
 export * from './types';
 export * from './utils';
+export * from './rating';
 
 // Export domain layer with aliases to avoid conflicts
 export * as Domain from './domain';
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Glicko2Rating,
+  createInitialRating,
+  expectedScore,
+  outcomeToScore,
+  updateGlicko2Rating
+} from './rating';
+import { RATING_CONFIG } from './types';
+
+const rating = (value: number, ratingDeviation: number, volatility = 0.06): Glicko2Rating => ({
+  rating: value,
+  ratingDeviation,
+  volatility,
+});
+
+describe('createInitialRating', () => {
+  it('starts every player at the configured defaults', () => {
+    expect(createInitialRating()).toEqual({
+      rating: RATING_CONFIG.DEFAULT_RATING,
+      ratingDeviation: RATING_CONFIG.DEFAULT_RATING_DEVIATION,
+      volatility: RATING_CONFIG.DEFAULT_VOLATILITY,
+    });
+  });
+});
+
+describe('outcomeToScore', () => {
+  it('scores a win 1, a tie 0.5 and a loss 0', () => {
+    expect(outcomeToScore('WON')).toBe(1);
+    expect(outcomeToScore('TIED')).toBe(0.5);
+    expect(outcomeToScore('LOST')).toBe(0);
+  });
+});
+
+describe('expectedScore', () => {
+  // The worked example in the Glicko-2 paper
+  it('matches the expected scores of the paper example', () => {
+    const player = rating(1500, 200);
+    expect(expectedScore(player, rating(1400, 30))).toBeCloseTo(0.639, 3);
+    expect(expectedScore(player, rating(1550, 100))).toBeCloseTo(0.432, 3);
+    expect(expectedScore(player, rating(1700, 300))).toBeCloseTo(0.303, 3);
+  });
+
+  it('is even between equal players', () => {
+    expect(expectedScore(createInitialRating(), createInitialRating())).toBeCloseTo(0.5, 10);
+  });
+
+  it('favours the higher rated player', () => {
+    const strong = rating(1800, 50);
+    const weak = rating(1400, 50);
+    expect(expectedScore(strong, weak)).toBeGreaterThan(0.5);
+    expect(expectedScore(strong, weak) + expectedScore(weak, strong)).toBeCloseTo(1, 10);
+  });
+});
+
+describe('updateGlicko2Rating', () => {
+  it('moves equal players apart by the same amount', () => {
+    const winner = updateGlicko2Rating(createInitialRating(), createInitialRating(), 1);
+    const loser = updateGlicko2Rating(createInitialRating(), createInitialRating(), 0);
+
+    expect(winner.rating).toBeGreaterThan(RATING_CONFIG.DEFAULT_RATING);
+    expect(loser.rating).toBeLessThan(RATING_CONFIG.DEFAULT_RATING);
+    expect(winner.rating - RATING_CONFIG.DEFAULT_RATING).toBeCloseTo(RATING_CONFIG.DEFAULT_RATING - loser.rating, 6);
+  });
+
+  it('leaves the rating of equal players unchanged on a draw', () => {
+    const drawn = updateGlicko2Rating(createInitialRating(), createInitialRating(), 0.5);
+    expect(drawn.rating).toBeCloseTo(RATING_CONFIG.DEFAULT_RATING, 6);
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    const player = rating(1500, 100);
+    const upset = updateGlicko2Rating(player, rating(1800, 100), 1);
+    const expected = updateGlicko2Rating(player, rating(1200, 100), 1);
+    expect(upset.rating - player.rating).toBeGreaterThan(expected.rating - player.rating);
+  });
+
+  it('grows more certain after each game', () => {
+    const first = updateGlicko2Rating(createInitialRating(), rating(1500, 50), 1);
+    const second = updateGlicko2Rating(first, rating(1500, 50), 0);
+    expect(first.ratingDeviation).toBeLessThan(RATING_CONFIG.DEFAULT_RATING_DEVIATION);
+    expect(second.ratingDeviation).toBeLessThan(first.ratingDeviation);
+  });
+
+  it('never lets the deviation drop below the minimum', () => {
+    const settled = rating(1500, RATING_CONFIG.MIN_RATING_DEVIATION, 0.01);
+    const updated = updateGlicko2Rating(settled, rating(1500, RATING_CONFIG.MIN_RATING_DEVIATION), 0.5);
+    expect(updated.ratingDeviation).toBe(RATING_CONFIG.MIN_RATING_DEVIATION);
+  });
+
+  it('never lets the deviation exceed the default', () => {
+    const uncertain = rating(1500, RATING_CONFIG.DEFAULT_RATING_DEVIATION, 0.5);
+    const updated = updateGlicko2Rating(uncertain, rating(2500, 30), 1);
+    expect(updated.ratingDeviation).toBeLessThanOrEqual(RATING_CONFIG.DEFAULT_RATING_DEVIATION);
+  });
+
+  it('keeps volatility steady when the result is as expected', () => {
+    const updated = updateGlicko2Rating(rating(1500, 200), rating(1400, 30), 1);
+    expect(updated.volatility).toBeCloseTo(0.06, 3);
+  });
+
+  it('raises volatility after a surprising result', () => {
+    const established = rating(2000, 50);
+    const updated = updateGlicko2Rating(established, rating(1000, 50), 0);
+    expect(updated.volatility).toBeGreaterThan(established.volatility);
+  });
+});
@@ -0,0 +1,135 @@
+import { RATING_CONFIG, GameOutcome } from './types';
+
+// Glicko-2 rating math (http://www.glicko.net/glicko/glicko2.pdf).
+// Every finished game is treated as its own rating period.
+
+export interface Glicko2Rating {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+}
+
+// Conversion factor between the Glicko and Glicko-2 scales
+const GLICKO2_SCALE = 173.7178;
+
+/**
+ * Rating assigned to a player who has not played yet
+ */
+export function createInitialRating(): Glicko2Rating {
+  return {
+    rating: RATING_CONFIG.DEFAULT_RATING,
+    ratingDeviation: RATING_CONFIG.DEFAULT_RATING_DEVIATION,
+    volatility: RATING_CONFIG.DEFAULT_VOLATILITY,
+  };
+}
+
+/**
+ * Convert a game outcome to a Glicko score (1 win, 0.5 draw, 0 loss)
+ */
+export function outcomeToScore(outcome: GameOutcome): number {
+  switch (outcome) {
+    case 'WON':
+      return 1;
+    case 'TIED':
+      return 0.5;
+    case 'LOST':
+      return 0;
+  }
+}
+
+/**
+ * Probability that `player` beats `opponent`
+ */
+export function expectedScore(player: Glicko2Rating, opponent: Glicko2Rating): number {
+  const mu = toGlicko2Scale(player.rating);
+  const opponentMu = toGlicko2Scale(opponent.rating);
+  const opponentPhi = opponent.ratingDeviation / GLICKO2_SCALE;
+
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+/**
+ * Rate `player` after a single game against `opponent`.
+ * `score` is 1 for a win, 0.5 for a draw and 0 for a loss.
+ */
+export function updateGlicko2Rating(player: Glicko2Rating, opponent: Glicko2Rating, score: number): Glicko2Rating {
+  const mu = toGlicko2Scale(player.rating);
+  const phi = player.ratingDeviation / GLICKO2_SCALE;
+  const opponentPhi = opponent.ratingDeviation / GLICKO2_SCALE;
+
+  const gOpponent = g(opponentPhi);
+  const expected = expectedScore(player, opponent);
+
+  // Estimated variance and improvement from this game
+  const variance = 1 / (gOpponent * gOpponent * expected * (1 - expected));
+  const delta = variance * gOpponent * (score - expected);
+
+  const volatility = updateVolatility(phi, player.volatility, variance, delta);
+
+  const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * gOpponent * (score - expected);
+
+  return {
+    rating: newMu * GLICKO2_SCALE + RATING_CONFIG.DEFAULT_RATING,
+    ratingDeviation: Math.min(
+      Math.max(newPhi * GLICKO2_SCALE, RATING_CONFIG.MIN_RATING_DEVIATION),
+      RATING_CONFIG.DEFAULT_RATING_DEVIATION
+    ),
+    volatility,
+  };
+}
+
+function toGlicko2Scale(rating: number): number {
+  return (rating - RATING_CONFIG.DEFAULT_RATING) / GLICKO2_SCALE;
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+// Step 5 of the paper: solve for the new volatility with the Illinois algorithm
+function updateVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+  const tau = RATING_CONFIG.SYSTEM_TAU;
+  const a = Math.log(sigma * sigma);
+  const phiSquared = phi * phi;
+  const deltaSquared = delta * delta;
+
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denominator = phiSquared + variance + ex;
+    return (ex * (deltaSquared - phiSquared - variance - ex)) / (2 * denominator * denominator) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (deltaSquared > phiSquared + variance) {
+    B = Math.log(deltaSquared - phiSquared - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) {
+      k += 1;
+    }
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+
+  while (Math.abs(B - A) > RATING_CONFIG.CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
@@ -17,6 +17,7 @@ export interface QuestionRepository {
   getRandomQuestionsByTheme(themeId: string, limit: number): Promise<DomainQuestion[]>;
   getQuestionById(id: string): Promise<DomainQuestion | null>;
   getQuestionsByIds(ids: string[]): Promise<DomainQuestion[]>;
+  getRecentlySeenQuestionIds(playerIds: string[], since: Date): Promise<string[]>;
 }
 
 export interface AnswerRepository {
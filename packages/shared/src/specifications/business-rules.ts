@@ -69,6 +69,8 @@ import { Game } from '../domain/aggregates';
 import { GameStatus } from '../domain/entities';
 import { PlayerId } from '../domain/value-objects';
 import { Theme, Question } from '../domain/entities';
+import { getMatchmakingSkillWindow } from '../utils';
+import { QUESTION_TYPE_CONFIG } from '../types';
 
 // Game specifications
 export class GameCanStartSpecification extends BaseSpecification<Game> {
@@ -136,7 +138,8 @@ export class QuestionBelongsToThemeSpecification extends BaseSpecification<{ que
 export class QuestionHasValidOptionsSpecification extends BaseSpecification<Question> {
   isSatisfiedBy(question: Question): boolean {
     const options = question.getOptions().getOptions();
-    return options.length === 4 && 
+    return options.length >= QUESTION_TYPE_CONFIG.MIN_OPTIONS &&
+           options.length <= QUESTION_TYPE_CONFIG.MAX_OPTIONS &&
            options.every(option => option.trim().length > 0);
   }
 }
@@ -204,9 +207,15 @@ export class OptimalGameMatchSpecification extends BaseSpecification<{
   waitingGame: Game;
   playerId: PlayerId;
   playerSkillLevel?: number;
+  waitingPlayerSkillLevel?: number;
 }> {
-  isSatisfiedBy(candidate: { waitingGame: Game; playerId: PlayerId; playerSkillLevel?: number }): boolean {
-    const { waitingGame, playerId, playerSkillLevel } = candidate;
+  isSatisfiedBy(candidate: {
+    waitingGame: Game;
+    playerId: PlayerId;
+    playerSkillLevel?: number;
+    waitingPlayerSkillLevel?: number;
+  }): boolean {
+    const { waitingGame, playerId, playerSkillLevel, waitingPlayerSkillLevel } = candidate;
 
     const gameCanAcceptPlayer = new GameCanAcceptPlayerSpecification(playerId);
     
@@ -214,18 +223,13 @@ export class OptimalGameMatchSpecification extends BaseSpecification<{
       return false;
     }
 
-    // Optional: skill-based matching
-    if (playerSkillLevel !== undefined) {
-      // Implement skill-based matching logic
-      const timeSinceCreated = Date.now() - waitingGame.getCreatedAt().getTime();
-      const maxWaitTime = 30000; // 30 seconds
-      
+    // Skill-based matching
+    if (playerSkillLevel !== undefined && waitingPlayerSkillLevel !== undefined) {
       // As wait time increases, relax skill matching requirements
-      const skillToleranceMultiplier = Math.min(timeSinceCreated / maxWaitTime, 2);
-      const maxSkillDifference = 200 * skillToleranceMultiplier;
-      
-      // For now, accept any match (skill system not implemented)
-      return true;
+      const timeSinceCreated = Date.now() - waitingGame.getCreatedAt().getTime();
+      const maxSkillDifference = getMatchmakingSkillWindow(timeSinceCreated);
+
+      return Math.abs(playerSkillLevel - waitingPlayerSkillLevel) <= maxSkillDifference;
     }
 
     return true;
@@ -289,7 +293,12 @@ export class GameSpecificationFactory {
     return new ValidAnswerSubmissionSpecification();
   }
 
-  static createMatchmakingValidation(): Specification<{ waitingGame: Game; playerId: PlayerId; playerSkillLevel?: number }> {
+  static createMatchmakingValidation(): Specification<{
+    waitingGame: Game;
+    playerId: PlayerId;
+    playerSkillLevel?: number;
+    waitingPlayerSkillLevel?: number;
+  }> {
     return new OptimalGameMatchSpecification();
   }
 }
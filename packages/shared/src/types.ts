@@ -31,32 +31,127 @@ export const ThemeSchema = z.object({
 
 export type Theme = z.infer<typeof ThemeSchema>;
 
+// Question Types: multiple choice with 2-6 options, true/false, a number where
+// the closest answer wins, or a typed short answer matched with typo tolerance
+export const QuestionTypeSchema = z.enum(['multiple_choice', 'true_false', 'numeric', 'short_answer']);
+
+export type QuestionType = z.infer<typeof QuestionTypeSchema>;
+
+export const QUESTION_TYPE_CONFIG = {
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 6,
+  TRUE_FALSE_OPTIONS: ['True', 'False'],
+  NUMERIC_TOLERANCE: 0.25, // The closest numeric answer only scores within 25% of the correct value
+  SHORT_ANSWER_MAX_LENGTH: 100,
+  SHORT_ANSWER_TYPOS_PER_CHAR: 0.2, // One typo allowed per 5 characters of the accepted answer
+} as const;
+
+// Question Media: an image or audio clip played with the question. The file lives
+// in a MediaStorage adapter; questions only carry its metadata and public URL.
+export const QUESTION_MEDIA_CONFIG = {
+  MAX_BYTES: 700 * 1024, // Uploaded base64 encoded in a JSON body, which the API caps at 1MB
+  MIME_TYPES: {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'audio/mpeg': 'mp3',
+    'audio/ogg': 'ogg',
+    'audio/wav': 'wav',
+    'audio/mp4': 'm4a',
+  } as Record<string, string>, // Accepted types and the file extension they are stored with
+  ALT_TEXT_MAX_LENGTH: 200,
+  READY_TIMEOUT_MS: 5000, // Start the question anyway if a client has not loaded the media by then
+} as const;
+
+export const QuestionMediaSchema = z.object({
+  kind: z.enum(['image', 'audio']),
+  url: z.string(),
+  mimeType: z.string(),
+  sizeBytes: z.number().int().positive(),
+  altText: z.string().max(QUESTION_MEDIA_CONFIG.ALT_TEXT_MAX_LENGTH).nullable().optional(), // Image description or audio caption
+});
+
+export type QuestionMedia = z.infer<typeof QuestionMediaSchema>;
+
+// Where uploaded media files are kept. save() returns the URL clients load the file from.
+export interface MediaStorage {
+  save(key: string, data: Uint8Array, mimeType: string): Promise<string>;
+  delete(url: string): Promise<void>;
+}
+
 // Question
 export const QuestionSchema = z.object({
   id: z.string(),
   themeId: z.string(),
   questionText: z.string(),
-  options: z.array(z.string()).length(4),
-  correctAnswer: z.number().min(0).max(3),
+  type: QuestionTypeSchema.default('multiple_choice'),
+  options: z.array(z.string()).max(QUESTION_TYPE_CONFIG.MAX_OPTIONS).default([]), // Empty for numeric and short answer questions
+  correctAnswer: z.number(), // Option index for choice questions, the value itself for numeric ones
+  acceptedAnswers: z.array(z.string()).nullable().optional(), // Short answers; the first is the one shown
   difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
+  media: QuestionMediaSchema.nullable().optional(),
 });
 
 export type Question = z.infer<typeof QuestionSchema>;
 
+// What a player submits: an option index for choice questions, typed text for
+// numeric and short answer questions
+export interface SubmittedAnswer {
+  selectedAnswer?: number;
+  answerText?: string;
+}
+
+// Question Template: a text such as "What is the capital of {country}?" and the
+// data table it is filled from. Generated questions are normal questions rows.
+export const QuestionTemplateSchema = z.object({
+  id: z.string(),
+  themeId: z.string(),
+  name: z.string().min(1).max(100),
+  textTemplate: z.string().min(1).max(500),
+  answerVariable: z.string().min(1), // Column holding each row's correct answer
+  distractorGroupBy: z.string().nullable().optional(), // Column whose rows make the best distractors
+  variables: z.array(z.object({
+    name: z.string().regex(/^\w+$/),
+    type: z.enum(['string', 'number', 'date']),
+  })).min(1),
+  difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
+  rows: z.array(z.record(z.string())),
+});
+
+export type QuestionTemplate = z.infer<typeof QuestionTemplateSchema>;
+
 // Answer
 export const AnswerSchema = z.object({
   id: z.string(),
   gameId: z.string(),
   playerId: z.string(),
   questionId: z.string(),
-  selectedAnswer: z.number().min(0).max(3).optional(),
+  selectedAnswer: z.number().int().min(0).max(QUESTION_TYPE_CONFIG.MAX_OPTIONS - 1).nullable().optional(),
+  answerText: z.string().nullable().optional(), // Numeric and short answers as typed
   isCorrect: z.boolean().optional(),
   responseTimeMs: z.number().optional(),
+  pointsEarned: z.number().int().nullable().optional(), // Unset until the answer is scored
   answeredAt: z.date(),
 });
 
 export type Answer = z.infer<typeof AnswerSchema>;
 
+// Game Rules (chosen when the game is created)
+export const GameRulesSchema = z.object({
+  totalQuestions: z.number().int().min(3).max(30),
+  questionTimeLimitSeconds: z.number().int().min(5).max(60),
+  difficulties: z.array(z.enum(['easy', 'medium', 'hard'])).min(1),
+  themeIds: z.array(z.string()).max(10), // Extra themes mixed in with the game's own theme
+});
+
+export type GameRules = z.infer<typeof GameRulesSchema>;
+
+// Game Modes (practice games are solo and never rated)
+export const GameModeSchema = z.enum(['multiplayer', 'practice']);
+
+export type GameMode = z.infer<typeof GameModeSchema>;
+
 // Game
 export const GameSchema = z.object({
   id: z.string(),
@@ -69,6 +164,13 @@ export const GameSchema = z.object({
   player2Score: z.number().default(0),
   currentQuestionIndex: z.number().default(0),
   questions: z.array(QuestionSchema).optional(),
+  isPrivate: z.boolean().optional(),
+  mode: GameModeSchema.optional(),
+  rules: GameRulesSchema.nullable().optional(),
+  totalQuestions: z.number().nullable().optional(),
+  questionTimeLimit: z.number().nullable().optional(), // Seconds
+  questionIds: z.array(z.string()).nullable().optional(), // Recorded when the game starts
+  questionStartedAt: z.date().nullable().optional(), // Null between questions
   createdAt: z.date(),
   completedAt: z.date().optional(),
 });
@@ -81,27 +183,44 @@ export interface ServerToClientEvents {
   'player-join-game': (data: { gameId: string; game: Game }) => void;
   'opponent-join-game': (data: { game: Game; opponent: Player }) => void;
   'game-started': (data: { game: Game; firstQuestion: Question; serverTime: number }) => void;
-  'question-started': (data: { question: Question; questionIndex: number; timeLimit: number; serverTime: number }) => void;
+  'question-started': (data: { question: Question; questionIndex: number; timeLimit: number; deadline: number; serverTime: number }) => void; // deadline in server time
+  'question-resumed': (data: { questionIndex: number; deadline: number; serverTime: number }) => void; // New deadline after a pause
+  'question-media-preload': (data: { gameId: string; questionIndex: number; media: QuestionMedia }) => void;
   'question-timeout': (data: { correctAnswer: number; scores: { player1: number; player2: number } }) => void;
   'opponent-answered': (data: { playerId: string; hasAnswered: boolean }) => void;
-  'game-completed': (data: { game: Game; finalScores: { player1: number; player2: number }; winner: string | null }) => void;
-  'countdown-tick': (data: { timeRemaining: number; serverTime: number }) => void;
+  'game-completed': (data: { game: Game; finalScores: { player1: number; player2: number }; winner: string | null; forfeitedBy?: string }) => void;
   'answer-result': (data: { isCorrect: boolean; points: number; correctAnswer: number }) => void;
-  'player-disconnected': (data: { playerId: string; gameId: string }) => void;
+  'player-disconnected': (data: { playerId: string; gameId: string; gracePeriodMs: number; paused: boolean }) => void;
   'player-reconnected': (data: { playerId: string; gameId: string }) => void;
   'game-cancelled': (data: { gameId: string; reason: string }) => void;
   'matchmaking-failed': (data: { reason: string; themeId: string }) => void;
   'next-question': (data: { question: Question; questionIndex: number; timeLimit: number; serverTime: number }) => void;
   'both-players-answered': (data: { results: { playerId: string; isCorrect: boolean; responseTime: number }[]; correctAnswer: number }) => void;
   'waiting-for-opponent': (data: { message: string }) => void;
-  'game-state-sync': (data: { game: Game; currentQuestion?: Question; timeRemaining?: number }) => void;
+  'game-state-sync': (data: {
+    game: Game;
+    currentQuestion?: Question;
+    timeRemaining?: number;
+    deadline?: number; // Server time; absent while paused
+    playerAnswer?: SubmittedAnswer & { responseTime: number }; // The requesting player's answer to the current question
+    paused?: boolean;
+  }) => void;
+  'clock-sync-pong': (data: { clientSentAt: number; serverTime: number }) => void;
+  'latency-probe': (data: { probeId: number }) => void; // Echoed straight back by the client
   'rate-limit-exceeded': (data: { eventType: string; message: string; resetTime?: number }) => void;
   'error': (data: { message: string; code?: string }) => void;
 }
 
 export interface ClientToServerEvents {
   'player-join-matchmaking': (data: { themeId: string; playerId: string }) => void;
-  'player-submit-answer': (data: { gameId: string; playerId: string; selectedAnswer: number; responseTime: number }) => void;
+  'player-leave-matchmaking': (data: { playerId: string }) => void;
+  'player-join-private-game': (data: { gameId: string; playerId: string }) => void;
+  'player-start-practice': (data: { gameId: string; playerId: string }) => void;
+  'player-play-bot': (data: { themeId: string; playerId: string }) => void;
+  'player-submit-answer': (data: SubmittedAnswer & { gameId: string; playerId: string }) => void; // Timed by the server
+  'clock-sync-ping': (data: { clientSentAt: number }) => void;
+  'latency-probe-echo': (data: { probeId: number }) => void;
+  'player-media-ready': (data: { gameId: string; playerId: string; questionIndex: number }) => void;
   'request-game-state': (data: { gameId: string; playerId: string }) => void;
 }
 
@@ -119,31 +238,494 @@ export const GAME_CONFIG = {
   MATCHMAKING_TIMEOUT_SECONDS: 30,
 } as const;
 
+export const DEFAULT_GAME_RULES: GameRules = {
+  totalQuestions: GAME_CONFIG.QUESTIONS_PER_GAME,
+  questionTimeLimitSeconds: GAME_CONFIG.QUESTION_TIME_LIMIT_SECONDS,
+  difficulties: ['easy', 'medium', 'hard'],
+  themeIds: [],
+};
+
+// Clock Sync: on connect clients ping the server a few times, keep the sample
+// with the shortest round trip to estimate their clock offset, and count down
+// locally to the server's deadline. The server measures each socket's round trip
+// itself with latency probes, and judges answers as sent one round trip earlier
+// than they arrived, up to MAX_LATENCY_COMPENSATION_MS.
+export const CLOCK_SYNC_CONFIG = {
+  SAMPLES: 5,
+  MAX_LATENCY_COMPENSATION_MS: 300,
+} as const;
+
+// Matchmaking
+export const MATCHMAKING_CONFIG = {
+  INITIAL_SKILL_WINDOW: 100, // Max rating difference right after joining the queue
+  SKILL_WINDOW_GROWTH_PER_SECOND: 25,
+  MAX_SKILL_WINDOW: 1000,
+  SWEEP_INTERVAL_MS: 1000,
+} as const;
+
+// Reconnection
+// 'pause' freezes the question timer while a player is away, 'continue' keeps it running
+export type DisconnectPolicy = 'pause' | 'continue';
+
+export const RECONNECT_CONFIG = {
+  GRACE_PERIOD_SECONDS: 30, // Absent longer than this and the player forfeits
+  DISCONNECT_POLICY: 'pause' as DisconnectPolicy,
+} as const;
+
+// Clustering: each running game is owned by one API node, which renews a lease
+// on it every heartbeat. Another node adopts the game once the lease lapses.
+export const CLUSTER_CONFIG = {
+  OWNERSHIP_TTL_MS: 15000,
+  HEARTBEAT_INTERVAL_MS: 5000,
+} as const;
+
+// Player Sessions
+export const SESSION_CONFIG = {
+  TOKEN_TTL_DAYS: 30,
+} as const;
+
+export interface SessionTokenPayload {
+  playerId: string;
+  issuedAt: number; // Epoch ms
+  expiresAt: number; // Epoch ms
+}
+
+export interface PlayerSession {
+  playerId: string;
+  token: string; // Signed, sent as the socket auth token and the tRPC bearer token
+  expiresAt: number; // Epoch ms
+}
+
+// Player Accounts
+export const ACCOUNT_CONFIG = {
+  PASSWORD_MIN_LENGTH: 8,
+  DISPLAY_NAME_MAX_LENGTH: 24,
+} as const;
+
+export type AccountRole = 'player' | 'admin';
+
+// Public view of a player, shown to opponents. Guests have no profile.
+export interface PlayerProfile {
+  playerId: string;
+  displayName: string;
+  avatarUrl?: string | null;
+}
+
+export interface Account extends PlayerProfile {
+  email: string;
+  passwordHash: string;
+  role: AccountRole;
+  createdAt: Date;
+}
+
+// Question Bank Administration
+export const QUESTION_BANK_CONFIG = {
+  MAX_BULK_SIZE: 100, // Ids per bulk activate/deactivate
+  MAX_PAGE_SIZE: 100,
+  MAX_IMPORT_ROWS: 2000, // Per import, through the API or the CLI
+} as const;
+
+export interface AdminTheme extends Theme {
+  createdAt: Date;
+  deletedAt?: Date | null;
+}
+
+export interface AdminQuestion extends Question {
+  isActive: boolean;
+  templateId?: string | null;
+  createdAt: Date;
+  deletedAt?: Date | null;
+}
+
+export interface QuestionBankFilter {
+  themeId?: string;
+  difficulty?: Question['difficulty'];
+  isActive?: boolean;
+  includeDeleted?: boolean;
+  limit: number;
+  offset: number;
+}
+
+// Import/export file formats: our CSV columns, QuestionSchema JSON, Open Trivia DB JSON
+export type QuestionFileFormat = 'csv' | 'json' | 'opentdb';
+
+export type QuestionImportRowStatus = 'imported' | 'valid' | 'duplicate' | 'invalid';
+
+export interface QuestionImportRowResult {
+  row: number; // 1-based, data rows only
+  status: QuestionImportRowStatus;
+  questionText: string;
+  themeName?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface QuestionImportReport {
+  dryRun: boolean;
+  format: QuestionFileFormat;
+  total: number;
+  imported: number;
+  valid: number; // Would be imported; equals imported when not a dry run
+  duplicates: number;
+  invalid: number;
+  createdThemes: AdminTheme[]; // Empty on a dry run, see themesToCreate
+  themesToCreate: string[];
+  createdQuestions: AdminQuestion[];
+  rows: QuestionImportRowResult[];
+}
+
+export interface TemplateGenerationReport {
+  templateId: string;
+  dryRun: boolean;
+  total: number; // Data table rows
+  generated: number;
+  valid: number;
+  duplicates: number;
+  invalid: number;
+  rows: QuestionImportRowResult[];
+  questions: Omit<Question, 'id'>[]; // Valid, non-duplicate questions, for previewing distractors
+  createdQuestions: AdminQuestion[];
+}
+
+// Question Exposure: which questions each player has been served, so regulars
+// are not shown the same question again within the window.
+export const QUESTION_EXPOSURE_CONFIG = {
+  RECENT_DAYS: 7, // Questions served to either player within this window are avoided
+  SAMPLE_FACTOR: 4, // Candidates sampled per question needed, leaving room to skip seen ones
+} as const;
+
+// Difficulty Calibration: a 0-1 difficulty score from how often a question is
+// answered correctly and how long players take, mapped back onto the labels.
+export const DIFFICULTY_CALIBRATION = {
+  MIN_ATTEMPTS: 20, // Below this the hand-set label is trusted
+  CORRECTNESS_WEIGHT: 0.75, // The rest of the score comes from the median response time
+  SLOW_RESPONSE_MS: 10000, // A median this slow scores as fully slow
+  MEDIUM_FROM_SCORE: 0.35,
+  HARD_FROM_SCORE: 0.6,
+} as const;
+
+export interface QuestionStats {
+  questionId: string;
+  attempts: number;
+  correctAnswers: number;
+  correctRate: number; // 0-1
+  medianResponseMs: number | null;
+  difficultyScore: number; // 0 (everyone answers fast) to 1 (nobody gets it right)
+  calibratedDifficulty: Question['difficulty'] | null; // Null until MIN_ATTEMPTS answers
+  updatedAt: Date;
+}
+
+export interface QuestionDifficultyReportEntry extends QuestionStats {
+  themeId: string;
+  questionText: string;
+  difficulty: Question['difficulty']; // The hand-set label
+  mismatch: boolean; // Calibrated difficulty disagrees with the label
+}
+
+export interface QuestionDifficultyReportFilter {
+  themeId?: string;
+  mismatchedOnly: boolean;
+  limit: number;
+  offset: number;
+}
+
+export type AuditEntityType = 'theme' | 'question' | 'template';
+
+// Audit actor for changes made outside the API, e.g. by the questions CLI
+export const SYSTEM_ACTOR_ID = '00000000-0000-0000-0000-000000000000';
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string;
+  action: string; // e.g. 'question.update'
+  entityType: AuditEntityType;
+  entityId: string;
+  before: unknown | null;
+  after: unknown | null;
+  createdAt: Date;
+}
+
+// Private Game Invites
+export const INVITE_CONFIG = {
+  CODE_LENGTH: 6,
+  CODE_ALPHABET: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789', // No 0/O or 1/I lookalikes
+  EXPIRES_IN_MINUTES: 15,
+} as const;
+
+export interface GameInvite {
+  code: string;
+  gameId: string;
+  createdBy: string;
+  expiresAt: Date;
+  usedBy?: string | null;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+// Game History Retention
+export const RETENTION_CONFIG = {
+  ARCHIVE_AFTER_DAYS: 30, // Finished games older than this move to the archive tables
+  ARCHIVE_BATCH_SIZE: 500,
+  ARCHIVE_INTERVAL_MINUTES: 60,
+} as const;
+
+// Match Replay: a finished game question by question, with both players'
+// answers and the running score after each question
+export interface MatchRecord {
+  game: Game;
+  answers: Answer[];
+}
+
+export interface ReplayAnswer {
+  playerId: string;
+  selectedAnswer?: number | null;
+  answerText?: string | null;
+  isCorrect: boolean | null; // Null if the game ended before the answer was scored
+  responseTimeMs: number; // From the start of the question, as judged by the server
+  pointsEarned: number;
+}
+
+export interface ReplayQuestion {
+  index: number;
+  question: Question;
+  answers: ReplayAnswer[]; // Players who did not answer in time are left out
+  scores: { player1: number; player2: number }; // After this question
+}
+
+export interface GameReplay {
+  game: Game;
+  timeLimitMs: number;
+  questions: ReplayQuestion[];
+}
+
+// Player Stats
+export type StatsTimeframe = 'DAY' | 'WEEK' | 'MONTH' | 'ALL';
+
+export type GameOutcome = 'WON' | 'LOST' | 'TIED';
+
+export interface PlayerStatsTotals {
+  gamesPlayed: number;
+  gamesWon: number;
+  gamesLost: number;
+  gamesTied: number;
+  totalScore: number;
+  bestScore: number;
+  totalAnswers: number;
+  correctAnswers: number;
+  totalResponseTimeMs: number;
+  fastestResponseMs: number | null;
+}
+
+export interface PlayerThemeStats extends PlayerStatsTotals {
+  themeId: string;
+  themeName: string;
+  themeDescription?: string;
+}
+
+export interface PlayerGameSummary {
+  gameId: string;
+  themeId: string;
+  themeName: string;
+  opponentId?: string;
+  playerScore: number;
+  opponentScore: number;
+  winnerId?: string;
+  opponentAnswers: number;
+  opponentCorrectAnswers: number;
+  opponentAverageResponseMs: number;
+  createdAt: Date;
+  completedAt: Date;
+}
+
+// Leaderboards
+export const GLOBAL_LEADERBOARD_SCOPE = 'global';
+
+export const LEADERBOARD_TIMEFRAMES: readonly StatsTimeframe[] = ['DAY', 'WEEK', 'MONTH', 'ALL'];
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  score: number;
+  gamesPlayed: number;
+  gamesWon: number;
+  updatedAt: Date;
+}
+
+// Skill Ratings (Glicko-2)
+export const RATING_CONFIG = {
+  DEFAULT_RATING: 1500,
+  DEFAULT_RATING_DEVIATION: 350,
+  MIN_RATING_DEVIATION: 30, // Keeps established ratings from freezing
+  DEFAULT_VOLATILITY: 0.06,
+  SYSTEM_TAU: 0.5, // Constrains how fast volatility changes
+  CONVERGENCE_TOLERANCE: 0.000001,
+} as const;
+
+export const GLOBAL_RATING_SCOPE = 'global';
+
+export interface PlayerRating {
+  playerId: string;
+  scope: string; // GLOBAL_RATING_SCOPE or a theme id
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  gamesPlayed: number;
+  updatedAt: Date;
+}
+
+export interface RatingHistoryEntry {
+  id: string;
+  playerId: string;
+  scope: string;
+  gameId: string;
+  opponentId: string;
+  outcome: GameOutcome;
+  ratingBefore: number;
+  ratingAfter: number;
+  ratingDeviationBefore: number;
+  ratingDeviationAfter: number;
+  volatility: number;
+  createdAt: Date;
+}
+
+// Bot Opponents
+export interface BotProfile {
+  id: string; // Fixed player id the bot is seated under
+  name: string;
+  rating: number; // Used to pick the bot closest to the player's skill
+  accuracy: Record<Question['difficulty'], number>; // Chance of answering correctly
+  responseTimeMs: { mean: number; stdDev: number; min: number }; // Normally distributed
+}
+
+export const BOT_PROFILES: readonly BotProfile[] = [
+  {
+    id: '00000000-0000-4000-8000-00000000b001',
+    name: 'Rookie Bot',
+    rating: 1200,
+    accuracy: { easy: 0.7, medium: 0.45, hard: 0.25 },
+    responseTimeMs: { mean: 6500, stdDev: 1800, min: 2500 },
+  },
+  {
+    id: '00000000-0000-4000-8000-00000000b002',
+    name: 'Scholar Bot',
+    rating: 1500,
+    accuracy: { easy: 0.85, medium: 0.65, hard: 0.45 },
+    responseTimeMs: { mean: 5000, stdDev: 1500, min: 1800 },
+  },
+  {
+    id: '00000000-0000-4000-8000-00000000b003',
+    name: 'Genius Bot',
+    rating: 1800,
+    accuracy: { easy: 0.95, medium: 0.85, hard: 0.7 },
+    responseTimeMs: { mean: 3500, stdDev: 1200, min: 1200 },
+  },
+];
+
 // Legacy types - maintained for backward compatibility
 // Use domain layer types for new development
 
 // Repository Interfaces (moved to separate file for better organization)
 export interface GameRepository {
-  createGame(data: { id: string; player1Id: string; themeId: string }): Promise<Game>;
+  createGame(data: { id: string; player1Id: string; themeId: string; isPrivate?: boolean; mode?: GameMode; rules?: GameRules }): Promise<Game>;
   getGameById(id: string): Promise<Game | null>;
   updateGame(id: string, data: Partial<Game>): Promise<Game | null>;
   findWaitingGameByTheme(themeId: string): Promise<Game | null>;
+  claimWaitingGame(themeId: string, playerId: string): Promise<Game | null>;
+  joinWaitingGame(gameId: string, playerId: string): Promise<Game | null>;
   deleteGame(id: string): Promise<void>;
+  // Games left running, e.g. by a crashed server
+  getActiveGames(): Promise<Game[]>;
+  // Live or archived, with its answers in the order they were given
+  getMatchRecord(id: string): Promise<MatchRecord | null>;
+  archiveFinishedGames(finishedBefore: Date, batchSize: number): Promise<number>;
 }
 
 export interface QuestionRepository {
-  getRandomQuestionsByTheme(themeId: string, limit: number): Promise<Question[]>;
+  // Both prefer questions none of `avoidSeenBy` has been served recently
+  getRandomQuestionsByTheme(themeId: string, limit: number, avoidSeenBy?: string[]): Promise<Question[]>;
+  getRandomQuestionsForRules(themeIds: string[], difficulties: GameRules['difficulties'], limit: number, avoidSeenBy?: string[]): Promise<Question[]>;
+  // How many active questions getRandomQuestionsForRules can draw from
+  countQuestionsForRules(themeIds: string[], difficulties: GameRules['difficulties']): Promise<number>;
   getQuestionById(id: string): Promise<Question | null>;
+  recordExposures(playerIds: string[], questionIds: string[]): Promise<void>;
 }
 
 export interface AnswerRepository {
   createAnswer(data: Answer): Promise<Answer>;
+  updateAnswer(id: string, data: Partial<Answer>): Promise<Answer | null>;
   getAnswersByGame(gameId: string): Promise<Answer[]>;
   getPlayerAnswersForGame(gameId: string, playerId: string): Promise<Answer[]>;
   deleteAnswersByGame(gameId: string): Promise<void>;
+  // Recomputes question_stats from live and archived answers; all questions when no ids are given
+  refreshQuestionStats(questionIds?: string[]): Promise<number>;
 }
 
 export interface ThemeRepository {
   getActiveThemes(): Promise<Theme[]>;
   getThemeById(id: string): Promise<Theme | null>;
 }
+
+export interface GameInviteRepository {
+  createInvite(data: { code: string; gameId: string; createdBy: string; expiresAt: Date }): Promise<GameInvite>;
+  getInviteByCode(code: string): Promise<GameInvite | null>;
+  // Uses up the invite and seats the player as player2 together; null when either fails
+  redeemInvite(code: string, playerId: string): Promise<Game | null>;
+}
+
+export interface AccountRepository {
+  createAccount(data: { playerId: string; email: string; passwordHash: string; displayName: string; avatarUrl?: string | null }): Promise<Account | null>;
+  getAccountByEmail(email: string): Promise<Account | null>;
+  getAccountByPlayerId(playerId: string): Promise<Account | null>;
+  getProfiles(playerIds: string[]): Promise<PlayerProfile[]>;
+}
+
+export interface QuestionBankRepository {
+  listThemes(includeDeleted: boolean): Promise<AdminTheme[]>;
+  getTheme(id: string): Promise<AdminTheme | null>;
+  createTheme(data: { name: string; description?: string }): Promise<AdminTheme | null>;
+  updateTheme(id: string, data: { name?: string; description?: string }): Promise<AdminTheme | null>;
+  setThemesActive(ids: string[], isActive: boolean): Promise<AdminTheme[]>;
+  softDeleteTheme(id: string): Promise<AdminTheme | null>;
+  listQuestions(filter: QuestionBankFilter): Promise<AdminQuestion[]>;
+  getQuestion(id: string): Promise<AdminQuestion | null>;
+  createQuestion(data: Omit<Question, 'id'> & { templateId?: string }): Promise<AdminQuestion>;
+  updateQuestion(id: string, data: Partial<Omit<Question, 'id'>>): Promise<AdminQuestion | null>;
+  setQuestionsActive(ids: string[], isActive: boolean): Promise<AdminQuestion[]>;
+  softDeleteQuestion(id: string): Promise<AdminQuestion | null>;
+  findExistingQuestionTexts(normalizedTexts: string[]): Promise<string[]>;
+  getDifficultyReport(filter: QuestionDifficultyReportFilter): Promise<QuestionDifficultyReportEntry[]>;
+}
+
+export interface QuestionTemplateRepository {
+  createTemplate(data: Omit<QuestionTemplate, 'id'>): Promise<QuestionTemplate>;
+  updateTemplate(id: string, data: Partial<Omit<QuestionTemplate, 'id'>>): Promise<QuestionTemplate | null>;
+  getTemplate(id: string): Promise<QuestionTemplate | null>;
+  listTemplates(themeId?: string): Promise<QuestionTemplate[]>;
+}
+
+export interface AuditLogRepository {
+  record(entry: Omit<AuditLogEntry, 'id' | 'createdAt'>): Promise<void>;
+  list(filter: { entityType?: AuditEntityType; entityId?: string; limit: number; offset: number }): Promise<AuditLogEntry[]>;
+}
+
+export interface PlayerStatsRepository {
+  recordAnswer(playerId: string, themeId: string, answer: { isCorrect: boolean; responseTimeMs: number }): Promise<void>;
+  recordGameResult(playerId: string, themeId: string, result: { score: number; outcome: GameOutcome }): Promise<void>;
+  getTotals(playerId: string, since?: Date): Promise<PlayerStatsTotals>;
+  getThemeTotals(playerId: string, since?: Date): Promise<PlayerThemeStats[]>;
+  getRecentGames(playerId: string, limit: number): Promise<PlayerGameSummary[]>;
+}
+
+export interface LeaderboardRepository {
+  recordGameResult(playerId: string, themeId: string, result: { score: number; won: boolean }): Promise<void>;
+  getEntries(timeframe: StatsTimeframe, scope: string, limit: number, offset: number): Promise<LeaderboardEntry[]>;
+  getPlayerEntry(timeframe: StatsTimeframe, scope: string, playerId: string): Promise<LeaderboardEntry | null>;
+  countPlayers(timeframe: StatsTimeframe, scope: string): Promise<number>;
+}
+
+export interface RatingRepository {
+  applyGameResult(gameId: string, scope: string, player1Id: string, player2Id: string, player1Outcome: GameOutcome): Promise<PlayerRating[]>;
+  getRating(playerId: string, scope: string): Promise<PlayerRating | null>;
+  getRatings(playerId: string): Promise<PlayerRating[]>;
+  getHistory(playerId: string, scope: string, limit: number): Promise<RatingHistoryEntry[]>;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculatePoints,
+  checkAnswer,
+  getClosestNumericAnswers,
+  isAcceptedShortAnswer,
+  levenshteinDistance,
+  normalizeTypedAnswer,
+  resolveGameRules
+} from './utils';
+import { DEFAULT_GAME_RULES, QUESTION_TYPE_CONFIG, Question, SCORING } from './types';
+
+const question = (fields: Partial<Question>): Question => ({
+  id: 'question',
+  themeId: 'theme',
+  questionText: 'Question?',
+  type: 'multiple_choice',
+  options: [],
+  correctAnswer: 0,
+  difficulty: 'medium',
+  ...fields,
+});
+
+describe('calculatePoints', () => {
+  it('scores an answer given inside the default time limit', () => {
+    expect(calculatePoints(0)).toBe(SCORING.MAX_POINTS_PER_QUESTION);
+    expect(calculatePoints(SCORING.QUESTION_TIME_LIMIT - 1)).toBe(SCORING.MAX_POINTS_PER_QUESTION);
+  });
+
+  it('scores nothing once the time limit is reached', () => {
+    expect(calculatePoints(SCORING.QUESTION_TIME_LIMIT)).toBe(0);
+    expect(calculatePoints(SCORING.QUESTION_TIME_LIMIT + 500)).toBe(0);
+  });
+
+  it('uses the game\'s own time limit when given one', () => {
+    const longer = 20_000;
+    const shorter = 5_000;
+
+    expect(calculatePoints(15_000)).toBe(0);
+    expect(calculatePoints(15_000, longer)).toBe(SCORING.MAX_POINTS_PER_QUESTION);
+    expect(calculatePoints(longer, longer)).toBe(0);
+
+    expect(calculatePoints(4_999, shorter)).toBe(SCORING.MAX_POINTS_PER_QUESTION);
+    expect(calculatePoints(7_000, shorter)).toBe(0);
+  });
+});
+
+describe('resolveGameRules', () => {
+  it('falls back to the default rules', () => {
+    expect(resolveGameRules()).toEqual(DEFAULT_GAME_RULES);
+    expect(resolveGameRules(null)).toEqual(DEFAULT_GAME_RULES);
+  });
+
+  it('keeps the rules a game was created with and fills in the rest', () => {
+    expect(resolveGameRules({ totalQuestions: 12, questionTimeLimitSeconds: 25 })).toEqual({
+      ...DEFAULT_GAME_RULES,
+      totalQuestions: 12,
+      questionTimeLimitSeconds: 25,
+    });
+    expect(resolveGameRules({ difficulties: ['hard'] }).difficulties).toEqual(['hard']);
+  });
+
+  it('turns a custom time limit into the cutoff for points', () => {
+    const timeLimitMs = resolveGameRules({ questionTimeLimitSeconds: 30 }).questionTimeLimitSeconds * 1000;
+    expect(calculatePoints(29_000, timeLimitMs)).toBe(SCORING.MAX_POINTS_PER_QUESTION);
+    expect(calculatePoints(30_000, timeLimitMs)).toBe(0);
+  });
+
+  it('rejects rules outside the allowed ranges', () => {
+    expect(() => resolveGameRules({ totalQuestions: 2 })).toThrow();
+    expect(() => resolveGameRules({ totalQuestions: 31 })).toThrow();
+    expect(() => resolveGameRules({ questionTimeLimitSeconds: 4 })).toThrow();
+    expect(() => resolveGameRules({ questionTimeLimitSeconds: 61 })).toThrow();
+    expect(() => resolveGameRules({ totalQuestions: 5.5 })).toThrow();
+    expect(() => resolveGameRules({ difficulties: [] })).toThrow();
+  });
+});
+
+describe('checkAnswer', () => {
+  it('checks choice questions by option index', () => {
+    const choice = question({ options: ['A', 'B', 'C'], correctAnswer: 2 });
+    expect(checkAnswer(choice, { selectedAnswer: 2 })).toEqual({ isCorrect: true });
+    expect(checkAnswer(choice, { selectedAnswer: 0 })).toEqual({ isCorrect: false });
+  });
+
+  it('checks true/false questions like two-option questions', () => {
+    const trueFalse = question({ type: 'true_false', options: [...QUESTION_TYPE_CONFIG.TRUE_FALSE_OPTIONS], correctAnswer: 1 });
+    expect(checkAnswer(trueFalse, { selectedAnswer: 1 })).toEqual({ isCorrect: true });
+    expect(checkAnswer(trueFalse, { selectedAnswer: 2 })).toBeNull();
+  });
+
+  it('rejects answers that do not fit a choice question', () => {
+    const choice = question({ options: ['A', 'B'], correctAnswer: 0 });
+    expect(checkAnswer(choice, {})).toBeNull();
+    expect(checkAnswer(choice, { selectedAnswer: -1 })).toBeNull();
+    expect(checkAnswer(choice, { selectedAnswer: 1.5 })).toBeNull();
+    expect(checkAnswer(choice, { answerText: 'A' })).toBeNull();
+  });
+
+  it('parses numeric answers and only marks exact values correct', () => {
+    const numeric = question({ type: 'numeric', correctAnswer: 1969 });
+    expect(checkAnswer(numeric, { answerText: ' 1,969 ' })).toEqual({ isCorrect: true, numericValue: 1969 });
+    expect(checkAnswer(numeric, { answerText: '1970' })).toEqual({ isCorrect: false, numericValue: 1970 });
+    expect(checkAnswer(numeric, { answerText: 'nineteen' })).toBeNull();
+    expect(checkAnswer(numeric, { answerText: '' })).toBeNull();
+    expect(checkAnswer(numeric, { selectedAnswer: 0 })).toBeNull();
+  });
+
+  it('matches short answers against the accepted answers', () => {
+    const shortAnswer = question({ type: 'short_answer', acceptedAnswers: ['William Shakespeare', 'Shakespeare'] });
+    expect(checkAnswer(shortAnswer, { answerText: 'shakespear' })).toEqual({ isCorrect: true });
+    expect(checkAnswer(shortAnswer, { answerText: 'Marlowe' })).toEqual({ isCorrect: false });
+    expect(checkAnswer(shortAnswer, { answerText: 'x'.repeat(QUESTION_TYPE_CONFIG.SHORT_ANSWER_MAX_LENGTH + 1) })).toBeNull();
+    expect(checkAnswer(shortAnswer, { selectedAnswer: 0 })).toBeNull();
+  });
+});
+
+describe('getClosestNumericAnswers', () => {
+  it('returns the player closest to the correct value', () => {
+    expect(getClosestNumericAnswers(100, [
+      { playerId: 'far', value: 80 },
+      { playerId: 'near', value: 105 },
+    ])).toEqual(['near']);
+  });
+
+  it('returns every player tied for closest', () => {
+    expect(getClosestNumericAnswers(100, [
+      { playerId: 'under', value: 95 },
+      { playerId: 'over', value: 105 },
+    ])).toEqual(['under', 'over']);
+  });
+
+  it('returns nobody when even the closest answer is outside the tolerance', () => {
+    expect(getClosestNumericAnswers(100, [{ playerId: 'edge', value: 125 }])).toEqual(['edge']);
+    expect(getClosestNumericAnswers(100, [{ playerId: 'off', value: 126 }])).toEqual([]);
+    expect(getClosestNumericAnswers(100, [])).toEqual([]);
+  });
+
+  it('only accepts the exact value when the answer is zero', () => {
+    expect(getClosestNumericAnswers(0, [{ playerId: 'exact', value: 0 }])).toEqual(['exact']);
+    expect(getClosestNumericAnswers(0, [{ playerId: 'close', value: 1 }])).toEqual([]);
+  });
+});
+
+describe('normalizeTypedAnswer', () => {
+  it('ignores case, accents, punctuation, leading articles and extra spaces', () => {
+    expect(normalizeTypedAnswer('  The   Café-Noir! ')).toBe('cafe noir');
+    expect(normalizeTypedAnswer('An Apple')).toBe('apple');
+    expect(normalizeTypedAnswer('Theodore')).toBe('theodore');
+  });
+});
+
+describe('levenshteinDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('abc', '')).toBe(3);
+    expect(levenshteinDistance('same', 'same')).toBe(0);
+  });
+});
+
+describe('isAcceptedShortAnswer', () => {
+  it('allows one typo per five characters of the accepted answer', () => {
+    // "paris" allows one typo, "shakespeare" two
+    expect(isAcceptedShortAnswer('pariz', ['Paris'])).toBe(true);
+    expect(isAcceptedShortAnswer('parzz', ['Paris'])).toBe(false);
+    expect(isAcceptedShortAnswer('shakspere', ['Shakespeare'])).toBe(true);
+    expect(isAcceptedShortAnswer('shkspere', ['Shakespeare'])).toBe(false);
+  });
+
+  it('needs answers under five characters to be exact', () => {
+    expect(isAcceptedShortAnswer('Rom', ['Rome'])).toBe(false);
+    expect(isAcceptedShortAnswer('the rome', ['Rome'])).toBe(true);
+  });
+
+  it('accepts any of the accepted answers', () => {
+    expect(isAcceptedShortAnswer('USA', ['United States', 'USA'])).toBe(true);
+  });
+
+  it('never accepts an empty answer', () => {
+    expect(isAcceptedShortAnswer('  ', [''])).toBe(false);
+    expect(isAcceptedShortAnswer('!!', ['Paris'])).toBe(false);
+  });
+});
@@ -1,20 +1,72 @@
-import { SCORING } from './types';
+import {
+  SCORING,
+  MATCHMAKING_CONFIG,
+  INVITE_CONFIG,
+  BOT_PROFILES,
+  BotProfile,
+  DEFAULT_GAME_RULES,
+  GameRules,
+  GameRulesSchema,
+  StatsTimeframe,
+  DIFFICULTY_CALIBRATION,
+  QUESTION_TYPE_CONFIG,
+  QUESTION_MEDIA_CONFIG,
+  QuestionMedia,
+  Question,
+  SubmittedAnswer
+} from './types';
 
 /**
  * Calculate points for a correct answer based on response time
  */
-export function calculatePoints(responseTimeMs: number): number {
-  if (responseTimeMs >= SCORING.QUESTION_TIME_LIMIT) {
+export function calculatePoints(responseTimeMs: number, timeLimitMs: number = SCORING.QUESTION_TIME_LIMIT): number {
+  if (responseTimeMs >= timeLimitMs) {
     return 0;
   }
 
-  const remainingTimeMs = SCORING.QUESTION_TIME_LIMIT - responseTimeMs;
+  const remainingTimeMs = timeLimitMs - responseTimeMs;
   const timeBonus = Math.round(remainingTimeMs * SCORING.TIME_BONUS_MULTIPLIER);
   const basePoints = SCORING.MAX_POINTS_PER_QUESTION - timeBonus;
 
   return Math.max(basePoints + timeBonus, 0);
 }
 
+/**
+ * Fill in defaults for missing rule fields and validate the result
+ */
+export function resolveGameRules(rules?: Partial<GameRules> | null): GameRules {
+  return GameRulesSchema.parse({ ...DEFAULT_GAME_RULES, ...rules });
+}
+
+/**
+ * Normalize question text for duplicate detection (case and whitespace insensitive)
+ */
+export function normalizeQuestionText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Score how hard a question plays from its answers: 0 when everyone answers
+ * correctly and instantly, 1 when nobody answers correctly
+ */
+export function calculateDifficultyScore(correctRate: number, medianResponseMs: number | null): number {
+  const missRate = 1 - Math.min(Math.max(correctRate, 0), 1);
+  const slowness = Math.min(Math.max(medianResponseMs ?? 0, 0) / DIFFICULTY_CALIBRATION.SLOW_RESPONSE_MS, 1);
+  const weight = DIFFICULTY_CALIBRATION.CORRECTNESS_WEIGHT;
+  return missRate * weight + slowness * (1 - weight);
+}
+
+/**
+ * Map a difficulty score onto a difficulty label, or null while there are too
+ * few answers for the score to be trusted over the hand-set label
+ */
+export function calibrateDifficulty(difficultyScore: number, attempts: number): Question['difficulty'] | null {
+  if (attempts < DIFFICULTY_CALIBRATION.MIN_ATTEMPTS) return null;
+  if (difficultyScore >= DIFFICULTY_CALIBRATION.HARD_FROM_SCORE) return 'hard';
+  if (difficultyScore >= DIFFICULTY_CALIBRATION.MEDIUM_FROM_SCORE) return 'medium';
+  return 'easy';
+}
+
 /**
  * Generate a unique player ID
  */
@@ -30,10 +82,163 @@ export function generateGameId(): string {
 }
 
 /**
- * Validate if an answer index is valid (0-3)
+ * Generate a short, human-readable invite code for a private game
  */
-export function isValidAnswerIndex(index: number): boolean {
-  return Number.isInteger(index) && index >= 0 && index <= 3;
+export function generateInviteCode(): string {
+  const alphabet = INVITE_CONFIG.CODE_ALPHABET;
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CONFIG.CODE_LENGTH));
+  return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+}
+
+/**
+ * Normalize a user-typed invite code (case, spaces and dashes)
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Validate if an answer index points at one of a question's options
+ */
+export function isValidAnswerIndex(index: number, optionCount: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < optionCount;
+}
+
+/**
+ * Check the answer fields of a question against its type, returning what is wrong
+ */
+export function getQuestionTypeErrors(
+  question: Pick<Question, 'type' | 'options' | 'correctAnswer' | 'acceptedAnswers'>
+): string[] {
+  const { MIN_OPTIONS, MAX_OPTIONS, TRUE_FALSE_OPTIONS, SHORT_ANSWER_MAX_LENGTH } = QUESTION_TYPE_CONFIG;
+  const errors: string[] = [];
+
+  switch (question.type) {
+    case 'multiple_choice':
+      if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+        errors.push(`Multiple choice questions need ${MIN_OPTIONS} to ${MAX_OPTIONS} options`);
+      } else if (!isValidAnswerIndex(question.correctAnswer, question.options.length)) {
+        errors.push('Correct answer must be the index of one of the options');
+      }
+      break;
+    case 'true_false':
+      if (question.options.join() !== TRUE_FALSE_OPTIONS.join()) {
+        errors.push(`True/false questions have the options ${TRUE_FALSE_OPTIONS.join(' and ')}`);
+      } else if (!isValidAnswerIndex(question.correctAnswer, TRUE_FALSE_OPTIONS.length)) {
+        errors.push('Correct answer must be 0 (True) or 1 (False)');
+      }
+      break;
+    case 'numeric':
+      if (question.options.length > 0) errors.push('Numeric questions have no options');
+      if (!Number.isFinite(question.correctAnswer)) errors.push('Correct answer must be a number');
+      break;
+    case 'short_answer': {
+      const accepted = question.acceptedAnswers ?? [];
+      if (question.options.length > 0) errors.push('Short answer questions have no options');
+      if (accepted.length === 0 || accepted.some(answer => normalizeTypedAnswer(answer).length === 0)) {
+        errors.push('Short answer questions need at least one non-empty accepted answer');
+      }
+      if (accepted.some(answer => answer.length > SHORT_ANSWER_MAX_LENGTH)) {
+        errors.push(`Accepted answers are at most ${SHORT_ANSWER_MAX_LENGTH} characters`);
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a submitted answer against a question. Returns null when the answer does
+ * not fit the question type (wrong field, index out of range, not a number).
+ * Numeric answers only count as correct here when exact; who was closest is
+ * decided once everyone has answered (see getClosestNumericAnswers).
+ */
+export function checkAnswer(question: Question, answer: SubmittedAnswer): { isCorrect: boolean; numericValue?: number } | null {
+  switch (question.type) {
+    case 'numeric': {
+      const text = answer.answerText?.trim().replace(/,/g, '');
+      const value = text ? Number(text) : NaN;
+      if (!Number.isFinite(value)) return null;
+      return { isCorrect: value === question.correctAnswer, numericValue: value };
+    }
+    case 'short_answer': {
+      const text = answer.answerText;
+      if (typeof text !== 'string' || text.length > QUESTION_TYPE_CONFIG.SHORT_ANSWER_MAX_LENGTH) return null;
+      return { isCorrect: isAcceptedShortAnswer(text, question.acceptedAnswers ?? []) };
+    }
+    default: {
+      const index = answer.selectedAnswer;
+      if (index === undefined || !isValidAnswerIndex(index, question.options.length)) return null;
+      return { isCorrect: index === question.correctAnswer };
+    }
+  }
+}
+
+/**
+ * Players whose numeric answer is closest to the correct value. Nobody wins when
+ * even the closest answer is further off than NUMERIC_TOLERANCE allows.
+ */
+export function getClosestNumericAnswers(correctValue: number, guesses: { playerId: string; value: number }[]): string[] {
+  const distances = guesses.map(guess => ({ playerId: guess.playerId, distance: Math.abs(guess.value - correctValue) }));
+  const closest = Math.min(...distances.map(guess => guess.distance));
+  if (distances.length === 0 || closest > Math.abs(correctValue) * QUESTION_TYPE_CONFIG.NUMERIC_TOLERANCE) {
+    return [];
+  }
+  return distances.filter(guess => guess.distance === closest).map(guess => guess.playerId);
+}
+
+/**
+ * Normalize typed answers for comparison (case, accents, punctuation, leading articles, whitespace)
+ */
+export function normalizeTypedAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions and substitutions)
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Check a typed short answer against the accepted answers, allowing a typo per
+ * few characters so "Shakespear" still counts for "Shakespeare"
+ */
+export function isAcceptedShortAnswer(answer: string, acceptedAnswers: string[]): boolean {
+  const typed = normalizeTypedAnswer(answer);
+  if (typed.length === 0) return false;
+
+  return acceptedAnswers.some(accepted => {
+    const expected = normalizeTypedAnswer(accepted);
+    const allowedTypos = Math.floor(expected.length * QUESTION_TYPE_CONFIG.SHORT_ANSWER_TYPOS_PER_CHAR);
+    return levenshteinDistance(typed, expected) <= allowedTypos;
+  });
+}
+
+/**
+ * Kind of question media a MIME type is stored as, or null when the type is not accepted
+ */
+export function getMediaKind(mimeType: string): QuestionMedia['kind'] | null {
+  if (!QUESTION_MEDIA_CONFIG.MIME_TYPES[mimeType]) return null;
+  return mimeType.startsWith('image/') ? 'image' : 'audio';
 }
 
 /**
@@ -43,3 +248,65 @@ export function calculateAccuracy(correctAnswers: number, totalQuestions: number
   if (totalQuestions === 0) return 0;
   return Math.round((correctAnswers / totalQuestions) * 100);
 }
+
+/**
+ * Maximum rating difference accepted for a match after waiting `waitTimeMs`
+ */
+export function getMatchmakingSkillWindow(waitTimeMs: number): number {
+  const growth = (Math.max(0, waitTimeMs) / 1000) * MATCHMAKING_CONFIG.SKILL_WINDOW_GROWTH_PER_SECOND;
+  return Math.min(MATCHMAKING_CONFIG.INITIAL_SKILL_WINDOW + growth, MATCHMAKING_CONFIG.MAX_SKILL_WINDOW);
+}
+
+/**
+ * Get the bot profile a player id belongs to, if it is a bot
+ */
+export function getBotProfile(playerId: string | undefined | null): BotProfile | undefined {
+  return BOT_PROFILES.find(profile => profile.id === playerId);
+}
+
+/**
+ * Check whether a player id is one of the server-side bots
+ */
+export function isBotPlayerId(playerId: string | undefined | null): boolean {
+  return getBotProfile(playerId) !== undefined;
+}
+
+/**
+ * Pick the bot whose rating is closest to the given skill level
+ */
+export function selectBotProfile(skillLevel: number): BotProfile {
+  return BOT_PROFILES.reduce((closest, profile) =>
+    Math.abs(profile.rating - skillLevel) < Math.abs(closest.rating - skillLevel) ? profile : closest
+  );
+}
+
+/**
+ * Get the UTC start of the day, ISO week or month containing `now`.
+ * Returns undefined for the all-time timeframe.
+ */
+export function getTimeframeStart(timeframe: StatsTimeframe, now: Date = new Date()): Date | undefined {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  switch (timeframe) {
+    case 'DAY':
+      return start;
+    case 'WEEK': {
+      // ISO weeks start on Monday
+      const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+      start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+      return start;
+    }
+    case 'MONTH':
+      start.setUTCDate(1);
+      return start;
+    case 'ALL':
+      return undefined;
+  }
+}
+
+/**
+ * Format a date as a UTC calendar day (YYYY-MM-DD)
+ */
+export function toUTCDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,61 @@
+import {
+  Question,
+  QuestionRepository,
+  ThemeRepository,
+  Domain,
+  DomainRepositories,
+  Advanced
+} from '@quiz-battle/shared';
+
+// The domain Question only models choice questions, so numeric and short
+// answer questions are left out of what the factory selects from
+function toDomainQuestion(question: Question): Domain.Question | null {
+  if (question.type !== 'multiple_choice' && question.type !== 'true_false') {
+    return null;
+  }
+
+  return new Domain.Question(
+    question.id,
+    question.themeId,
+    Domain.QuestionText.create(question.questionText),
+    Domain.QuestionOptions.create(question.options),
+    Domain.AnswerIndex.create(question.correctAnswer),
+    question.difficulty as Domain.QuestionDifficulty
+  );
+}
+
+class DomainThemeRepository implements DomainRepositories.ThemeRepository {
+  constructor(private readonly themeRepository: ThemeRepository) {}
+
+  async getActiveThemes(): Promise<Domain.Theme[]> {
+    const themes = await this.themeRepository.getActiveThemes();
+    return themes.map(theme => new Domain.Theme(theme.id, theme.name, theme.description, theme.isActive, theme.questionCount));
+  }
+
+  async getThemeById(id: string): Promise<Domain.Theme | null> {
+    const theme = await this.themeRepository.getThemeById(id);
+    return theme && new Domain.Theme(theme.id, theme.name, theme.description, theme.isActive, theme.questionCount);
+  }
+}
+
+class QuestionSelector implements Advanced.Factories.QuestionSelectionService {
+  constructor(private readonly questionRepository: QuestionRepository) {}
+
+  async selectQuestionsByDifficulty(themeId: string, difficulty: Domain.QuestionDifficulty, count: number): Promise<Domain.Question[]> {
+    const questions = await this.questionRepository.getRandomQuestionsForRules([themeId], [difficulty], count);
+    return questions
+      .map(toDomainQuestion)
+      .filter((question): question is Domain.Question => question !== null);
+  }
+}
+
+// SmartGameFactory over the app's repositories
+export function createGameFactory(
+  themeRepository: ThemeRepository,
+  questionRepository: QuestionRepository
+): Advanced.Factories.SmartGameFactory {
+  return new Advanced.Factories.SmartGameFactory(
+    new DomainThemeRepository(themeRepository),
+    new QuestionSelector(questionRepository)
+  );
+}
@@ -0,0 +1,58 @@
+import {
+  GameReplay,
+  MatchRecord,
+  Question,
+  ReplayAnswer,
+  ReplayQuestion,
+  calculatePoints,
+  resolveGameRules
+} from '@quiz-battle/shared';
+
+// The questions the players saw, in order. A game that ended mid-question had
+// shown that question too. Games started before question ids were recorded
+// fall back to the questions that were answered.
+export function getShownQuestionIds({ game, answers }: MatchRecord): string[] {
+  if (!game.questionIds) {
+    return Array.from(new Set(answers.map(answer => answer.questionId)));
+  }
+  const shownCount = game.currentQuestionIndex + (game.questionStartedAt ? 1 : 0);
+  return game.questionIds.slice(0, shownCount);
+}
+
+// `questions` lines up with getShownQuestionIds; a question deleted since is left out
+export function buildGameReplay({ game, answers }: MatchRecord, questions: (Question | null)[]): GameReplay {
+  const timeLimitMs = resolveGameRules(game.rules).questionTimeLimitSeconds * 1000;
+  const scores = { player1: 0, player2: 0 };
+
+  const replayQuestions = questions.flatMap((question, index): ReplayQuestion[] => {
+    if (!question) return [];
+
+    const questionAnswers = answers
+      .filter(answer => answer.questionId === question.id)
+      .map((answer): ReplayAnswer => {
+        const isCorrect = answer.isCorrect ?? null;
+        const responseTimeMs = answer.responseTimeMs ?? timeLimitMs;
+        // Answers saved before points were recorded are scored the way the game scored them
+        const pointsEarned = answer.pointsEarned ?? (isCorrect ? calculatePoints(responseTimeMs, timeLimitMs) : 0);
+
+        if (answer.playerId === game.player1Id) {
+          scores.player1 += pointsEarned;
+        } else if (answer.playerId === game.player2Id) {
+          scores.player2 += pointsEarned;
+        }
+
+        return {
+          playerId: answer.playerId,
+          selectedAnswer: answer.selectedAnswer,
+          answerText: answer.answerText,
+          isCorrect,
+          responseTimeMs,
+          pointsEarned,
+        };
+      });
+
+    return [{ index, question, answers: questionAnswers, scores: { ...scores } }];
+  });
+
+  return { game, timeLimitMs, questions: replayQuestions };
+}
@@ -1 +1,5 @@
-export * from './router';
\ No newline at end of file
+export * from './router';
+export * from './session-tokens';
+export * from './question-transfer';
+export * from './question-templates';
+export * from './media-storage';
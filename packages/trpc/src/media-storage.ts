@@ -0,0 +1,43 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { MediaStorage } from '@quiz-battle/shared';
+
+// Keeps media files in a local directory that the API serves under publicUrl.
+// Fine for a single server; several servers need a shared MediaStorage instead.
+export class LocalMediaStorage implements MediaStorage {
+  constructor(
+    readonly directory: string,
+    private readonly publicUrl: string
+  ) {}
+
+  async save(key: string, data: Uint8Array, _mimeType: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return `${this.publicUrl}/${key}`;
+  }
+
+  // URLs this storage did not hand out are ignored
+  async delete(url: string): Promise<void> {
+    if (!url.startsWith(`${this.publicUrl}/`)) return;
+    await rm(this.resolve(url.slice(this.publicUrl.length + 1)), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid media key ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// MEDIA_DIR defaults to ./uploads/media; MEDIA_PUBLIC_URL must be reachable by
+// the browser, which is on another origin than the API in development
+export const createMediaStorageFromEnv = (): LocalMediaStorage => {
+  const port = process.env.PORT || 3001;
+  return new LocalMediaStorage(
+    path.resolve(process.env.MEDIA_DIR || 'uploads/media'),
+    (process.env.MEDIA_PUBLIC_URL || `http://localhost:${port}/media`).replace(/\/+$/, '')
+  );
+};
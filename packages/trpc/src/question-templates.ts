@@ -0,0 +1,106 @@
+import {
+  QuestionTemplate,
+  QuestionBankRepository,
+  QuestionImportRowResult,
+  TemplateGenerationReport,
+  AdminQuestion,
+  Advanced,
+  normalizeQuestionText
+} from '@quiz-battle/shared';
+import { questionBankFactory, validateQuestionForBank } from './question-validation';
+
+/**
+ * Generate one question per data table row and, unless this is a dry run, store the
+ * valid ones linked to the template. Rows whose text already exists are skipped, so
+ * regenerating after adding rows only creates the new questions.
+ */
+export async function generateTemplateQuestions(
+  questionBankRepository: QuestionBankRepository,
+  template: QuestionTemplate,
+  options: { dryRun: boolean; random?: () => number }
+): Promise<TemplateGenerationReport> {
+  const generator = new Advanced.Factories.TemplateQuestionGenerator(questionBankFactory, options.random);
+  const generated = generator.generate({
+    template: {
+      id: template.id,
+      themeId: template.themeId,
+      textTemplate: template.textTemplate,
+      optionTemplates: [],
+      correctAnswerIndex: 0,
+      difficulty: template.difficulty as Advanced.Domain.QuestionDifficulty,
+      variables: template.variables,
+    },
+    answerVariable: template.answerVariable,
+    distractorGroupBy: template.distractorGroupBy ?? undefined,
+    rows: template.rows,
+  });
+
+  const rows: QuestionImportRowResult[] = generated.skipped.map(skipped => ({
+    row: skipped.row,
+    status: 'invalid',
+    questionText: '',
+    errors: [skipped.reason],
+    warnings: [],
+  }));
+
+  const candidates = generated.questions.map(({ row, question }) => ({
+    row,
+    question: {
+      themeId: template.themeId,
+      questionText: question.getText().getValue(),
+      type: 'multiple_choice' as const,
+      options: [...question.getOptions().getOptions()],
+      correctAnswer: question.getCorrectAnswerIndex().getValue(),
+      difficulty: question.getDifficulty(),
+    },
+  }));
+
+  const existingTexts = new Set(await questionBankRepository.findExistingQuestionTexts(
+    candidates.map(candidate => normalizeQuestionText(candidate.question.questionText))
+  ));
+
+  const questions: TemplateGenerationReport['questions'] = [];
+  const createdQuestions: AdminQuestion[] = [];
+  for (const { row, question } of candidates) {
+    const validation = validateQuestionForBank(question);
+    const result: QuestionImportRowResult = {
+      row,
+      status: 'invalid',
+      questionText: question.questionText,
+      errors: validation.errors,
+      warnings: validation.warnings,
+    };
+    rows.push(result);
+    if (!validation.isValid) continue;
+
+    const normalizedText = normalizeQuestionText(question.questionText);
+    if (existingTexts.has(normalizedText)) {
+      result.status = 'duplicate';
+      continue;
+    }
+    existingTexts.add(normalizedText);
+    questions.push(question);
+
+    if (options.dryRun) {
+      result.status = 'valid';
+    } else {
+      createdQuestions.push(await questionBankRepository.createQuestion({ ...question, templateId: template.id }));
+      result.status = 'imported';
+    }
+  }
+
+  rows.sort((a, b) => a.row - b.row);
+  const count = (status: QuestionImportRowResult['status']) => rows.filter(row => row.status === status).length;
+  return {
+    templateId: template.id,
+    dryRun: options.dryRun,
+    total: template.rows.length,
+    generated: count('imported'),
+    valid: count('valid') + count('imported'),
+    duplicates: count('duplicate'),
+    invalid: count('invalid'),
+    rows,
+    questions,
+    createdQuestions,
+  };
+}
@@ -0,0 +1,471 @@
+import { z } from 'zod';
+import {
+  Question,
+  QuestionSchema,
+  QuestionType,
+  QuestionTypeSchema,
+  QUESTION_TYPE_CONFIG,
+  QuestionBankRepository,
+  QuestionFileFormat,
+  QuestionImportReport,
+  QuestionImportRowResult,
+  AdminTheme,
+  AdminQuestion,
+  AuditLogRepository,
+  normalizeQuestionText
+} from '@quiz-battle/shared';
+import { validateQuestionForBank } from './question-validation';
+
+// Spreadsheet columns. correct_option is 1-based so it matches the option column names,
+// or the value itself for numeric questions. type, option_5, option_6 and
+// accepted_answers (separated by "|") are optional, so older files still import.
+const CSV_COLUMNS = ['theme', 'question_text', 'option_1', 'option_2', 'option_3', 'option_4', 'correct_option', 'difficulty'];
+const CSV_EXPORT_COLUMNS = ['theme', 'question_text', 'type', 'option_1', 'option_2', 'option_3', 'option_4', 'option_5', 'option_6', 'correct_option', 'accepted_answers', 'difficulty'];
+const CSV_OPTION_COLUMNS = CSV_EXPORT_COLUMNS.filter(column => column.startsWith('option_'));
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+// QuestionSchema, with the theme given by id or by name so files can move between databases
+const JsonQuestionSchema = QuestionSchema.extend({
+  id: z.string().optional(),
+  themeId: z.string().optional(),
+  theme: z.string().optional(),
+}).refine(question => question.themeId || question.theme, { message: 'themeId or theme is required' });
+
+const OpenTriviaQuestionSchema = z.object({
+  category: z.string(),
+  type: z.string(),
+  difficulty: z.enum(DIFFICULTIES),
+  question: z.string(),
+  correct_answer: z.string(),
+  incorrect_answers: z.array(z.string()),
+});
+
+interface ParsedRow {
+  row: number;
+  themeRef: string; // Theme id or name
+  question?: Omit<Question, 'id' | 'themeId'>;
+  errors: string[];
+}
+
+export interface QuestionImportOptions {
+  dryRun: boolean;
+  createThemes: boolean; // Create themes named in the file that do not exist yet
+  maxRows?: number;
+}
+
+export interface QuestionExportFilter {
+  themeId?: string;
+  includeInactive?: boolean;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, doubled quotes and newlines inside quotes
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function toCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Open Trivia DB escapes text as HTML entities unless asked not to
+function decodeHtmlEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', quot: '"', apos: "'", lt: '<', gt: '>', nbsp: ' ' };
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseCsvRows(content: string): ParsedRow[] {
+  const [header, ...records] = parseCsv(content);
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  return records.map((record, index) => {
+    const cell = (column: string) => (record[columns.indexOf(column)] ?? '').trim();
+    const errors: string[] = [];
+
+    const type = (cell('type') || 'multiple_choice').toLowerCase() as QuestionType;
+    if (!QuestionTypeSchema.options.includes(type)) {
+      errors.push(`Unknown type "${type}"`);
+    }
+
+    // Options up to the last filled column; true/false rows may leave them blank
+    let options = CSV_OPTION_COLUMNS.map(cell);
+    while (options.length > 0 && options[options.length - 1] === '') options.pop();
+    if (type === 'true_false' && options.length === 0) {
+      options = [...QUESTION_TYPE_CONFIG.TRUE_FALSE_OPTIONS];
+    }
+
+    const correctCell = cell('correct_option');
+    const correctOption = Number(correctCell);
+    const isChoice = type === 'multiple_choice' || type === 'true_false';
+    if (isChoice && (correctCell === '' || !Number.isInteger(correctOption))) {
+      errors.push('correct_option must be the number of an option column');
+    } else if (type === 'numeric' && (correctCell === '' || !Number.isFinite(correctOption))) {
+      errors.push('correct_option must be a number');
+    }
+
+    const acceptedAnswers = cell('accepted_answers').split('|').map(answer => answer.trim()).filter(Boolean);
+
+    const difficulty = (cell('difficulty') || 'medium').toLowerCase();
+    if (!DIFFICULTIES.includes(difficulty as Question['difficulty'])) {
+      errors.push(`Unknown difficulty "${difficulty}"`);
+    }
+
+    return {
+      row: index + 1,
+      themeRef: cell('theme'),
+      question: {
+        questionText: cell('question_text'),
+        type,
+        options,
+        correctAnswer: isChoice ? correctOption - 1 : type === 'numeric' ? correctOption : 0,
+        acceptedAnswers: type === 'short_answer' ? acceptedAnswers : undefined,
+        difficulty: difficulty as Question['difficulty'],
+      },
+      errors,
+    };
+  });
+}
+
+function parseJsonRows(content: string): ParsedRow[] {
+  const data = JSON.parse(content);
+  const items: unknown[] = Array.isArray(data) ? data : data?.questions;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON must be an array of questions or { "questions": [...] }');
+  }
+
+  return items.map((item, index) => {
+    const parsed = JsonQuestionSchema.safeParse(item);
+    if (!parsed.success) {
+      return {
+        row: index + 1,
+        themeRef: '',
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'question'}: ${issue.message}`),
+      };
+    }
+
+    const { themeId, theme, questionText, type, options, correctAnswer, acceptedAnswers, difficulty, media } = parsed.data;
+    return {
+      row: index + 1,
+      themeRef: themeId ?? theme ?? '',
+      question: { questionText, type, options, correctAnswer, acceptedAnswers, difficulty, media },
+      errors: [],
+    };
+  });
+}
+
+function parseOpenTriviaRows(content: string, random: () => number): ParsedRow[] {
+  const data = JSON.parse(content);
+  const items: unknown[] = Array.isArray(data) ? data : data?.results;
+  if (!Array.isArray(items)) {
+    throw new Error('Open Trivia DB JSON must have a "results" array');
+  }
+
+  return items.map((item, index) => {
+    const parsed = OpenTriviaQuestionSchema.safeParse(item);
+    if (!parsed.success) {
+      return {
+        row: index + 1,
+        themeRef: '',
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'question'}: ${issue.message}`),
+      };
+    }
+
+    const trivia = parsed.data;
+    if (trivia.type === 'boolean') {
+      return {
+        row: index + 1,
+        themeRef: decodeHtmlEntities(trivia.category),
+        question: {
+          questionText: decodeHtmlEntities(trivia.question),
+          type: 'true_false',
+          options: [...QUESTION_TYPE_CONFIG.TRUE_FALSE_OPTIONS],
+          correctAnswer: trivia.correct_answer === 'True' ? 0 : 1,
+          difficulty: trivia.difficulty,
+        },
+        errors: [],
+      };
+    }
+    if (trivia.type !== 'multiple') {
+      return { row: index + 1, themeRef: decodeHtmlEntities(trivia.category), errors: [`Unknown question type "${trivia.type}"`] };
+    }
+
+    // The correct answer goes to a random position among the incorrect ones
+    const options = trivia.incorrect_answers.map(decodeHtmlEntities);
+    const correctAnswer = Math.floor(random() * (options.length + 1));
+    options.splice(correctAnswer, 0, decodeHtmlEntities(trivia.correct_answer));
+
+    return {
+      row: index + 1,
+      themeRef: decodeHtmlEntities(trivia.category),
+      question: {
+        questionText: decodeHtmlEntities(trivia.question),
+        type: 'multiple_choice',
+        options,
+        correctAnswer,
+        difficulty: trivia.difficulty,
+      },
+      errors: [],
+    };
+  });
+}
+
+function parseQuestionFile(format: QuestionFileFormat, content: string, random: () => number = Math.random): ParsedRow[] {
+  switch (format) {
+    case 'csv':
+      return parseCsvRows(content);
+    case 'json':
+      return parseJsonRows(content);
+    case 'opentdb':
+      return parseOpenTriviaRows(content, random);
+  }
+}
+
+/**
+ * Validate every row, skip duplicates of existing or earlier rows and, unless this
+ * is a dry run, create missing themes and insert the remaining questions.
+ * Throws only when the file itself cannot be read; row problems go in the report.
+ */
+export async function importQuestions(
+  questionBankRepository: QuestionBankRepository,
+  format: QuestionFileFormat,
+  content: string,
+  options: QuestionImportOptions
+): Promise<QuestionImportReport> {
+  const parsedRows = parseQuestionFile(format, content);
+  if (options.maxRows !== undefined && parsedRows.length > options.maxRows) {
+    throw new Error(`At most ${options.maxRows} rows per import, the file has ${parsedRows.length}`);
+  }
+
+  const themes = await questionBankRepository.listThemes(false);
+  const themesById = new Map(themes.map(theme => [theme.id, theme]));
+  const themesByName = new Map(themes.map(theme => [theme.name.toLowerCase(), theme]));
+  const themesToCreate = new Map<string, string>(); // lowercase name -> name as written
+
+  const existingTexts = new Set(await questionBankRepository.findExistingQuestionTexts(
+    parsedRows.flatMap(row => row.question ? [normalizeQuestionText(row.question.questionText)] : [])
+  ));
+  const seenTexts = new Set<string>();
+
+  const results: QuestionImportRowResult[] = [];
+  const accepted: { result: QuestionImportRowResult; themeKey: string; question: Omit<Question, 'id' | 'themeId'> }[] = [];
+
+  for (const parsed of parsedRows) {
+    const theme = themesById.get(parsed.themeRef) ?? themesByName.get(parsed.themeRef.toLowerCase());
+    const result: QuestionImportRowResult = {
+      row: parsed.row,
+      status: 'invalid',
+      questionText: parsed.question?.questionText ?? '',
+      themeName: theme?.name ?? (parsed.themeRef || undefined),
+      errors: [...parsed.errors],
+      warnings: [],
+    };
+    results.push(result);
+
+    if (!parsed.themeRef) {
+      result.errors.push('Theme is required');
+    } else if (!theme && !options.createThemes) {
+      result.errors.push(`Theme "${parsed.themeRef}" not found`);
+    }
+
+    if (!parsed.question || result.errors.length > 0) continue;
+
+    const validation = validateQuestionForBank({ ...parsed.question, themeId: theme?.id ?? parsed.themeRef });
+    result.errors.push(...validation.errors);
+    result.warnings.push(...validation.warnings);
+    if (!validation.isValid) continue;
+
+    const normalizedText = normalizeQuestionText(parsed.question.questionText);
+    if (existingTexts.has(normalizedText) || seenTexts.has(normalizedText)) {
+      result.status = 'duplicate';
+      continue;
+    }
+    seenTexts.add(normalizedText);
+
+    const themeKey = theme ? theme.id : parsed.themeRef.toLowerCase();
+    if (!theme && !themesToCreate.has(themeKey)) {
+      themesToCreate.set(themeKey, parsed.themeRef);
+    }
+
+    result.status = 'valid';
+    accepted.push({ result, themeKey, question: parsed.question });
+  }
+
+  const createdThemes: AdminTheme[] = [];
+  const createdQuestions: AdminQuestion[] = [];
+
+  if (!options.dryRun) {
+    const themeIds = new Map(themes.map(theme => [theme.id, theme.id]));
+    for (const [key, name] of themesToCreate) {
+      // Null when the name is taken, e.g. by a deleted theme
+      const theme = await questionBankRepository.createTheme({ name });
+      if (theme) {
+        createdThemes.push(theme);
+        themeIds.set(key, theme.id);
+      }
+    }
+
+    for (const { result, themeKey, question } of accepted) {
+      const themeId = themeIds.get(themeKey);
+      if (!themeId) {
+        result.status = 'invalid';
+        result.errors.push(`Theme "${result.themeName}" could not be created`);
+        continue;
+      }
+      createdQuestions.push(await questionBankRepository.createQuestion({ ...question, themeId }));
+      result.status = 'imported';
+    }
+  }
+
+  const count = (status: QuestionImportRowResult['status']) => results.filter(row => row.status === status).length;
+  return {
+    dryRun: options.dryRun,
+    format,
+    total: results.length,
+    imported: count('imported'),
+    valid: options.dryRun ? accepted.length : count('imported'),
+    duplicates: count('duplicate'),
+    invalid: count('invalid'),
+    createdThemes,
+    themesToCreate: [...themesToCreate.values()],
+    createdQuestions,
+    rows: results,
+  };
+}
+
+/**
+ * Record the themes and questions an applied import created in the audit log
+ */
+export async function auditImport(
+  auditLogRepository: AuditLogRepository,
+  actorId: string,
+  report: QuestionImportReport
+): Promise<void> {
+  for (const theme of report.createdThemes) {
+    await auditLogRepository.record({ actorId, action: 'theme.create', entityType: 'theme', entityId: theme.id, before: null, after: theme });
+  }
+  for (const question of report.createdQuestions) {
+    await auditLogRepository.record({ actorId, action: 'question.import', entityType: 'question', entityId: question.id, before: null, after: question });
+  }
+}
+
+/**
+ * Write the (non-deleted) question bank in any importable format
+ */
+export async function exportQuestions(
+  questionBankRepository: QuestionBankRepository,
+  format: QuestionFileFormat,
+  filter: QuestionExportFilter = {}
+): Promise<string> {
+  const themes = new Map((await questionBankRepository.listThemes(false)).map(theme => [theme.id, theme]));
+
+  const questions: AdminQuestion[] = [];
+  for (let offset = 0; ; offset += 500) {
+    const page = await questionBankRepository.listQuestions({
+      themeId: filter.themeId,
+      isActive: filter.includeInactive ? undefined : true,
+      limit: 500,
+      offset,
+    });
+    questions.push(...page);
+    if (page.length < 500) break;
+  }
+
+  const themeName = (question: AdminQuestion) => themes.get(question.themeId)?.name ?? question.themeId;
+
+  switch (format) {
+    case 'csv':
+      return [
+        CSV_EXPORT_COLUMNS.join(','),
+        ...questions.map(question => [
+          themeName(question),
+          question.questionText,
+          question.type,
+          ...CSV_OPTION_COLUMNS.map((_, index) => question.options[index] ?? ''),
+          question.type === 'numeric' ? question.correctAnswer : question.type === 'short_answer' ? '' : question.correctAnswer + 1,
+          (question.acceptedAnswers ?? []).join('|'),
+          question.difficulty,
+        ].map(toCsvField).join(',')),
+      ].join('\n') + '\n';
+
+    case 'json':
+      return JSON.stringify(questions.map(question => ({
+        id: question.id,
+        themeId: question.themeId,
+        theme: themeName(question),
+        questionText: question.questionText,
+        type: question.type,
+        options: question.options,
+        correctAnswer: question.correctAnswer,
+        ...(question.acceptedAnswers ? { acceptedAnswers: question.acceptedAnswers } : {}),
+        difficulty: question.difficulty,
+        // Only the metadata; the file stays in media storage under the same URL
+        ...(question.media ? { media: question.media } : {}),
+      })), null, 2);
+
+    // Open Trivia DB only has multiple choice and true/false, typed answers are left out
+    case 'opentdb':
+      return JSON.stringify({
+        response_code: 0,
+        results: questions.filter(question => question.type === 'multiple_choice' || question.type === 'true_false').map(question => ({
+          category: themeName(question),
+          type: question.type === 'true_false' ? 'boolean' : 'multiple',
+          difficulty: question.difficulty,
+          question: question.questionText,
+          correct_answer: question.options[question.correctAnswer],
+          incorrect_answers: question.options.filter((_, index) => index !== question.correctAnswer),
+        })),
+      }, null, 2);
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  Question,
+  QUESTION_TYPE_CONFIG,
+  getQuestionTypeErrors,
+  Advanced
+} from '@quiz-battle/shared';
+
+type DomainQuestion = Advanced.Domain.Question;
+
+const validOptions = new Advanced.Specifications.QuestionHasValidOptionsSpecification();
+const { MIN_OPTIONS, MAX_OPTIONS } = QUESTION_TYPE_CONFIG;
+
+// Factory used to build and score questions written through the admin API and
+// generated from templates. Difficulty is whatever the author classified it as.
+export const questionBankFactory = new Advanced.Factories.IntelligentQuestionFactory(
+  {
+    validate: (question: DomainQuestion) => validOptions.isSatisfiedBy(question)
+      ? { isValid: true, errors: [] }
+      : { isValid: false, errors: [`Question must have ${MIN_OPTIONS} to ${MAX_OPTIONS} non-empty options`] },
+  },
+  {
+    analyzeDifficulty: (question: DomainQuestion) => question.getDifficulty(),
+  }
+);
+
+export function validateQuestionForBank(question: Omit<Question, 'id'>): Advanced.Factories.QuestionValidationResult {
+  const typeErrors = getQuestionTypeErrors(question);
+  if (typeErrors.length > 0) {
+    return { isValid: false, errors: typeErrors, warnings: [], qualityScore: 0 };
+  }
+
+  // The domain model only knows option questions, so typed answers just need usable text
+  if (question.type === 'numeric' || question.type === 'short_answer') {
+    try {
+      Advanced.Domain.QuestionText.create(question.questionText);
+    } catch (error) {
+      return { isValid: false, errors: [(error as Error).message], warnings: [], qualityScore: 0 };
+    }
+    return { isValid: true, errors: [], warnings: [], qualityScore: 100 };
+  }
+
+  let domainQuestion: DomainQuestion;
+  try {
+    domainQuestion = questionBankFactory.createQuestion(
+      question.themeId,
+      question.questionText,
+      question.options,
+      question.correctAnswer,
+      question.difficulty as Advanced.Domain.QuestionDifficulty
+    );
+  } catch (error) {
+    // Value objects reject empty text, duplicate options and out of range answers
+    return { isValid: false, errors: [(error as Error).message], warnings: [], qualityScore: 0 };
+  }
+
+  // Errors block the write; warnings (ambiguous wording, similar options) are returned to the admin
+  return questionBankFactory.validateQuestion(domainQuestion);
+}
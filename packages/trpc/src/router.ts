@@ -1,28 +1,609 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import {
   ThemeSchema,
   GameSchema,
   generateGameId,
+  generateInviteCode,
+  normalizeInviteCode,
+  INVITE_CONFIG,
+  GameRulesSchema,
+  resolveGameRules,
+  GameRules,
   GameRepository,
+  GameInviteRepository,
+  AccountRepository,
+  Account,
+  PlayerProfile,
+  ACCOUNT_CONFIG,
+  getBotProfile,
+  QuestionBankRepository,
+  QuestionTemplateRepository,
+  QuestionTemplate,
+  QuestionTemplateSchema,
+  AuditLogRepository,
+  AuditEntityType,
+  QUESTION_BANK_CONFIG,
+  QuestionTypeSchema,
+  QUESTION_MEDIA_CONFIG,
+  MediaStorage,
+  getMediaKind,
   QuestionRepository,
   AnswerRepository,
   ThemeRepository,
-  calculatePoints
+  PlayerStatsRepository,
+  LeaderboardRepository,
+  RatingRepository,
+  GLOBAL_RATING_SCOPE,
+  Domain,
+  Advanced,
+  calculatePoints,
+  generatePlayerId,
+  GameStatus
 } from '@quiz-battle/shared';
+import { SessionTokenService } from './session-tokens';
+import { hashPassword, verifyPassword } from './passwords';
+import { validateQuestionForBank } from './question-validation';
+import { importQuestions, exportQuestions, auditImport } from './question-transfer';
+import { generateTemplateQuestions } from './question-templates';
+import { getShownQuestionIds, buildGameReplay } from './game-replay';
+import { createGameFactory } from './game-factory';
 
-const t = initTRPC.create();
+export interface Context {
+  playerId?: string; // From a verified session token, never from the request body
+}
+
+export const createSessionContext = (
+  sessionTokens: SessionTokenService,
+  authorization: string | undefined
+): Context => {
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+  return { playerId: sessionTokens.verify(token)?.playerId };
+};
+
+const t = initTRPC.context<Context>().create();
 
 export const router = t.router;
 export const procedure = t.procedure;
 
+// Requires a session and, when the input names a player, that it is the session's player
+export const playerProcedure = t.procedure.use(({ ctx, rawInput, next }) => {
+  if (!ctx.playerId) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'A valid session is required' });
+  }
+
+  const inputPlayerId = (rawInput as { playerId?: unknown } | undefined)?.playerId;
+  if (inputPlayerId !== undefined && inputPlayerId !== ctx.playerId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Cannot act on behalf of another player' });
+  }
+
+  return next({ ctx: { playerId: ctx.playerId } });
+});
+
 export function createAppRouter(
   gameRepository: GameRepository,
   questionRepository: QuestionRepository,
   answerRepository: AnswerRepository,
-  themeRepository: ThemeRepository
+  themeRepository: ThemeRepository,
+  playerStatsRepository: PlayerStatsRepository,
+  leaderboardRepository: LeaderboardRepository,
+  ratingRepository: RatingRepository,
+  gameInviteRepository: GameInviteRepository,
+  accountRepository: AccountRepository,
+  questionBankRepository: QuestionBankRepository,
+  questionTemplateRepository: QuestionTemplateRepository,
+  auditLogRepository: AuditLogRepository,
+  sessionTokens: SessionTokenService,
+  mediaStorage: MediaStorage
 ) {
+  const playerStatsQueryHandler = new Advanced.QueryHandlers.GetPlayerStatsQueryHandler(playerStatsRepository);
+  const leaderboardQueryHandler = new Advanced.QueryHandlers.GetLeaderboardQueryHandler(leaderboardRepository);
+  const gameFactory = createGameFactory(themeRepository, questionRepository);
+
+  // Codes are short, so retry the rare collision with an existing one
+  async function createInvite(gameId: string, createdBy: string, expiresAt: Date) {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = generateInviteCode();
+      if (await gameInviteRepository.getInviteByCode(code)) continue;
+      return await gameInviteRepository.createInvite({ code, gameId, createdBy, expiresAt });
+    }
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Could not generate an invite code' });
+  }
+
+  // Question bank writes need an account with the admin role
+  const adminProcedure = playerProcedure.use(async ({ ctx, next }) => {
+    const account = await accountRepository.getAccountByPlayerId(ctx.playerId);
+    if (account?.role !== 'admin') {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin role required' });
+    }
+    return next({ ctx });
+  });
+
+  async function audit(
+    actorId: string,
+    action: string,
+    entityType: AuditEntityType,
+    entityId: string,
+    before: unknown | null,
+    after: unknown | null
+  ) {
+    await auditLogRepository.record({ actorId, action, entityType, entityId, before, after });
+  }
+
+  // Writes are rejected with every validation error; warnings go back with the result
+  function assertValidQuestion(question: Parameters<typeof validateQuestionForBank>[0]) {
+    const validation = validateQuestionForBank(question);
+    if (!validation.isValid) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: validation.errors.join('; ') });
+    }
+    return validation;
+  }
+
+  // Placeholders and the answer/group columns must all be declared variables
+  async function assertValidTemplate(template: Omit<QuestionTemplate, 'id'>) {
+    const theme = await questionBankRepository.getTheme(template.themeId);
+    if (!theme || theme.deletedAt) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${template.themeId} not found` });
+    }
+
+    const declared = new Set(template.variables.map(variable => variable.name));
+    const placeholders = [...template.textTemplate.matchAll(/\{\{?(\w+)\}\}?/g)].map(match => match[1]);
+    const undeclared = [...placeholders, template.answerVariable, template.distractorGroupBy]
+      .filter((name): name is string => !!name && !declared.has(name));
+    if (undeclared.length > 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Undeclared template variables: ${[...new Set(undeclared)].join(', ')}` });
+    }
+    if (placeholders.length === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Template text has no {variable} placeholders' });
+    }
+  }
+
+  // Never send the password hash or email to clients
+  function toProfile(account: Account): PlayerProfile {
+    return { playerId: account.playerId, displayName: account.displayName, avatarUrl: account.avatarUrl ?? null };
+  }
+
+  // Every theme a game draws questions from must exist and be active
+  async function assertThemesActive(themeIds: string[]) {
+    for (const themeId of new Set(themeIds)) {
+      const theme = await themeRepository.getThemeById(themeId);
+      if (!theme || !theme.isActive) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${themeId} not found` });
+      }
+    }
+  }
+
+  // Checked when the rules are chosen, so a game is never created that cannot start
+  async function assertEnoughQuestions(themeId: string, rules: GameRules) {
+    const themeIds = [themeId, ...rules.themeIds.filter(id => id !== themeId)];
+    const available = await questionRepository.countQuestionsForRules(themeIds, rules.difficulties);
+    if (available < rules.totalQuestions) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Only ${available} questions match the chosen themes and difficulties, but the game needs ${rules.totalQuestions}. ` +
+          'Choose fewer questions, more difficulties or more themes.',
+      });
+    }
+  }
+
   return router({
+    // Session routes
+    auth: router({
+      // Refreshes a still-valid token for the same player, otherwise starts a new identity
+      createSession: procedure
+        .input(z.object({ token: z.string().optional() }))
+        .mutation(({ input }) => {
+          const existing = sessionTokens.verify(input.token);
+          return sessionTokens.issue(existing?.playerId ?? generatePlayerId());
+        }),
+
+      // Upgrades the current guest into an account; the player id, and so all history, is kept
+      register: playerProcedure
+        .input(z.object({
+          email: z.string().trim().toLowerCase().email(),
+          password: z.string().min(ACCOUNT_CONFIG.PASSWORD_MIN_LENGTH),
+          displayName: z.string().trim().min(1).max(ACCOUNT_CONFIG.DISPLAY_NAME_MAX_LENGTH),
+          avatarUrl: z.string().url().optional(),
+        }))
+        .mutation(async ({ input, ctx }) => {
+          const account = await accountRepository.createAccount({
+            playerId: ctx.playerId,
+            email: input.email,
+            passwordHash: await hashPassword(input.password),
+            displayName: input.displayName,
+            avatarUrl: input.avatarUrl ?? null,
+          });
+
+          if (!account) {
+            const alreadyRegistered = await accountRepository.getAccountByPlayerId(ctx.playerId);
+            throw new TRPCError({
+              code: 'CONFLICT',
+              message: alreadyRegistered ? 'This player already has an account' : 'Email is already registered',
+            });
+          }
+
+          return { session: sessionTokens.issue(account.playerId), profile: toProfile(account) };
+        }),
+
+      // Switches this browser to the account's player
+      login: procedure
+        .input(z.object({
+          email: z.string().trim().toLowerCase().email(),
+          password: z.string(),
+        }))
+        .mutation(async ({ input }) => {
+          const account = await accountRepository.getAccountByEmail(input.email);
+          if (!account || !(await verifyPassword(input.password, account.passwordHash))) {
+            throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+          }
+
+          return { session: sessionTokens.issue(account.playerId), profile: toProfile(account) };
+        }),
+
+      // Profile of the session's player, null for guests
+      me: procedure.query(async ({ ctx }) => {
+        if (!ctx.playerId) return null;
+        const account = await accountRepository.getAccountByPlayerId(ctx.playerId);
+        return account ? toProfile(account) : null;
+      }),
+    }),
+
+    // Question bank administration, every change is audited
+    admin: router({
+      themes: router({
+        list: adminProcedure
+          .input(z.object({ includeDeleted: z.boolean().optional().default(false) }))
+          .query(async ({ input }) => {
+            return await questionBankRepository.listThemes(input.includeDeleted);
+          }),
+
+        create: adminProcedure
+          .input(z.object({
+            name: z.string().trim().min(1).max(100),
+            description: z.string().trim().max(500).optional(),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const theme = await questionBankRepository.createTheme(input);
+            if (!theme) {
+              throw new TRPCError({ code: 'CONFLICT', message: `Theme ${input.name} already exists` });
+            }
+            await audit(ctx.playerId, 'theme.create', 'theme', theme.id, null, theme);
+            return theme;
+          }),
+
+        update: adminProcedure
+          .input(z.object({
+            id: z.string(),
+            name: z.string().trim().min(1).max(100).optional(),
+            description: z.string().trim().max(500).optional(),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const { id, ...changes } = input;
+            const before = await questionBankRepository.getTheme(id);
+            const theme = before && !before.deletedAt ? await questionBankRepository.updateTheme(id, changes) : null;
+            if (!theme) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${id} not found` });
+            }
+            await audit(ctx.playerId, 'theme.update', 'theme', id, before, theme);
+            return theme;
+          }),
+
+        setActive: adminProcedure
+          .input(z.object({
+            ids: z.array(z.string()).min(1).max(QUESTION_BANK_CONFIG.MAX_BULK_SIZE),
+            isActive: z.boolean(),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const updated = await questionBankRepository.setThemesActive(input.ids, input.isActive);
+            const action = input.isActive ? 'theme.activate' : 'theme.deactivate';
+            for (const theme of updated) {
+              await audit(ctx.playerId, action, 'theme', theme.id, { isActive: !input.isActive }, { isActive: input.isActive });
+            }
+            return updated;
+          }),
+
+        delete: adminProcedure
+          .input(z.object({ id: z.string() }))
+          .mutation(async ({ input, ctx }) => {
+            const before = await questionBankRepository.getTheme(input.id);
+            const theme = before && !before.deletedAt ? await questionBankRepository.softDeleteTheme(input.id) : null;
+            if (!theme) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${input.id} not found` });
+            }
+            await audit(ctx.playerId, 'theme.delete', 'theme', input.id, before, theme);
+            return theme;
+          }),
+      }),
+
+      questions: router({
+        list: adminProcedure
+          .input(z.object({
+            themeId: z.string().optional(),
+            difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+            isActive: z.boolean().optional(),
+            includeDeleted: z.boolean().optional().default(false),
+            limit: z.number().int().min(1).max(QUESTION_BANK_CONFIG.MAX_PAGE_SIZE).optional().default(50),
+            offset: z.number().int().min(0).optional().default(0),
+          }))
+          .query(async ({ input }) => {
+            return await questionBankRepository.listQuestions(input);
+          }),
+
+        create: adminProcedure
+          .input(z.object({
+            themeId: z.string(),
+            questionText: z.string(),
+            type: QuestionTypeSchema.optional().default('multiple_choice'),
+            options: z.array(z.string()).optional().default([]),
+            correctAnswer: z.number(),
+            acceptedAnswers: z.array(z.string()).optional(),
+            difficulty: z.enum(['easy', 'medium', 'hard']).optional().default('medium'),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const theme = await questionBankRepository.getTheme(input.themeId);
+            if (!theme || theme.deletedAt) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${input.themeId} not found` });
+            }
+
+            const { warnings, qualityScore } = assertValidQuestion(input);
+            const question = await questionBankRepository.createQuestion(input);
+            await audit(ctx.playerId, 'question.create', 'question', question.id, null, question);
+            return { question, warnings, qualityScore };
+          }),
+
+        update: adminProcedure
+          .input(z.object({
+            id: z.string(),
+            themeId: z.string().optional(),
+            questionText: z.string().optional(),
+            type: QuestionTypeSchema.optional(),
+            options: z.array(z.string()).optional(),
+            correctAnswer: z.number().optional(),
+            acceptedAnswers: z.array(z.string()).nullable().optional(),
+            difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const { id, ...changes } = input;
+            const before = await questionBankRepository.getQuestion(id);
+            if (!before || before.deletedAt) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Question ${id} not found` });
+            }
+
+            if (changes.themeId && changes.themeId !== before.themeId) {
+              const theme = await questionBankRepository.getTheme(changes.themeId);
+              if (!theme || theme.deletedAt) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${changes.themeId} not found` });
+              }
+            }
+
+            // Validate the question as it will be stored, not just the changed fields
+            const { warnings, qualityScore } = assertValidQuestion({
+              themeId: changes.themeId ?? before.themeId,
+              questionText: changes.questionText ?? before.questionText,
+              type: changes.type ?? before.type,
+              options: changes.options ?? before.options,
+              correctAnswer: changes.correctAnswer ?? before.correctAnswer,
+              acceptedAnswers: changes.acceptedAnswers !== undefined ? changes.acceptedAnswers : before.acceptedAnswers,
+              difficulty: changes.difficulty ?? before.difficulty,
+            });
+
+            const question = await questionBankRepository.updateQuestion(id, changes);
+            if (!question) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Question ${id} not found` });
+            }
+            await audit(ctx.playerId, 'question.update', 'question', id, before, question);
+            return { question, warnings, qualityScore };
+          }),
+
+        setActive: adminProcedure
+          .input(z.object({
+            ids: z.array(z.string()).min(1).max(QUESTION_BANK_CONFIG.MAX_BULK_SIZE),
+            isActive: z.boolean(),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const updated = await questionBankRepository.setQuestionsActive(input.ids, input.isActive);
+            const action = input.isActive ? 'question.activate' : 'question.deactivate';
+            for (const question of updated) {
+              await audit(ctx.playerId, action, 'question', question.id, { isActive: !input.isActive }, { isActive: input.isActive });
+            }
+            return updated;
+          }),
+
+        delete: adminProcedure
+          .input(z.object({ id: z.string() }))
+          .mutation(async ({ input, ctx }) => {
+            const before = await questionBankRepository.getQuestion(input.id);
+            const question = before && !before.deletedAt ? await questionBankRepository.softDeleteQuestion(input.id) : null;
+            if (!question) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Question ${input.id} not found` });
+            }
+            await audit(ctx.playerId, 'question.delete', 'question', input.id, before, question);
+            return question;
+          }),
+
+        // The file is sent base64 encoded and replaces any media the question had
+        attachMedia: adminProcedure
+          .input(z.object({
+            id: z.string(),
+            mimeType: z.string(),
+            data: z.string().min(1),
+            altText: z.string().max(QUESTION_MEDIA_CONFIG.ALT_TEXT_MAX_LENGTH).optional(),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const before = await questionBankRepository.getQuestion(input.id);
+            if (!before || before.deletedAt) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Question ${input.id} not found` });
+            }
+
+            const kind = getMediaKind(input.mimeType);
+            if (!kind) {
+              const accepted = Object.keys(QUESTION_MEDIA_CONFIG.MIME_TYPES).join(', ');
+              throw new TRPCError({ code: 'BAD_REQUEST', message: `Media type must be one of ${accepted}` });
+            }
+
+            const data = Buffer.from(input.data, 'base64');
+            if (data.length === 0 || data.length > QUESTION_MEDIA_CONFIG.MAX_BYTES) {
+              throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `Media must be between 1 byte and ${QUESTION_MEDIA_CONFIG.MAX_BYTES / 1024} KB`,
+              });
+            }
+
+            // A fresh key per upload, so clients never get a stale cached file
+            const key = `questions/${input.id}-${Date.now()}.${QUESTION_MEDIA_CONFIG.MIME_TYPES[input.mimeType]}`;
+            const url = await mediaStorage.save(key, data, input.mimeType);
+            const question = await questionBankRepository.updateQuestion(input.id, {
+              media: { kind, url, mimeType: input.mimeType, sizeBytes: data.length, altText: input.altText ?? null },
+            });
+            if (!question) {
+              await mediaStorage.delete(url);
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Question ${input.id} not found` });
+            }
+
+            if (before.media) {
+              await mediaStorage.delete(before.media.url);
+            }
+            await audit(ctx.playerId, 'question.media.attach', 'question', input.id, { media: before.media ?? null }, { media: question.media });
+            return question;
+          }),
+
+        removeMedia: adminProcedure
+          .input(z.object({ id: z.string() }))
+          .mutation(async ({ input, ctx }) => {
+            const before = await questionBankRepository.getQuestion(input.id);
+            if (!before || before.deletedAt || !before.media) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Question ${input.id} has no media` });
+            }
+
+            const question = await questionBankRepository.updateQuestion(input.id, { media: null });
+            await mediaStorage.delete(before.media.url);
+            await audit(ctx.playerId, 'question.media.remove', 'question', input.id, { media: before.media }, { media: null });
+            return question;
+          }),
+
+        // Dry run by default: reports what would be imported without writing anything
+        import: adminProcedure
+          .input(z.object({
+            format: z.enum(['csv', 'json', 'opentdb']),
+            content: z.string().min(1),
+            dryRun: z.boolean().optional().default(true),
+            createThemes: z.boolean().optional().default(true),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            let report;
+            try {
+              report = await importQuestions(questionBankRepository, input.format, input.content, {
+                ...input,
+                maxRows: QUESTION_BANK_CONFIG.MAX_IMPORT_ROWS,
+              });
+            } catch (error) {
+              // The file itself could not be read (bad JSON, missing CSV columns, too many rows)
+              throw new TRPCError({ code: 'BAD_REQUEST', message: (error as Error).message });
+            }
+
+            await auditImport(auditLogRepository, ctx.playerId, report);
+            return report;
+          }),
+
+        export: adminProcedure
+          .input(z.object({
+            format: z.enum(['csv', 'json', 'opentdb']),
+            themeId: z.string().optional(),
+            includeInactive: z.boolean().optional().default(false),
+          }))
+          .query(async ({ input }) => {
+            return { format: input.format, content: await exportQuestions(questionBankRepository, input.format, input) };
+          }),
+
+        // Questions whose calibrated difficulty disagrees with their label, unless mismatchedOnly is off
+        difficultyReport: adminProcedure
+          .input(z.object({
+            themeId: z.string().optional(),
+            mismatchedOnly: z.boolean().optional().default(true),
+            limit: z.number().int().min(1).max(QUESTION_BANK_CONFIG.MAX_PAGE_SIZE).optional().default(50),
+            offset: z.number().int().min(0).optional().default(0),
+          }))
+          .query(async ({ input }) => {
+            return await questionBankRepository.getDifficultyReport(input);
+          }),
+
+        // Rebuilds question_stats for every question, e.g. after changing DIFFICULTY_CALIBRATION.
+        // Only derived data changes, so nothing is audited.
+        recalibrate: adminProcedure
+          .mutation(async () => {
+            return { questions: await answerRepository.refreshQuestionStats() };
+          }),
+      }),
+
+      templates: router({
+        list: adminProcedure
+          .input(z.object({ themeId: z.string().optional() }))
+          .query(async ({ input }) => {
+            return await questionTemplateRepository.listTemplates(input.themeId);
+          }),
+
+        get: adminProcedure
+          .input(z.object({ id: z.string() }))
+          .query(async ({ input }) => {
+            return await questionTemplateRepository.getTemplate(input.id);
+          }),
+
+        create: adminProcedure
+          .input(QuestionTemplateSchema.omit({ id: true }))
+          .mutation(async ({ input, ctx }) => {
+            await assertValidTemplate(input);
+            const template = await questionTemplateRepository.createTemplate(input);
+            await audit(ctx.playerId, 'template.create', 'template', template.id, null, template);
+            return template;
+          }),
+
+        update: adminProcedure
+          .input(QuestionTemplateSchema.omit({ id: true }).partial().extend({ id: z.string() }))
+          .mutation(async ({ input, ctx }) => {
+            const { id, ...changes } = input;
+            const before = await questionTemplateRepository.getTemplate(id);
+            if (!before) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Template ${id} not found` });
+            }
+            await assertValidTemplate({ ...before, ...changes });
+
+            const template = await questionTemplateRepository.updateTemplate(id, changes);
+            await audit(ctx.playerId, 'template.update', 'template', id, before, template);
+            return template;
+          }),
+
+        // Fill the template from its data table; a dry run only previews the questions
+        generate: adminProcedure
+          .input(z.object({
+            id: z.string(),
+            dryRun: z.boolean().optional().default(true),
+          }))
+          .mutation(async ({ input, ctx }) => {
+            const template = await questionTemplateRepository.getTemplate(input.id);
+            if (!template) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Template ${input.id} not found` });
+            }
+
+            const report = await generateTemplateQuestions(questionBankRepository, template, { dryRun: input.dryRun });
+            for (const question of report.createdQuestions) {
+              await audit(ctx.playerId, 'question.generate', 'question', question.id, null, question);
+            }
+            return report;
+          }),
+      }),
+
+      auditLog: adminProcedure
+        .input(z.object({
+          entityType: z.enum(['theme', 'question', 'template']).optional(),
+          entityId: z.string().optional(),
+          limit: z.number().int().min(1).max(QUESTION_BANK_CONFIG.MAX_PAGE_SIZE).optional().default(50),
+          offset: z.number().int().min(0).optional().default(0),
+        }))
+        .query(async ({ input }) => {
+          return await auditLogRepository.list(input);
+        }),
+    }),
+
     // Theme routes
     themes: router({
       getAll: procedure.query(async () => {
@@ -38,17 +619,23 @@ export function createAppRouter(
 
     // Game routes
     games: router({
-      create: procedure
+      create: playerProcedure
         .input(z.object({
           playerId: z.string(),
           themeId: z.string(),
+          rules: GameRulesSchema.partial().optional(),
         }))
         .mutation(async ({ input }) => {
+          const rules = resolveGameRules(input.rules);
+          await assertThemesActive([input.themeId, ...rules.themeIds]);
+          await assertEnoughQuestions(input.themeId, rules);
+
           const gameId = generateGameId();
           return await gameRepository.createGame({
             id: gameId,
             player1Id: input.playerId,
             themeId: input.themeId,
+            rules,
           });
         }),
 
@@ -58,27 +645,127 @@ export function createAppRouter(
           return await gameRepository.getGameById(input.id);
         }),
 
-      findWaiting: procedure
-        .input(z.object({ themeId: z.string() }))
+      // Finished games only, so a replay cannot give away the answers of a running game
+      getReplay: procedure
+        .input(z.object({ gameId: z.string() }))
         .query(async ({ input }) => {
-          return await gameRepository.findWaitingGameByTheme(input.themeId);
+          const record = await gameRepository.getMatchRecord(input.gameId);
+          if (!record) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Game not found' });
+          }
+          if (record.game.status !== GameStatus.COMPLETED && record.game.status !== GameStatus.CANCELLED) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: 'Game has not finished yet' });
+          }
+
+          const questions = await Promise.all(
+            getShownQuestionIds(record).map(questionId => questionRepository.getQuestionById(questionId))
+          );
+          return buildGameReplay(record, questions);
         }),
 
-      update: procedure
+      createPrivate: playerProcedure
         .input(z.object({
-          id: z.string(),
-          data: z.object({
-            player2Id: z.string().optional(),
-            status: z.enum(['waiting', 'active', 'completed', 'cancelled']).optional(),
-            winnerId: z.string().optional(),
-            player1Score: z.number().optional(),
-            player2Score: z.number().optional(),
-            currentQuestionIndex: z.number().optional(),
-            completedAt: z.date().optional(),
-          }),
+          playerId: z.string(),
+          themeId: z.string(),
+          rules: GameRulesSchema.partial().optional(),
+        }))
+        .mutation(async ({ input }) => {
+          const rules = resolveGameRules(input.rules);
+
+          // The factory checks the game's own theme; the second seat stays open for the invitee
+          let privateGame: Domain.Game;
+          try {
+            privateGame = await gameFactory.createPrivateGame(Domain.PlayerId.create(input.playerId), input.themeId);
+          } catch (error) {
+            if (error instanceof Domain.ThemeNotFoundError || error instanceof Domain.ThemeNotActiveError) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: `Theme ${input.themeId} not found` });
+            }
+            throw error;
+          }
+          await assertThemesActive(rules.themeIds);
+          await assertEnoughQuestions(input.themeId, rules);
+
+          const game = await gameRepository.createGame({
+            id: privateGame.id,
+            player1Id: privateGame.getPlayer1Id().getValue(),
+            themeId: privateGame.getThemeId(),
+            isPrivate: true,
+            rules,
+          });
+
+          const expiresAt = new Date(Date.now() + INVITE_CONFIG.EXPIRES_IN_MINUTES * 60 * 1000);
+          const invite = await createInvite(game.id, input.playerId, expiresAt);
+
+          return {
+            game,
+            code: invite.code,
+            expiresAt: invite.expiresAt,
+            invitePath: `/join/${invite.code}`,
+          };
+        }),
+
+      joinByCode: playerProcedure
+        .input(z.object({
+          playerId: z.string(),
+          code: z.string().min(1).max(32),
+        }))
+        .mutation(async ({ input }) => {
+          const code = normalizeInviteCode(input.code);
+          const invite = await gameInviteRepository.getInviteByCode(code);
+          if (!invite) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Invite code not found' });
+          }
+
+          // Opening the link again (host or the player who already joined) is a no-op
+          if (invite.createdBy === input.playerId || invite.usedBy === input.playerId) {
+            const game = await gameRepository.getGameById(invite.gameId);
+            if (!game) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: 'Game not found' });
+            }
+            return { game, isHost: invite.createdBy === input.playerId };
+          }
+
+          if (invite.usedAt) {
+            throw new TRPCError({ code: 'CONFLICT', message: 'Invite code has already been used' });
+          }
+          if (invite.expiresAt.getTime() <= Date.now()) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invite code has expired' });
+          }
+
+          // Uses up the code only together with the seat, so a failed join leaves it valid
+          const game = await gameInviteRepository.redeemInvite(code, input.playerId);
+          if (!game) {
+            throw new TRPCError({ code: 'CONFLICT', message: 'Invite code is no longer valid or the game is no longer open' });
+          }
+
+          return { game, isHost: false };
+        }),
+
+      // Solo game against the clock; started with the player-start-practice socket event
+      createPractice: playerProcedure
+        .input(z.object({
+          playerId: z.string(),
+          themeId: z.string(),
+          difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
         }))
         .mutation(async ({ input }) => {
-          return await gameRepository.updateGame(input.id, input.data);
+          await assertThemesActive([input.themeId]);
+          const rules = resolveGameRules(input.difficulty ? { difficulties: [input.difficulty] } : undefined);
+          await assertEnoughQuestions(input.themeId, rules);
+
+          return await gameRepository.createGame({
+            id: generateGameId(),
+            player1Id: input.playerId,
+            themeId: input.themeId,
+            mode: 'practice',
+            rules,
+          });
+        }),
+
+      findWaiting: procedure
+        .input(z.object({ themeId: z.string() }))
+        .query(async ({ input }) => {
+          return await gameRepository.findWaitingGameByTheme(input.themeId);
         }),
     }),
 
@@ -94,37 +781,85 @@ export function createAppRouter(
         }),
     }),
 
-    // Answer routes
+    // Answer routes (read only: answers are written by GameManager as the game is played)
     answers: router({
-      create: procedure
+      getByGame: procedure
+        .input(z.object({ gameId: z.string() }))
+        .query(async ({ input }) => {
+          return await answerRepository.getAnswersByGame(input.gameId);
+        }),
+    }),
+
+    // Player routes
+    players: router({
+      getStats: procedure
         .input(z.object({
-          gameId: z.string(),
           playerId: z.string(),
-          questionId: z.string(),
-          selectedAnswer: z.number().min(0).max(3),
-          responseTimeMs: z.number(),
+          timeframe: z.enum(['DAY', 'WEEK', 'MONTH', 'ALL']).optional().default('ALL'),
         }))
-        .mutation(async ({ input }) => {
-          // Get the question to determine if answer is correct
-          const question = await questionRepository.getQuestionById(input.questionId);
-          const isCorrect = question ? input.selectedAnswer === question.correctAnswer : false;
-          
-          return await answerRepository.createAnswer({
-            id: crypto.randomUUID(),
-            gameId: input.gameId,
-            playerId: input.playerId,
-            questionId: input.questionId,
-            selectedAnswer: input.selectedAnswer,
-            isCorrect,
-            responseTimeMs: input.responseTimeMs,
-            answeredAt: new Date(),
-          });
+        .query(async ({ input }) => {
+          return await playerStatsQueryHandler.handle(
+            new Advanced.Queries.GetPlayerStatsQuery(Domain.PlayerId.create(input.playerId), input.timeframe)
+          );
         }),
 
-      getByGame: procedure
-        .input(z.object({ gameId: z.string() }))
+      // Display names and avatars for registered players and bots; guests are left out
+      getProfiles: procedure
+        .input(z.object({ playerIds: z.array(z.string()).max(10) }))
         .query(async ({ input }) => {
-          return await answerRepository.getAnswersByGame(input.gameId);
+          const profiles: PlayerProfile[] = await accountRepository.getProfiles(input.playerIds);
+          for (const playerId of input.playerIds) {
+            const bot = getBotProfile(playerId);
+            if (bot) profiles.push({ playerId, displayName: bot.name, avatarUrl: null });
+          }
+          return profiles;
+        }),
+    }),
+
+    // Leaderboard routes
+    leaderboards: router({
+      get: procedure
+        .input(z.object({
+          timeframe: z.enum(['DAY', 'WEEK', 'MONTH', 'ALL']).optional().default('ALL'),
+          themeId: z.string().optional(),
+          limit: z.number().int().min(1).max(100).optional().default(20),
+          offset: z.number().int().min(0).optional().default(0),
+        }))
+        .query(async ({ input, ctx }) => {
+          // The caller's own rank comes from their session, never from the input
+          return await leaderboardQueryHandler.handle(
+            new Advanced.Queries.GetLeaderboardQuery(
+              input.themeId,
+              input.timeframe,
+              input.limit,
+              undefined,
+              ctx.playerId,
+              input.offset
+            )
+          );
+        }),
+    }),
+
+    // Rating routes
+    ratings: router({
+      get: procedure
+        .input(z.object({ playerId: z.string() }))
+        .query(async ({ input }) => {
+          return await ratingRepository.getRatings(input.playerId);
+        }),
+
+      getHistory: procedure
+        .input(z.object({
+          playerId: z.string(),
+          themeId: z.string().optional(),
+          limit: z.number().int().min(1).max(100).optional().default(20),
+        }))
+        .query(async ({ input }) => {
+          return await ratingRepository.getHistory(
+            input.playerId,
+            input.themeId ?? GLOBAL_RATING_SCOPE,
+            input.limit
+          );
         }),
     }),
   });
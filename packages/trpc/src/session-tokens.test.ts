@@ -0,0 +1,85 @@
+import { createHmac, randomUUID } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionTokenService, createSessionTokenServiceFromEnv } from './session-tokens';
+
+const TTL_MS = 60 * 60 * 1000;
+
+describe('SessionTokenService', () => {
+  const service = new SessionTokenService('test-secret', TTL_MS);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('verifies the tokens it issues', () => {
+    const playerId = randomUUID();
+    const session = service.issue(playerId);
+
+    expect(session.playerId).toBe(playerId);
+    expect(service.verify(session.token)).toMatchObject({ playerId, expiresAt: session.expiresAt });
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const session = new SessionTokenService('other-secret', TTL_MS).issue(randomUUID());
+    expect(service.verify(session.token)).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const session = service.issue(randomUUID());
+    const [, signature] = session.token.split('.');
+    const forged = Buffer.from(JSON.stringify({
+      playerId: randomUUID(),
+      issuedAt: Date.now(),
+      expiresAt: session.expiresAt,
+    })).toString('base64url');
+
+    expect(service.verify(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token whose signature was changed', () => {
+    const session = service.issue(randomUUID());
+    const last = session.token.at(-1) === 'A' ? 'B' : 'A';
+    expect(service.verify(session.token.slice(0, -1) + last)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const { token } = service.issue(randomUUID());
+    for (const malformed of [undefined, null, 42, '', 'no-dot', '.', `${token}.extra`, token.split('.')[0]]) {
+      expect(service.verify(malformed)).toBeNull();
+    }
+  });
+
+  it('rejects a correctly signed payload that is not a session', () => {
+    const payload = Buffer.from(JSON.stringify({ playerId: 7 })).toString('base64url');
+    const signature = createHmac('sha256', 'test-secret').update(payload).digest('base64url');
+    expect(service.verify(`${payload}.${signature}`)).toBeNull();
+  });
+
+  it('expires tokens after their lifetime', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const session = service.issue(randomUUID());
+
+    vi.advanceTimersByTime(TTL_MS - 1);
+    expect(service.verify(session.token)).not.toBeNull();
+
+    vi.advanceTimersByTime(1);
+    expect(service.verify(session.token)).toBeNull();
+  });
+});
+
+describe('createSessionTokenServiceFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses to start without SESSION_SECRET', () => {
+    vi.stubEnv('SESSION_SECRET', '');
+    expect(() => createSessionTokenServiceFromEnv()).toThrow('SESSION_SECRET is not set');
+  });
+
+  it('lets nodes with the same secret verify each other\'s tokens', () => {
+    vi.stubEnv('SESSION_SECRET', 'shared-secret');
+    const session = createSessionTokenServiceFromEnv().issue(randomUUID());
+    expect(createSessionTokenServiceFromEnv().verify(session.token)?.playerId).toBe(session.playerId);
+  });
+});
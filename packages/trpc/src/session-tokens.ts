@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  SESSION_CONFIG,
+  SessionTokenPayload,
+  PlayerSession
+} from '@quiz-battle/shared';
+
+// Issues and checks HMAC-signed session tokens of the form `<payload>.<signature>`,
+// both base64url encoded. The token is the only proof of which player a client is.
+export class SessionTokenService {
+  constructor(
+    private readonly secret: string,
+    private readonly ttlMs: number = SESSION_CONFIG.TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+  ) {}
+
+  issue(playerId: string): PlayerSession {
+    const issuedAt = Date.now();
+    const payload: SessionTokenPayload = { playerId, issuedAt, expiresAt: issuedAt + this.ttlMs };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      playerId,
+      token: `${encodedPayload}.${this.sign(encodedPayload)}`,
+      expiresAt: payload.expiresAt,
+    };
+  }
+
+  // Returns null for anything malformed, tampered with or expired
+  verify(token: unknown): SessionTokenPayload | null {
+    if (typeof token !== 'string') return null;
+
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.sign(encodedPayload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as SessionTokenPayload;
+      if (typeof payload.playerId !== 'string' || typeof payload.expiresAt !== 'number') return null;
+      return payload.expiresAt > Date.now() ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(encodedPayload: string): string {
+    return createHmac('sha256', this.secret).update(encodedPayload).digest('base64url');
+  }
+}
+
+// Secret from SESSION_SECRET. It is required: with a secret that changed on
+// restart, or differed between nodes, every guest would get a new player id.
+export const createSessionTokenServiceFromEnv = (): SessionTokenService => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set. Every API node needs the same secret to verify player sessions.');
+  }
+  return new SessionTokenService(secret);
+};
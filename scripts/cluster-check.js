@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+
+/**
+ * Cluster Check
+ * Points several simulated API nodes at the same Redis and verifies that
+ * exactly one of them wins each game, that a game survives its owner's lease
+ * running out, that messages published by one node reach the others, and that
+ * only one node takes each pair of matchmaking tickets.
+ *
+ * Needs a Redis server and built packages:
+ *   npm run build && REDIS_URL=redis://localhost:6379 npm run check:cluster
+ */
+
+const { randomUUID } = require('crypto');
+const { RedisClusterBackend } = require('../packages/game-engine/dist');
+
+const NODES = Number(process.env.CLUSTER_NODES) || 4;
+const GAMES = Number(process.env.CLUSTER_GAMES) || 20;
+const LEASE_MS = 500;
+
+async function main() {
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    throw new Error('REDIS_URL is not set');
+  }
+
+  console.log('🧩 Cluster Check\n');
+
+  const nodes = Array.from({ length: NODES }, () => ({ id: randomUUID(), backend: new RedisClusterBackend(redisUrl) }));
+  const gameIds = Array.from({ length: GAMES }, () => randomUUID());
+  const tickets = Array.from({ length: 2 }, () => ({
+    playerId: randomUUID(), themeId: randomUUID(), skillLevel: 1500, enqueuedAt: Date.now(), gameId: randomUUID()
+  }));
+  const failures = [];
+
+  try {
+    // Every node tries to take every game at once
+    const claims = await Promise.all(gameIds.flatMap(gameId =>
+      nodes.map(node => node.backend.acquireOwnership(gameId, node.id, LEASE_MS).then(won => ({ gameId, node, won })))
+    ));
+    console.log(`⚡ ${NODES} nodes raced for ${GAMES} games`);
+
+    for (const gameId of gameIds) {
+      const winners = claims.filter(claim => claim.gameId === gameId && claim.won);
+      if (winners.length !== 1) {
+        failures.push(`game ${gameId} has ${winners.length} owners`);
+        continue;
+      }
+      const owner = await nodes[0].backend.getOwner(gameId);
+      if (owner !== winners[0].node.id) {
+        failures.push(`game ${gameId} is owned by ${owner}, not the node that won it`);
+      }
+    }
+
+    // A saved session is readable from every node
+    const [first, second] = nodes;
+    const gameId = gameIds[0];
+    await first.backend.saveSession({ game: { id: gameId, createdAt: new Date() }, answers: [['player', { responseTime: 1200 }]] });
+    const snapshot = await second.backend.loadSession(gameId);
+    if (!snapshot || !(snapshot.game.createdAt instanceof Date) || snapshot.answers[0][1].responseTime !== 1200) {
+      failures.push('session snapshot did not round-trip between nodes');
+    }
+
+    // Once the owner stops renewing, another node can take over
+    await new Promise(resolve => setTimeout(resolve, LEASE_MS * 2));
+    const taker = nodes.find(node => node.id !== claims.find(claim => claim.gameId === gameId && claim.won).node.id);
+    if (!await taker.backend.acquireOwnership(gameId, taker.id, LEASE_MS)) {
+      failures.push(`expired lease on game ${gameId} could not be taken over`);
+    }
+
+    // Published messages reach the other nodes
+    const received = [];
+    const channel = `cluster-check-${randomUUID()}`;
+    await second.backend.subscribe(channel, message => received.push(message));
+    await first.backend.publish(channel, { gameId });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    if (received.length !== 1 || received[0].gameId !== gameId) {
+      failures.push(`expected one message on ${channel}, got ${received.length}`);
+    }
+
+    // Tickets queued on one node are seen by the others, and only one node takes a pair
+    await first.backend.saveMatchmakingTicket(tickets[0]);
+    await second.backend.saveMatchmakingTicket(tickets[1]);
+    const queued = await nodes[nodes.length - 1].backend.listMatchmakingTickets();
+    if (tickets.some(ticket => !queued.some(other => other.playerId === ticket.playerId))) {
+      failures.push('matchmaking tickets are not shared between nodes');
+    }
+    const takes = await Promise.all(nodes.map(node => node.backend.takeMatchmakingTickets(tickets)));
+    if (takes.filter(Boolean).length !== 1) {
+      failures.push(`${takes.filter(Boolean).length} nodes took the same matchmaking pair`);
+    }
+
+    console.log(`\n📊 Results:`);
+    console.log(`   Games with a single owner: ${GAMES - failures.filter(failure => failure.includes('owners')).length}/${GAMES}`);
+
+    if (failures.length > 0) {
+      console.log('\n❌ Cluster check failed:');
+      failures.forEach(failure => console.log(`   ${failure}`));
+      process.exitCode = 1;
+    } else {
+      console.log('\n✅ Ownership, handover, sessions, messages and matchmaking work across nodes');
+    }
+  } finally {
+    for (const ticket of tickets) {
+      await nodes[0].backend.removeMatchmakingTicket(ticket.playerId);
+    }
+    for (const gameId of gameIds) {
+      await nodes[0].backend.deleteSession(gameId);
+      for (const node of nodes) {
+        await node.backend.releaseOwnership(gameId, node.id);
+      }
+    }
+    await Promise.all(nodes.map(node => node.backend.close()));
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Cluster check failed:', error.message);
+  process.exitCode = 1;
+});
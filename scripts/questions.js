@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Question Bank Import/Export
+ * Imports questions from CSV, QuestionSchema JSON or Open Trivia DB JSON, or
+ * exports the question bank in any of those formats.
+ *
+ * Needs a configured database (packages/database/.env) and built packages:
+ *   npm run build
+ *   npm run questions -- import questions.csv              # dry run, prints the report
+ *   npm run questions -- import questions.csv --apply      # writes to the database
+ *   npm run questions -- import trivia.json --format opentdb --no-create-themes --apply
+ *   npm run questions -- export bank.csv [--theme <themeId>] [--include-inactive]
+ *
+ * The format is taken from --format or the file extension (.csv / .json). Imports
+ * take at most QUESTION_BANK_CONFIG.MAX_IMPORT_ROWS rows, like admin.questions.import,
+ * and applied ones are recorded in the audit log under SYSTEM_ACTOR_ID.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const FORMATS = ['csv', 'json', 'opentdb'];
+
+function parseArgs(argv) {
+  const [command, file, ...rest] = argv;
+  const options = { command, file, apply: false, createThemes: true, includeInactive: false };
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--apply': options.apply = true; break;
+      case '--no-create-themes': options.createThemes = false; break;
+      case '--include-inactive': options.includeInactive = true; break;
+      case '--format': options.format = rest[++i]; break;
+      case '--theme': options.themeId = rest[++i]; break;
+      default: throw new Error(`Unknown option ${rest[i]}`);
+    }
+  }
+
+  if (!['import', 'export'].includes(command) || !file) {
+    throw new Error('Usage: questions.js <import|export> <file> [options]');
+  }
+
+  options.file = path.resolve(process.cwd(), file);
+  options.format = options.format || (path.extname(file).toLowerCase() === '.csv' ? 'csv' : 'json');
+  if (!FORMATS.includes(options.format)) {
+    throw new Error(`Format must be one of ${FORMATS.join(', ')}`);
+  }
+  return options;
+}
+
+function printReport(report) {
+  for (const row of report.rows) {
+    if (row.status === 'invalid') {
+      console.log(`❌ Row ${row.row}: ${row.errors.join('; ')}`);
+    } else if (row.status === 'duplicate') {
+      console.log(`⏭️  Row ${row.row}: duplicate of an existing question`);
+    } else if (row.warnings.length > 0) {
+      console.log(`⚠️  Row ${row.row}: ${row.warnings.join('; ')}`);
+    }
+  }
+
+  console.log(`\n📋 ${report.total} rows: ${report.valid} valid, ${report.duplicates} duplicates, ${report.invalid} invalid`);
+  if (report.themesToCreate.length > 0) {
+    console.log(`🏷️  Themes ${report.dryRun ? 'to create' : 'created'}: ${report.themesToCreate.join(', ')}`);
+  }
+  console.log(report.dryRun
+    ? '🔍 Dry run, nothing was written. Re-run with --apply to import.'
+    : `✅ Imported ${report.imported} questions`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Resolve the file before switching to the database package for its .env
+  process.chdir(path.join(__dirname, '../packages/database'));
+  const { DatabaseQuestionBankRepository, DatabaseAuditLogRepository } = require('../packages/database/dist');
+  const { importQuestions, exportQuestions, auditImport } = require('../packages/trpc/dist');
+  const { QUESTION_BANK_CONFIG, SYSTEM_ACTOR_ID } = require('../packages/shared/dist');
+  const questionBankRepository = new DatabaseQuestionBankRepository();
+
+  if (options.command === 'import') {
+    const content = fs.readFileSync(options.file, 'utf8');
+    const report = await importQuestions(questionBankRepository, options.format, content, {
+      dryRun: !options.apply,
+      createThemes: options.createThemes,
+      maxRows: QUESTION_BANK_CONFIG.MAX_IMPORT_ROWS,
+    });
+    await auditImport(new DatabaseAuditLogRepository(), SYSTEM_ACTOR_ID, report);
+    printReport(report);
+    return report.invalid > 0 ? 1 : 0;
+  }
+
+  const content = await exportQuestions(questionBankRepository, options.format, {
+    themeId: options.themeId,
+    includeInactive: options.includeInactive,
+  });
+  fs.writeFileSync(options.file, content);
+  console.log(`✅ Exported questions to ${options.file}`);
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exit(1);
+  });